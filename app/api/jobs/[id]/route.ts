@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAnalysisJobQueue, serializeJob } from "../../../../lib/analysis-jobs";
+import { AnalysisError, toErrorBody } from "../../../../lib/analysis-errors";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getAnalysisJobQueue().get(id);
+
+  if (!job) {
+    const error = new AnalysisError('JOB_NOT_FOUND', "Job not found");
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+
+  return NextResponse.json(serializeJob(job));
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getAnalysisJobQueue().cancel(id);
+
+  if (!job) {
+    const error = new AnalysisError('JOB_NOT_FOUND', "Job not found");
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+
+  if (job.status !== 'cancelled') {
+    const error = new AnalysisError('JOB_NOT_CANCELLABLE', `Job already ${job.status}`);
+    return NextResponse.json({ ...serializeJob(job), ...toErrorBody(error) }, { status: error.status });
+  }
+
+  return NextResponse.json(serializeJob(job));
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseAnalysisRequest } from "../../../lib/analysis-request";
+import { getAnalysisJobQueue, serializeJob } from "../../../lib/analysis-jobs";
+import { AnalysisError, toAnalysisError, toErrorBody } from "../../../lib/analysis-errors";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => {
+      throw new AnalysisError('INVALID_REQUEST', "Invalid JSON body");
+    });
+    const parsed = parseAnalysisRequest(body?.payload);
+
+    if ('error' in parsed) {
+      throw parsed.error;
+    }
+
+    const job = getAnalysisJobQueue().enqueue(parsed.request);
+
+    return NextResponse.json(serializeJob(job), {
+      status: 202,
+      headers: { Location: `/api/jobs/${job.id}` },
+    });
+  } catch (e) {
+    console.error('Job API Error:', e);
+
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+}
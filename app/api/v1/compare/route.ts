@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseAnalysisRequest } from "../../../../lib/analysis-request";
+import { UrlComparator } from "../../../../lib/url-comparator";
+import { AnalysisError, toAnalysisError, toErrorBody } from "../../../../lib/analysis-errors";
+import type { ComparisonReport } from "../../../../lib/report-comparison";
+import type { ApiErrorResponse } from "../../../../lib/report-types";
+
+/**
+ * Compare 2-5 URLs: POST { "urls": [...], "strategy": "mobile", "mode": "best-effort" }, plus the optional
+ * `gridIntensity`, `model`, `compareModels` and `visitors` CO2 options
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ComparisonReport | ApiErrorResponse>> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const body = await request.json().catch(() => {
+      throw new AnalysisError('INVALID_REQUEST', "Invalid JSON body");
+    });
+    const { urls, strategy, mode, gridIntensity, model, compareModels, visitors } = body || {};
+    const parsed = parseAnalysisRequest({ compare: { urls }, strategy, mode, gridIntensity, model, compareModels, visitors });
+
+    if ('error' in parsed) {
+      throw parsed.error;
+    }
+    if (parsed.request.type !== 'compare') {
+      throw new AnalysisError('INVALID_REQUEST', "Missing URLs to compare");
+    }
+
+    // Stops every page analysis of the comparison when it runs too long
+    const controller = new AbortController();
+    timeoutId = setTimeout(() => controller.abort(), 110000); // 110 seconds max
+
+    const comparator = new UrlComparator({
+      strategy: parsed.request.strategy,
+      mode: parsed.request.mode,
+      co2Options: parsed.request.co2Options,
+      signal: controller.signal,
+    });
+    const report = await comparator.compare(parsed.request.urls).catch(error => {
+      if (controller.signal.aborted) {
+        throw new AnalysisError('TIMEOUT', "Comparison is taking too long. Please try again later or use /api/jobs.", { cause: error });
+      }
+      throw error;
+    });
+    return NextResponse.json(report);
+  } catch (e) {
+    console.error('Compare API Error:', e);
+
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
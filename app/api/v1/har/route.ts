@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateHarReport, HarReport } from "../../../../lib/har-import";
+import { readJsonUpload } from "../../../../lib/json-upload";
+import { parseCO2Params } from "../../../../lib/analysis-request";
+import { toAnalysisError, toErrorBody } from "../../../../lib/analysis-errors";
+import type { ApiErrorResponse } from "../../../../lib/report-types";
+
+/**
+ * Calculate the CO2 of recorded network traffic from a HAR file.
+ * POST the raw HAR as the body, or upload it as the `file` field of a multipart form.
+ * Optional `dataCenter`, `audience` (e.g. `DE:60,FR:40`), `model` and `compareModels` query parameters set how CO2 is calculated.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<HarReport | ApiErrorResponse>> {
+  try {
+    const co2Options = parseCO2Params(request.nextUrl.searchParams);
+    const har = await readJsonUpload(request, 'HAR file');
+
+    return NextResponse.json(await generateHarReport(har, co2Options));
+  } catch (e) {
+    console.error('HAR import API Error:', e);
+
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+}
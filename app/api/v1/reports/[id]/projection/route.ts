@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportRepository } from "../../../../../../lib/report-history";
+import { summarizePage } from "../../../../../../lib/site-report";
+import { EmissionsProjection, parseTraffic, projectEmissions } from "../../../../../../lib/emissions-projection";
+import { AnalysisError, toAnalysisError, toErrorBody } from "../../../../../../lib/analysis-errors";
+import type { ApiErrorResponse } from "../../../../../../lib/report-types";
+
+/**
+ * Project a saved report's monthly and annual emissions from its traffic.
+ * POST `{ "monthlyPageviews": 50000 }`, `{ "pages": [{ "url", "monthlyPageviews" }] }` or `{ "csv": "..." }`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<EmissionsProjection | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => {
+      throw new AnalysisError('INVALID_REQUEST', "Invalid JSON body");
+    });
+    const traffic = parseTraffic(body);
+
+    const stored = await getReportRepository().get(id);
+    if (!stored) {
+      throw new AnalysisError('REPORT_NOT_FOUND', "Report not found");
+    }
+
+    return NextResponse.json(projectEmissions([summarizePage(stored.report.analysisData.url, stored.report)], traffic));
+  } catch (e) {
+    console.error('Projection API Error:', e);
+
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportRepository } from "../../../../../lib/report-history";
+import { AnalysisError, toAnalysisError, toErrorBody } from "../../../../../lib/analysis-errors";
+import type { ApiErrorResponse, StoredReport } from "../../../../../lib/report-types";
+
+/**
+ * Fetch a saved report, including the raw PageSpeed data it was built from
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<StoredReport | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+    const stored = await getReportRepository().get(id);
+
+    if (!stored) {
+      throw new AnalysisError('REPORT_NOT_FOUND', "Report not found");
+    }
+
+    return NextResponse.json(stored);
+  } catch (e) {
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportRepository } from "../../../../../lib/report-history";
+import { toUrlKey } from "../../../../../lib/report-repository";
+import { diffStoredReports, ReportDiff } from "../../../../../lib/report-diff";
+import { AnalysisError, toAnalysisError, toErrorBody } from "../../../../../lib/analysis-errors";
+import type { ApiErrorResponse } from "../../../../../lib/report-types";
+
+/**
+ * Diff two saved reports of the same URL: GET /api/v1/reports/diff?before=<id>&after=<id>
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ReportDiff | ApiErrorResponse>> {
+  try {
+    const { searchParams } = request.nextUrl;
+    const beforeId = searchParams.get('before');
+    const afterId = searchParams.get('after');
+
+    if (!beforeId || !afterId) {
+      throw new AnalysisError('INVALID_REQUEST', "Both 'before' and 'after' report ids are required");
+    }
+
+    const repository = getReportRepository();
+    const [before, after] = await Promise.all([repository.get(beforeId), repository.get(afterId)]);
+
+    if (!before || !after) {
+      throw new AnalysisError('REPORT_NOT_FOUND', `Report not found: ${!before ? beforeId : afterId}`);
+    }
+
+    if (toUrlKey(before.url) !== toUrlKey(after.url)) {
+      throw new AnalysisError('INVALID_REQUEST', "Both reports must be for the same URL", {
+        details: { beforeUrl: before.url, afterUrl: after.url },
+      });
+    }
+
+    return NextResponse.json(diffStoredReports(before, after));
+  } catch (e) {
+    console.error('Report diff API Error:', e);
+
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateReportFromHar } from "../../../../../lib/report-generator";
+import { readJsonUpload } from "../../../../../lib/json-upload";
+import { parseCO2Params } from "../../../../../lib/analysis-request";
+import { toAnalysisError, toErrorBody } from "../../../../../lib/analysis-errors";
+import type { ReportApiResponse } from "../../../../../lib/report-types";
+
+/**
+ * Build a saved report from the traffic of a HAR recording, scored as a load of its first page.
+ * POST the raw HAR as the body, or upload it as the `file` field of a multipart form.
+ * Optional `dataCenter`, `audience` (e.g. `DE:60,FR:40`), `model` and `compareModels` query parameters set how CO2 is calculated.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ReportApiResponse>> {
+  try {
+    const co2Options = parseCO2Params(request.nextUrl.searchParams);
+    const har = await readJsonUpload(request, 'HAR file');
+
+    const report = await generateReportFromHar(har, co2Options);
+    return NextResponse.json(report, {
+      headers: report.id ? { Location: `/api/v1/reports/${report.id}` } : undefined,
+    });
+  } catch (e) {
+    console.error('HAR report API Error:', e);
+
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+}
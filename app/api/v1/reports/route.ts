@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateReport } from "../../../../lib/report-generator";
+import { getReportRepository } from "../../../../lib/report-history";
+import { parseBudget } from "../../../../lib/budget";
+import { parseAnalysisRequest } from "../../../../lib/analysis-request";
+import { AnalysisError, toAnalysisError, toErrorBody } from "../../../../lib/analysis-errors";
+import type { ApiErrorResponse, ReportApiResponse, StoredReportSummary } from "../../../../lib/report-types";
+
+/**
+ * Versioned report API: returns a typed SustainabilityReport directly,
+ * without the chat-completion wrapper used by /api/ws-report.
+ * An optional `budget` in the body overrides the server's BUDGET_PATH file. Optional `gridIntensity`,
+ * `model` and `compareModels` set how CO2 is calculated. An optional `traffic` (monthly pageviews)
+ * adds an annual emissions projection.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ReportApiResponse>> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const body = await request.json().catch(() => {
+      throw new AnalysisError('INVALID_REQUEST', "Invalid JSON body");
+    });
+    const { url, strategy, mode, budget, traffic, gridIntensity, model, compareModels, visitors } = body || {};
+    const parsed = parseAnalysisRequest({ url, strategy, mode, traffic, gridIntensity, model, compareModels, visitors });
+
+    if ('error' in parsed) {
+      throw parsed.error;
+    }
+    if (parsed.request.type !== 'single') {
+      throw new AnalysisError('INVALID_REQUEST', "Missing URL");
+    }
+
+    const parsedBudget = budget !== undefined ? parseBudget(budget) : undefined;
+
+    // Stops the analysis, including in-flight PageSpeed requests, when it runs too long
+    const controller = new AbortController();
+    timeoutId = setTimeout(() => controller.abort(), 110000); // 110 seconds max
+
+    const { co2Options, traffic: parsedTraffic } = parsed.request;
+    const report = await generateReport(parsed.request.url, {
+      ...co2Options,
+      strategy: parsed.request.strategy,
+      mode: parsed.request.mode,
+      budget: parsedBudget,
+      traffic: parsedTraffic,
+      signal: controller.signal,
+    }).catch(error => {
+      if (controller.signal.aborted) {
+        throw new AnalysisError('TIMEOUT', "Analysis is taking too long. Please try again later or use /api/jobs.", { cause: error });
+      }
+      throw error;
+    });
+
+    return NextResponse.json(report, {
+      headers: report.id ? { Location: `/api/v1/reports/${report.id}` } : undefined,
+    });
+  } catch (e) {
+    console.error('Report API Error:', e);
+
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * List saved reports for a URL, newest first: GET /api/v1/reports?url=...&limit=50&offset=0
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<{ reports: StoredReportSummary[] } | ApiErrorResponse>> {
+  try {
+    const { searchParams } = request.nextUrl;
+    const url = searchParams.get('url');
+
+    if (!url) {
+      throw new AnalysisError('INVALID_REQUEST', "Missing URL");
+    }
+
+    const reports = await getReportRepository().list(url, {
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+      offset: parseInt(searchParams.get('offset') || '', 10) || undefined,
+    });
+
+    return NextResponse.json({ reports });
+  } catch (e) {
+    console.error('Report history API Error:', e);
+
+    const error = toAnalysisError(e);
+    return NextResponse.json(toErrorBody(error), { status: error.status });
+  }
+}
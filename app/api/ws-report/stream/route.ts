@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateReport } from "../../../../lib/report-generator";
+import { AnalysisError, toAnalysisError, toErrorBody } from "../../../../lib/analysis-errors";
+import { parseAnalysisParams } from "../../../../lib/analysis-request";
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
+
+// Stops the analysis with a TIMEOUT event before the platform ends the function at maxDuration
+const ANALYSIS_TIMEOUT = 110000;
+
+/**
+ * Server-Sent Events variant of /api/ws-report for a single URL.
+ *
+ * Emits a `stage` event for each pipeline step, then a single `report` event
+ * with the final report, or an `analysis-error` event with an error `code` if the analysis fails.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseAnalysisParams(request.nextUrl.searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json(toErrorBody(parsed.error), { status: parsed.error.status });
+  }
+  const { url, strategy, mode, co2Options } = parsed.request;
+
+  const encoder = new TextEncoder();
+  const analysis = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let timedOut = false;
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        analysis.abort();
+      }, ANALYSIS_TIMEOUT);
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      // Closing the EventSource aborts the request, which cancels the analysis
+      request.signal.addEventListener('abort', () => {
+        analysis.abort();
+        close();
+      }, { once: true });
+
+      try {
+        const report = await generateReport(url, {
+          ...co2Options,
+          strategy,
+          mode,
+          signal: analysis.signal,
+          onStage: stage => send('stage', stage),
+        });
+        send('report', report);
+      } catch (error) {
+        console.error('Streaming analysis failed:', error);
+        const analysisError = timedOut
+          ? new AnalysisError('TIMEOUT', "Analysis is taking too long. Please try again later or use /api/jobs.")
+          : toAnalysisError(error);
+        send('analysis-error', toErrorBody(analysisError));
+      } finally {
+        clearTimeout(timeoutId);
+        close();
+      }
+    },
+    // The response body was cancelled before the analysis finished
+    cancel() {
+      closed = true;
+      analysis.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,122 @@
+import type { ComparisonCategory, ComparisonMetric, ComparisonReport } from '../lib/report-comparison';
+
+const CATEGORY_LABELS: Record<ComparisonCategory, string> = {
+  co2: 'CO2 per Visit',
+  resourceSizes: 'Resource Sizes',
+  coreWebVitals: 'Core Web Vitals',
+  sustainabilityScores: 'Sustainability Scores',
+};
+
+const formatMetricValue = (value: number, unit: ComparisonMetric['unit']) => {
+  switch (unit) {
+    case 'g':
+      return `${value.toFixed(3)}g`;
+    case 'bytes':
+      return `${Math.round(value / 1024)} KB`;
+    case 'ms':
+      return `${Math.round(value)}ms`;
+    case 'score':
+      return `${Math.round(value)}`;
+    default:
+      return value.toFixed(3);
+  }
+};
+
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Comparison of 2-5 sites: category winners, then every metric with its delta against the baseline site
+ */
+export default function ComparisonView({ comparison }: { comparison: ComparisonReport }) {
+  const categories = Object.keys(CATEGORY_LABELS) as ComparisonCategory[];
+  const analyzedUrls = comparison.results.filter(result => result.report).map(result => result.url);
+
+  return (
+    <section className="golden-card p-12" aria-labelledby="comparison-title">
+      <h3 id="comparison-title" className="text-3xl font-semibold text-black mb-4 tracking-tight">Site Comparison</h3>
+      <p className="text-black/60 font-medium mb-12">
+        Differences are relative to the baseline, {comparison.baselineUrl}.
+      </p>
+
+      {/* Category Winners */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 mb-12">
+        {categories.map(category => (
+          <div key={category} className="bg-black/5 rounded-3xl p-8 text-left">
+            <h4 className="font-semibold text-black mb-4 text-lg">{CATEGORY_LABELS[category]}</h4>
+            <p className="text-sm text-black/60 font-medium mb-2">Winner</p>
+            <p className="text-xl font-semibold text-black break-words">
+              {comparison.categoryWinners[category] ? getHostname(comparison.categoryWinners[category]!) : 'Tie'}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {comparison.warnings.length > 0 && (
+        <div className="mb-12 p-6 bg-amber-50 rounded-3xl">
+          <ul className="space-y-2">
+            {comparison.warnings.map((warning, index) => (
+              <li key={index} className="text-amber-800 font-medium">{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Metric Table */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <caption className="sr-only">Metric values and differences from the baseline site</caption>
+          <thead>
+            <tr className="border-b border-black/10">
+              <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Metric</th>
+              {analyzedUrls.map(url => (
+                <th key={url} scope="col" className="py-3 pr-6 font-semibold text-black">
+                  {getHostname(url)}
+                  {url === comparison.baselineUrl && <span className="block text-xs text-black/40 font-medium">baseline</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          {categories.map(category => (
+            <tbody key={category}>
+              <tr>
+                <th colSpan={analyzedUrls.length + 1} scope="colgroup" className="pt-8 pb-2 text-black font-semibold text-lg">
+                  {CATEGORY_LABELS[category]}
+                </th>
+              </tr>
+              {comparison.metrics.filter(metric => metric.category === category).map(metric => (
+                <tr key={metric.key} className="border-b border-black/10">
+                  <th scope="row" className="py-3 pr-6 text-black/60 font-medium">{metric.label}</th>
+                  {metric.values.map(entry => {
+                    const improved = entry.delta !== undefined && (metric.lowerIsBetter ? entry.delta < 0 : entry.delta > 0);
+                    const isWinner = metric.winner === entry.url;
+
+                    return (
+                      <td key={entry.url} className={`py-3 pr-6 ${isWinner ? 'bg-green-50' : ''}`}>
+                        <span className="font-semibold text-black">
+                          {entry.value !== undefined ? formatMetricValue(entry.value, metric.unit) : '—'}
+                        </span>
+                        {isWinner && <span className="sr-only"> (best)</span>}
+                        {entry.url !== comparison.baselineUrl && entry.delta !== undefined && entry.delta !== 0 && (
+                          <span className={`block text-sm font-medium ${improved ? 'text-green-700' : 'text-red-700'}`}>
+                            {entry.delta > 0 ? '+' : '−'}{formatMetricValue(Math.abs(entry.delta), metric.unit)}
+                            {entry.deltaPercentage !== undefined && ` (${entry.deltaPercentage > 0 ? '+' : ''}${entry.deltaPercentage}%)`}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          ))}
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,108 @@
+import type { HarReport } from '../lib/har-import';
+
+const formatBytes = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * CO2 and transfer breakdown of a recorded HAR flow: totals, resource types, pages and third-party domains
+ */
+export default function HarReportView({ report }: { report: HarReport }) {
+  const { pageSpeedData: data } = report;
+  const resourceTypes = [
+    { label: 'Scripts', size: data.scriptResourceSize, count: data.resourceCounts.scripts },
+    { label: 'Images', size: data.imageResourceSize, count: data.resourceCounts.images },
+    { label: 'Stylesheets', size: data.stylesheetResourceSize, count: data.resourceCounts.stylesheets },
+    { label: 'Fonts', size: data.fontResourceSize, count: data.resourceCounts.fonts },
+  ];
+  const otherSize = data.totalResourceSize - resourceTypes.reduce((total, type) => total + type.size, 0);
+
+  return (
+    <section className="golden-card p-12" aria-labelledby="har-report-title">
+      <h3 id="har-report-title" className="text-3xl font-semibold text-black mb-4 tracking-tight">Recorded Traffic</h3>
+      <p className="text-black/60 font-medium mb-12">
+        {report.url} · {report.requestCount} requests{report.creator && ` · recorded with ${report.creator}`}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-12">
+        <div className="bg-black/5 rounded-3xl p-8 text-left">
+          <h4 className="font-semibold text-black mb-4 text-lg">Transferred</h4>
+          <div className="text-3xl font-semibold text-black mb-2">{formatBytes(data.totalResourceSize)}</div>
+          <p className="text-sm text-black/60 font-medium">Cached requests: {report.cachedRequestCount}</p>
+        </div>
+        <div className="bg-black/5 rounded-3xl p-8 text-left">
+          <h4 className="font-semibold text-black mb-4 text-lg">CO2 for the Flow</h4>
+          <div className="text-3xl font-semibold text-black mb-2">{report.co2Data.totalCO2.toFixed(3)}g</div>
+          <p className="text-sm text-black/60 font-medium">
+            Rating {report.co2Data.co2Rating} · {report.hosting.green ? `Green hosting${report.hosting.provider ? ` (${report.hosting.provider})` : ''}` : 'Not green hosted'}
+          </p>
+        </div>
+        <div className="bg-black/5 rounded-3xl p-8 text-left">
+          <h4 className="font-semibold text-black mb-4 text-lg">Third Parties</h4>
+          <div className="text-3xl font-semibold text-black mb-2">{report.thirdParty.percentage}%</div>
+          <p className="text-sm text-black/60 font-medium">
+            {formatBytes(report.thirdParty.transferSize)} from {report.thirdParty.domains.length} domains
+          </p>
+        </div>
+      </div>
+
+      {report.warnings.length > 0 && (
+        <div className="mb-12 p-6 bg-amber-50 rounded-3xl">
+          <ul className="space-y-2">
+            {report.warnings.map((warning, index) => (
+              <li key={index} className="text-amber-800 font-medium">{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+        <div>
+          <h4 className="font-semibold text-black text-xl mb-6">Resource Types</h4>
+          <div className="space-y-4">
+            {resourceTypes.map(type => (
+              <div key={type.label} className="flex justify-between items-center py-2 border-b border-black/10">
+                <span className="text-black/60 font-medium">{type.label} ({type.count})</span>
+                <span className="font-semibold text-black">{formatBytes(type.size)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between items-center py-2 border-b border-black/10">
+              <span className="text-black/60 font-medium">Documents and other</span>
+              <span className="font-semibold text-black">{formatBytes(otherSize)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-semibold text-black text-xl mb-6">Third-Party Domains</h4>
+          {report.thirdParty.domains.length === 0 ? (
+            <p className="text-black/40 font-medium">No third-party requests</p>
+          ) : (
+            <div className="space-y-4">
+              {report.thirdParty.domains.map(domain => (
+                <div key={domain.domain} className="flex justify-between items-center py-2 border-b border-black/10">
+                  <span className="text-black/60 font-medium break-all">{domain.domain} ({domain.requestCount})</span>
+                  <span className="font-semibold text-black whitespace-nowrap">{formatBytes(domain.transferSize)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {report.pages.length > 1 && (
+        <div className="mt-12">
+          <h4 className="font-semibold text-black text-xl mb-6">Pages</h4>
+          <div className="space-y-4">
+            {report.pages.map(page => (
+              <div key={page.id} className="flex justify-between items-center gap-4 py-2 border-b border-black/10">
+                <span className="text-black/60 font-medium break-all">{page.title}</span>
+                <span className="font-semibold text-black whitespace-nowrap">
+                  {formatBytes(page.transferSize)} · {page.co2.toFixed(3)}g
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -2,133 +2,301 @@
 
 import { useState } from 'react';
 import Image from 'next/image';
+import TrendChart from './trend-chart';
+import ComparisonView from './comparison-view';
+import ReportDiffView from './report-diff-view';
+import HarReportView from './har-report-view';
+import ProjectionView from './projection-view';
+import ResourceCO2Chart from './resource-co2-chart';
+import type { ComparisonReport } from '../lib/report-comparison';
+import type { ReportDiff } from '../lib/report-diff';
+import type { HarReport } from '../lib/har-import';
+import type { BudgetRuleResult, BudgetThreshold } from '../lib/budget';
+import type { Co2Model } from '../lib/co2-calculator';
+import type { EmissionsProjection } from '../lib/emissions-projection';
+import type {
+  AnalysisStage,
+  DeviceStrategy,
+  StoredReportSummary,
+  StrategyOption,
+  SustainabilityReport,
+} from '../lib/report-types';
 
-interface SustainabilityReport {
-  overallScore: number;
-  energyEfficiency: number;
-  carbonFootprint: number;
-  resourceOptimization: number;
-  accessibility: number;
-  recommendations: string[];
-  timestamp: string;
-  analysisMethod?: 'pagespeed' | 'basic' | 'simulated';
-  co2Data?: {
-    totalCO2: number;
-    co2PerVisit: number;
-    co2Rating: string;
-    breakdown: {
-      dataCenterCO2: number;
-      networkCO2: number;
-      deviceCO2: number;
-      operationalCO2: number;
-      embodiedCO2: number;
-    };
-    greenHostingImpact: {
-      currentCO2: number;
-      withGreenHosting: number;
-      potentialSavings: number;
-      savingsPercentage: number;
-    };
-    optimizationPotential: {
-      unusedCssSavings: number;
-      unusedJsSavings: number;
-      imageOptimizationSavings: number;
-      totalPotentialSavings: number;
-    };
-  };
-  analysisData: {
-    url: string;
-    loadTime: number;
-    pageSize: number;
-    imageCount: number;
-    scriptCount: number;
-    cssCount: number;
-    fontCount: number;
-    videoCount: number;
-    seoScore: number;
-    performanceScore: number;
-    actualCarbonFootprint: number;
-    greenHosting: boolean;
-    compressionEnabled: boolean;
-    cdnEnabled: boolean;
-    
-    // Enhanced PageSpeed metrics
-    firstContentfulPaint?: number;
-    largestContentfulPaint?: number;
-    firstInputDelay?: number;
-    cumulativeLayoutShift?: number;
-    speedIndex?: number;
-    totalBlockingTime?: number;
-    
-    // Resource breakdown
-    totalResourceSize?: number;
-    imageResourceSize?: number;
-    scriptResourceSize?: number;
-    stylesheetResourceSize?: number;
-    fontResourceSize?: number;
-    
-    // Optimization opportunities
-    unusedCssBytes?: number;
-    unusedJsBytes?: number;
-    unoptimizedImageBytes?: number;
-    
-    // Additional metrics
-    bestPracticesScore?: number;
-    serverResponseTime?: number;
-    renderBlockingResources?: number;
-    domSize?: number;
-  };
-}
+// CO2.js ratings from best to worst
+const CO2_RATINGS = ['A+', 'A', 'B', 'C', 'D', 'E', 'F'];
+
+const CO2_MODEL_LABELS: Record<Co2Model, string> = {
+  'swd-v4': 'Sustainable Web Design v4',
+  'swd-v3': 'Sustainable Web Design v3',
+  '1byte': 'OneByte',
+};
+
+const BUDGET_STATUS_STYLES: Record<BudgetRuleResult['status'], string> = {
+  pass: 'text-green-700',
+  warn: 'text-amber-700',
+  fail: 'text-red-700',
+  skipped: 'text-black/40',
+};
+
+const formatBudgetValue = (value?: BudgetThreshold) => {
+  if (value === undefined) return '—';
+  return typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(3) : String(value);
+};
 
 export default function Home() {
   const [url, setUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [report, setReport] = useState<SustainabilityReport | null>(null);
   const [error, setError] = useState('');
+  const [stages, setStages] = useState<AnalysisStage[]>([]);
+  const [strictMode, setStrictMode] = useState(false);
+  const [strategy, setStrategy] = useState<StrategyOption>('mobile');
+  const [selectedStrategy, setSelectedStrategy] = useState<DeviceStrategy>('mobile');
+  const [history, setHistory] = useState<StoredReportSummary[] | null>(null);
+  const [historyUrl, setHistoryUrl] = useState('');
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [compareUrls, setCompareUrls] = useState<string[]>(['', '']);
+  const [comparison, setComparison] = useState<ComparisonReport | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [diffSelection, setDiffSelection] = useState<{ before?: string; after?: string }>({});
+  const [reportDiff, setReportDiff] = useState<ReportDiff | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [harReport, setHarReport] = useState<HarReport | null>(null);
+  const [monthlyPageviews, setMonthlyPageviews] = useState('');
+  const [projection, setProjection] = useState<EmissionsProjection | null>(null);
+  const [isProjecting, setIsProjecting] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!url) return;
-
-    // Auto-format URL if protocol is missing
-    let formattedUrl = url.trim();
+  // Auto-format URL if protocol is missing, returning null if it still isn't a valid URL
+  const formatUrl = (value: string) => {
+    let formattedUrl = value.trim();
     if (!formattedUrl.startsWith('http://') && !formattedUrl.startsWith('https://')) {
       formattedUrl = `https://${formattedUrl}`;
     }
 
-    // Basic URL validation
     try {
       new URL(formattedUrl);
+      return formattedUrl;
     } catch {
+      return null;
+    }
+  };
+
+  const loadHistory = async (targetUrl: string) => {
+    setIsHistoryLoading(true);
+    setHistoryUrl(targetUrl);
+    setDiffSelection({});
+    setReportDiff(null);
+
+    try {
+      const response = await fetch(`/api/v1/reports?url=${encodeURIComponent(targetUrl)}&limit=100`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load report history');
+      // The API lists newest first; charts read left to right
+      setHistory([...data.reports].reverse());
+    } catch (err) {
+      console.error('Failed to load report history:', err);
+      setHistory([]);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
+  const loadDiff = async () => {
+    if (!diffSelection.before || !diffSelection.after) return;
+    setIsDiffLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/reports/diff?before=${diffSelection.before}&after=${diffSelection.after}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to compare reports');
+      setReportDiff(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsDiffLoading(false);
+    }
+  };
+
+  const handleShowHistory = () => {
+    const formattedUrl = formatUrl(url);
+    if (!formattedUrl) {
       setError('Please enter a valid website URL');
       return;
     }
+    setError('');
+    loadHistory(formattedUrl);
+  };
 
-    setIsLoading(true);
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formattedUrls = compareUrls.filter(value => value.trim()).map(formatUrl);
+    if (formattedUrls.length < 2 || formattedUrls.some(value => !value)) {
+      setError('Please enter at least two valid website URLs to compare');
+      return;
+    }
+
+    setIsComparing(true);
     setError('');
-    setReport(null);
+    setComparison(null);
 
     try {
-      const response = await fetch('/api/ws-report', {
+      const response = await fetch('/api/v1/compare', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ payload: { url: formattedUrl } }),
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: formattedUrls, strategy, mode: strictMode ? 'strict' : 'best-effort' }),
       });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to compare websites');
+      setComparison(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsComparing(false);
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error('Failed to analyze website');
-      }
+  const handleLighthouseImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
 
+    setIsImporting(true);
+    setError('');
+    setReport(null);
+    setProjection(null);
+    setStages([]);
+    setSelectedStrategy('mobile');
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/v1/reports/lighthouse', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to import Lighthouse report');
+      setReport(data);
+      setUrl(data.inputs.url);
+      loadHistory(data.inputs.url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleHarImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setError('');
+    setHarReport(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/v1/har', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to import HAR file');
+      setHarReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Project the saved report's emissions from typed-in monthly pageviews or an uploaded CSV of URL → pageviews
+  const requestProjection = async (traffic: { monthlyPageviews: number } | { csv: string }) => {
+    if (!report?.id) return;
+
+    setIsProjecting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/reports/${report.id}/projection`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(traffic),
+      });
       const data = await response.json();
-      if (data.choices && data.choices[0]?.message?.content) {
-        const reportData = JSON.parse(data.choices[0].message.content);
-        setReport({
-          ...reportData,
-          timestamp: new Date().toLocaleString(),
+      if (!response.ok) throw new Error(data.error || 'Failed to project emissions');
+      setProjection(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsProjecting(false);
+    }
+  };
+
+  const handleProjectionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pageviews = Number(monthlyPageviews.replace(/[,\s]/g, ''));
+    if (!monthlyPageviews.trim() || !Number.isFinite(pageviews) || pageviews < 0) {
+      setError('Please enter the number of pageviews per month');
+      return;
+    }
+    requestProjection({ monthlyPageviews: pageviews });
+  };
+
+  const handleTrafficUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    requestProjection({ csv: await file.text() });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url) return;
+
+    const formattedUrl = formatUrl(url);
+    if (!formattedUrl) {
+      setError('Please enter a valid website URL');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    setReport(null);
+    setProjection(null);
+    setStages([]);
+    setSelectedStrategy('mobile');
+
+    try {
+      // Stream pipeline stages as they happen, then receive the final report
+      const reportData = await new Promise<SustainabilityReport>((resolve, reject) => {
+        const source = new EventSource(
+          `/api/ws-report/stream?url=${encodeURIComponent(formattedUrl)}&strategy=${strategy}&mode=${strictMode ? 'strict' : 'best-effort'}`
+        );
+
+        source.addEventListener('stage', (event) => {
+          const stage: AnalysisStage = JSON.parse((event as MessageEvent).data);
+          setStages(previous => [...previous, stage]);
+        });
+
+        source.addEventListener('report', (event) => {
+          source.close();
+          resolve(JSON.parse((event as MessageEvent).data));
+        });
+
+        source.addEventListener('analysis-error', (event) => {
+          source.close();
+          reject(new Error(JSON.parse((event as MessageEvent).data).error));
         });
-      }
+
+        source.onerror = () => {
+          source.close();
+          reject(new Error('Failed to analyze website'));
+        };
+      });
+
+      setReport(reportData);
+      loadHistory(reportData.inputs.url);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -166,12 +334,24 @@ export default function Home() {
     );
   };
 
+  // Count report fields by where their values came from
+  const getProvenanceCounts = (provenance: SustainabilityReport['provenance']) => {
+    const counts: Record<string, number> = {};
+    Object.values(provenance || {}).forEach(source => {
+      counts[source] = (counts[source] || 0) + 1;
+    });
+    return counts;
+  };
+
   const getScoreCircleColor = (score: number) => {
     if (score >= 75) return 'bg-green-600';
     if (score >= 50) return 'bg-yellow-500';
     return 'bg-red-500';
   };
 
+  // A projection requested for this report replaces the one it was generated with
+  const shownProjection = projection ?? report?.projection;
+
   return (
     <div className="min-h-screen" style={{ backgroundColor: '#F1F7E2' }}>
       <div className="container mx-auto px-12 py-16 max-w-7xl">
@@ -215,6 +395,29 @@ export default function Home() {
               )}
             </div>
             
+            <label className="flex items-center gap-3 text-black/60 font-medium">
+              Device
+              <select
+                value={strategy}
+                onChange={(e) => setStrategy(e.target.value as StrategyOption)}
+                className="px-4 py-2 text-black bg-white border-2 border-black/10 rounded-2xl focus:border-black focus:outline-none"
+              >
+                <option value="mobile">Mobile</option>
+                <option value="desktop">Desktop</option>
+                <option value="both">Mobile and desktop</option>
+              </select>
+            </label>
+
+            <label className="flex items-center gap-3 text-black/60 font-medium cursor-pointer">
+              <input
+                type="checkbox"
+                checked={strictMode}
+                onChange={(e) => setStrictMode(e.target.checked)}
+                className="w-5 h-5 accent-black"
+              />
+              Strict mode: fail instead of using simulated data
+            </label>
+
             <div className="text-left">
               <button
                 type="submit"
@@ -224,11 +427,99 @@ export default function Home() {
               >
                 {isLoading ? 'Analyzing...' : 'Analyze Sustainability'}
               </button>
+              <button
+                type="button"
+                onClick={handleShowHistory}
+                disabled={!url || isHistoryLoading}
+                className="ml-4 px-8 py-4 text-lg font-semibold text-black bg-black/5 rounded-full hover:bg-black/10 golden-transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isHistoryLoading ? 'Loading...' : 'View History'}
+              </button>
               <p className="text-sm text-black/40 mt-4 font-medium">
                 Powered by Google PageSpeed Insights & CO2.js
               </p>
             </div>
           </form>
+
+          {/* Compare Form */}
+          <form onSubmit={handleCompare} className="mt-12 p-8 bg-black/5 rounded-3xl space-y-4" aria-labelledby="compare-form-title">
+            <h2 id="compare-form-title" className="text-xl font-semibold text-black">Compare Sites</h2>
+            <p className="text-black/60 font-medium">
+              Compare up to five URLs, e.g. your site against competitors or staging against production. The first URL is the baseline.
+            </p>
+            {compareUrls.map((compareUrl, index) => (
+              <div key={index} className="flex gap-4">
+                <input
+                  type="text"
+                  value={compareUrl}
+                  onChange={(e) => setCompareUrls(previous => previous.map((value, i) => i === index ? e.target.value : value))}
+                  placeholder={index === 0 ? 'Baseline URL' : `URL ${index + 1}`}
+                  aria-label={index === 0 ? 'Baseline URL' : `URL ${index + 1}`}
+                  className="flex-1 px-6 py-3 font-medium text-black bg-white border-2 border-black/10 rounded-2xl focus:border-black focus:outline-none placeholder:text-black/30"
+                />
+                {compareUrls.length > 2 && (
+                  <button
+                    type="button"
+                    onClick={() => setCompareUrls(previous => previous.filter((_, i) => i !== index))}
+                    className="px-4 text-black/60 font-semibold hover:text-black"
+                    aria-label={`Remove URL ${index + 1}`}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            <div className="flex gap-4">
+              {compareUrls.length < 5 && (
+                <button
+                  type="button"
+                  onClick={() => setCompareUrls(previous => [...previous, ''])}
+                  className="px-6 py-3 font-semibold text-black bg-white rounded-full hover:bg-black/10 golden-transition"
+                >
+                  Add URL
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isComparing}
+                className="golden-button disabled:opacity-50 disabled:cursor-not-allowed px-8 py-3"
+              >
+                {isComparing ? 'Comparing...' : 'Compare'}
+              </button>
+            </div>
+          </form>
+
+          {/* Lighthouse and HAR Import */}
+          <div className="mt-12 p-8 bg-black/5 rounded-3xl space-y-4">
+            <h2 id="lighthouse-import-title" className="text-xl font-semibold text-black">Import Lighthouse Report</h2>
+            <p className="text-black/60 font-medium">
+              Analyze pages PageSpeed Insights can&apos;t reach, such as intranet or staging sites, from a Lighthouse JSON report
+              saved by the <code>lighthouse</code> CLI or Chrome DevTools. No API key needed.
+            </p>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleLighthouseImport}
+              disabled={isImporting}
+              aria-labelledby="lighthouse-import-title"
+              className="block font-medium text-black/60 file:mr-4 file:px-6 file:py-3 file:rounded-full file:border-0 file:bg-white file:font-semibold file:text-black hover:file:bg-black/10 disabled:opacity-50"
+            />
+
+            <h2 id="har-import-title" className="text-xl font-semibold text-black pt-4">Import HAR File</h2>
+            <p className="text-black/60 font-medium">
+              Measure the bytes and CO2 of a real user flow, such as a logged-in dashboard or a checkout, from a HAR file
+              recorded in the browser&apos;s network panel.
+            </p>
+            <input
+              type="file"
+              accept=".har,application/json"
+              onChange={handleHarImport}
+              disabled={isImporting}
+              aria-labelledby="har-import-title"
+              className="block font-medium text-black/60 file:mr-4 file:px-6 file:py-3 file:rounded-full file:border-0 file:bg-white file:font-semibold file:text-black hover:file:bg-black/10 disabled:opacity-50"
+            />
+            {isImporting && <p className="text-black/60 font-medium" role="status">Importing...</p>}
+          </div>
         </div>
 
         {/* Error Display */}
@@ -246,6 +537,40 @@ export default function Home() {
           </div>
         )}
 
+        {/* Analysis Stage Timeline */}
+        {stages.length > 0 && (
+          <section className="mb-20" aria-labelledby="analysis-stages-title" aria-live="polite">
+            <h2 id="analysis-stages-title" className="text-xl font-semibold text-black mb-6">Analysis Progress</h2>
+            <ol className="space-y-3">
+              {stages.map((stage, index) => (
+                <li key={index} className="flex items-start gap-4">
+                  <div className={`w-3 h-3 rounded-full mt-2 flex-shrink-0 ${
+                    stage.stage === 'pagespeed-timeout' || stage.stage === 'pagespeed-failed' || stage.stage === 'basic-analysis-failed' || stage.stage === 'strategy-failed' || stage.stage === 'provider-failed'
+                      ? 'bg-red-500'
+                      : stage.stage === 'fallback-simulated'
+                      ? 'bg-amber-500'
+                      : 'bg-black'
+                  }`} aria-hidden="true"></div>
+                  <div>
+                    <p className="text-black font-medium">{stage.message}</p>
+                    <p className="text-sm text-black/40 font-medium">
+                      {new Date(stage.timestamp).toLocaleTimeString()} · {stage.analysisMethod === 'pagespeed'
+                        ? 'PageSpeed Insights'
+                        : stage.analysisMethod === 'lighthouse'
+                        ? 'Lighthouse Import'
+                        : stage.analysisMethod === 'har'
+                        ? 'HAR Import'
+                        : stage.analysisMethod === 'basic'
+                        ? 'Basic Analysis'
+                        : 'Simulated Analysis'}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
         {/* Sustainability Report */}
         {report && (
           <main className="space-y-16" role="main" aria-labelledby="report-title">
@@ -256,18 +581,25 @@ export default function Home() {
                   Sustainability Report
                 </h2>
                 <p className="text-black/60 text-lg font-medium">
-                  Analyzed on {report.timestamp}
+                  Analyzed on {new Date(report.generatedAt).toLocaleString()}
                 </p>
+                {report.provenance && (
+                  <p className="text-sm text-black/40 font-medium mt-2">
+                    Data sources: {Object.entries(getProvenanceCounts(report.provenance))
+                      .map(([source, count]) => `${count} ${source}`)
+                      .join(' · ')} values
+                  </p>
+                )}
                 {report.analysisMethod && (
                   <div className={`mt-6 inline-flex items-center px-6 py-3 rounded-full text-sm font-semibold ${
-                    report.analysisMethod === 'pagespeed' 
+                    report.analysisMethod === 'pagespeed' || report.analysisMethod === 'lighthouse' || report.analysisMethod === 'har'
                       ? 'bg-black text-white' 
                       : report.analysisMethod === 'basic'
                       ? 'bg-black/10 text-black'
                       : 'bg-amber-100 text-amber-800'
                   }`}>
                     <div className={`w-3 h-3 rounded-full mr-3 ${
-                      report.analysisMethod === 'pagespeed' 
+                      report.analysisMethod === 'pagespeed' || report.analysisMethod === 'lighthouse' || report.analysisMethod === 'har'
                         ? 'bg-white' 
                         : report.analysisMethod === 'basic'
                         ? 'bg-black'
@@ -275,6 +607,10 @@ export default function Home() {
                     }`}></div>
                     {report.analysisMethod === 'pagespeed' 
                       ? 'PageSpeed Insights + CO2.js' 
+                      : report.analysisMethod === 'lighthouse'
+                      ? 'Lighthouse Import + CO2.js'
+                      : report.analysisMethod === 'har'
+                      ? 'HAR Import + CO2.js'
                       : report.analysisMethod === 'basic'
                       ? 'Basic Analysis'
                       : 'Simulated Analysis'}
@@ -410,6 +746,103 @@ export default function Home() {
               </div>
             </section>
 
+            {/* Mobile vs Desktop */}
+            {report.strategies && (
+              <section className="golden-card p-12" aria-labelledby="strategy-comparison-title">
+                <h3 id="strategy-comparison-title" className="text-3xl font-semibold text-black mb-8 tracking-tight">Mobile vs Desktop</h3>
+
+                <div className="inline-flex bg-black/5 rounded-full p-1 mb-12" role="group" aria-label="Device strategy">
+                  {(['mobile', 'desktop'] as DeviceStrategy[]).map(device => (
+                    <button
+                      key={device}
+                      type="button"
+                      onClick={() => setSelectedStrategy(device)}
+                      aria-pressed={selectedStrategy === device}
+                      className={`px-6 py-2 rounded-full text-sm font-semibold golden-transition ${
+                        selectedStrategy === device ? 'bg-black text-white' : 'text-black/60 hover:text-black'
+                      }`}
+                    >
+                      {device === 'mobile' ? 'Mobile' : 'Desktop'}
+                    </button>
+                  ))}
+                </div>
+
+                {(() => {
+                  const selected = report.strategies[selectedStrategy];
+                  if (!selected?.pageSpeedData || !selected.co2Data) {
+                    return (
+                      <div className="p-6 bg-red-50 rounded-3xl mb-12">
+                        <p className="text-red-800 font-semibold">
+                          {selected?.error?.message || 'No data for this strategy'}
+                        </p>
+                      </div>
+                    );
+                  }
+
+                  return (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 mb-12">
+                      <div className="bg-black/5 rounded-3xl p-8 text-left">
+                        <h4 className="font-semibold text-black mb-4 text-lg">Sustainability Score</h4>
+                        <div className="text-4xl font-semibold text-black">{selected.overallScore}</div>
+                      </div>
+                      <div className="bg-black/5 rounded-3xl p-8 text-left">
+                        <h4 className="font-semibold text-black mb-4 text-lg">CO2 per Visit</h4>
+                        <div className="text-4xl font-semibold text-black mb-2">{selected.co2Data.co2PerVisit.toFixed(3)}g</div>
+                        <p className="text-sm text-black/60 font-medium">Rating {selected.co2Data.co2Rating}</p>
+                      </div>
+                      <div className="bg-black/5 rounded-3xl p-8 text-left">
+                        <h4 className="font-semibold text-black mb-4 text-lg">Transferred</h4>
+                        <div className="text-4xl font-semibold text-black mb-2">{Math.round(selected.pageSpeedData.totalResourceSize / 1024)} KB</div>
+                        <p className="text-sm text-black/60 font-medium">{selected.pageSpeedData.resourceCounts.total} requests</p>
+                      </div>
+                      <div className="bg-black/5 rounded-3xl p-8 text-left">
+                        <h4 className="font-semibold text-black mb-4 text-lg">Performance</h4>
+                        <div className="text-4xl font-semibold text-black mb-2">{selected.pageSpeedData.performanceScore}%</div>
+                        <p className="text-sm text-black/60 font-medium">LCP {Math.round(selected.pageSpeedData.largestContentfulPaint)}ms</p>
+                      </div>
+                    </div>
+                  );
+                })()}
+
+                <table className="w-full text-left">
+                  <caption className="sr-only">Mobile and desktop results side by side</caption>
+                  <thead>
+                    <tr className="border-b border-black/10">
+                      <th scope="col" className="py-3 text-black/60 font-medium">Metric</th>
+                      <th scope="col" className="py-3 font-semibold text-black">Mobile</th>
+                      <th scope="col" className="py-3 font-semibold text-black">Desktop</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      { label: 'Transferred', value: (device: DeviceStrategy) => {
+                        const data = report.strategies?.[device]?.pageSpeedData;
+                        return data ? `${Math.round(data.totalResourceSize / 1024)} KB` : '—';
+                      } },
+                      { label: 'Images', value: (device: DeviceStrategy) => {
+                        const data = report.strategies?.[device]?.pageSpeedData;
+                        return data ? `${Math.round(data.imageResourceSize / 1024)} KB` : '—';
+                      } },
+                      { label: 'CO2 per Visit', value: (device: DeviceStrategy) => {
+                        const co2 = report.strategies?.[device]?.co2Data;
+                        return co2 ? `${co2.co2PerVisit.toFixed(3)}g (${co2.co2Rating})` : '—';
+                      } },
+                      { label: 'Performance Score', value: (device: DeviceStrategy) => {
+                        const data = report.strategies?.[device]?.pageSpeedData;
+                        return data ? `${data.performanceScore}%` : '—';
+                      } },
+                    ].map(row => (
+                      <tr key={row.label} className="border-b border-black/10">
+                        <th scope="row" className="py-3 text-black/60 font-medium">{row.label}</th>
+                        <td className="py-3 font-semibold text-black">{row.value('mobile')}</td>
+                        <td className="py-3 font-semibold text-black">{row.value('desktop')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
             {/* CO2 Emissions Analysis */}
             {report.co2Data && (
               <section className="golden-card p-12" aria-labelledby="co2-analysis-title">
@@ -463,6 +896,58 @@ export default function Home() {
                   </div>
                 </div>
 
+                {/* Reports saved before resource attribution existed don't have it */}
+                {report.co2Data.co2ByResourceType && <ResourceCO2Chart attribution={report.co2Data.co2ByResourceType} />}
+
+                {/* CO2 assumptions; reports saved before these options existed don't have them */}
+                {(report.co2Data.model || report.co2Data.gridIntensity || report.co2Data.visitAssumptions) && (
+                  <ul className="text-sm text-black/60 font-medium mb-12 -mt-6 space-y-1">
+                    {report.co2Data.model && <li>Model: {CO2_MODEL_LABELS[report.co2Data.model]}</li>}
+                    {report.co2Data.gridIntensity && (
+                      <li>
+                        Grid intensity: data center {Math.round(report.co2Data.gridIntensity.dataCenter)} g/kWh
+                        {report.co2Data.gridIntensity.dataCenterRegion ? ` (${report.co2Data.gridIntensity.dataCenterRegion})` : ' (global average)'}
+                        {' · '}visitors {Math.round(report.co2Data.gridIntensity.device)} g/kWh
+                        {report.co2Data.gridIntensity.audience
+                          ? ` (${Object.entries(report.co2Data.gridIntensity.audience).map(([country, share]) => `${country} ${share}`).join(', ')})`
+                          : ' (global average)'}
+                      </li>
+                    )}
+                    {report.co2Data.visitAssumptions && (
+                      <li>
+                        Visits: {Math.round(report.co2Data.visitAssumptions.firstVisitPercentage * 100)}% first,
+                        {' '}{Math.round(report.co2Data.visitAssumptions.returnVisitPercentage * 100)}% returning,
+                        {' '}{Math.round(report.co2Data.visitAssumptions.dataReloadRatio * 100)}% of the page reloaded on return
+                        {report.co2Data.visitAssumptions.source === 'analytics'
+                          ? ` (from ${report.co2Data.visitAssumptions.sessions?.toLocaleString()} analytics sessions)`
+                          : report.co2Data.visitAssumptions.source === 'default' ? ' (default assumptions)' : ''}
+                      </li>
+                    )}
+                  </ul>
+                )}
+
+                {report.co2Models && (
+                  <table className="w-full text-left mb-12">
+                    <caption className="sr-only">CO2 per visit with each emissions model</caption>
+                    <thead>
+                      <tr className="border-b border-black/10">
+                        <th scope="col" className="py-3 text-black/60 font-medium">Model</th>
+                        <th scope="col" className="py-3 font-semibold text-black">CO2 per Visit</th>
+                        <th scope="col" className="py-3 font-semibold text-black">Rating</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(report.co2Models).map(([model, result]) => (
+                        <tr key={model} className="border-b border-black/10">
+                          <th scope="row" className="py-3 text-black/60 font-medium">{CO2_MODEL_LABELS[model as Co2Model]}</th>
+                          <td className="py-3 font-semibold text-black">{result.co2PerVisit.toFixed(3)}g</td>
+                          <td className="py-3 font-semibold text-black">{result.co2Rating}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
                 {/* Green Hosting Impact */}
                 {report.co2Data.greenHostingImpact.savingsPercentage > 0 && (
                   <div className="bg-black rounded-3xl p-8 mb-8">
@@ -525,7 +1010,89 @@ export default function Home() {
               </section>
             )}
 
+            {/* Emissions Projection; only saved reports can be projected after the fact */}
+            {(report.id || report.projection) && (
+              <section className="golden-card p-12" aria-labelledby="projection-title">
+                <h3 id="projection-title" className="text-3xl font-semibold text-black mb-4 tracking-tight">Emissions Projection</h3>
+                <p className="text-black/60 font-medium mb-8">
+                  Monthly and annual CO2e of this page at your traffic. Enter the monthly pageviews, or upload a CSV of page
+                  URL → pageviews such as a Google Analytics &quot;Pages and screens&quot; export.
+                </p>
+
+                {report.id && (
+                  <div className="flex flex-col md:flex-row md:items-center gap-6">
+                    <form onSubmit={handleProjectionSubmit} className="flex gap-4">
+                      <label htmlFor="monthly-pageviews" className="sr-only">Pageviews per month</label>
+                      <input
+                        id="monthly-pageviews"
+                        type="text"
+                        inputMode="numeric"
+                        value={monthlyPageviews}
+                        onChange={(e) => setMonthlyPageviews(e.target.value)}
+                        placeholder="Pageviews per month"
+                        className="px-6 py-3 rounded-full bg-black/5 font-medium text-black focus:outline-none focus:ring-2 focus:ring-black"
+                        disabled={isProjecting}
+                      />
+                      <button
+                        type="submit"
+                        disabled={isProjecting || !monthlyPageviews}
+                        className="px-6 py-3 rounded-full bg-black text-white font-semibold hover:bg-black/80 disabled:opacity-50"
+                      >
+                        {isProjecting ? 'Projecting...' : 'Project'}
+                      </button>
+                    </form>
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      onChange={handleTrafficUpload}
+                      disabled={isProjecting}
+                      aria-label="Upload a CSV of monthly pageviews per page"
+                      className="block font-medium text-black/60 file:mr-4 file:px-6 file:py-3 file:rounded-full file:border-0 file:bg-black/5 file:font-semibold file:text-black hover:file:bg-black/10 disabled:opacity-50"
+                    />
+                  </div>
+                )}
+
+                {shownProjection && <ProjectionView projection={shownProjection} />}
+              </section>
+            )}
+
+            {/* Sustainability Budget */}
+            {report.budget && (
+              <section className="golden-card p-12" aria-labelledby="budget-title">
+                <h3 id="budget-title" className="text-3xl font-semibold text-black mb-4 tracking-tight">Sustainability Budget</h3>
+                <p className="text-black/60 font-medium mb-12">
+                  Result: <span className={`font-semibold ${BUDGET_STATUS_STYLES[report.budget.status]}`}>{report.budget.status}</span>
+                </p>
 
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                    <caption className="sr-only">Budget rules that apply to this page</caption>
+                    <thead>
+                      <tr className="border-b border-black/10">
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Metric</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Path</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Actual</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Warn</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Fail</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.budget.rules.map(rule => (
+                        <tr key={rule.metric} className="border-b border-black/10">
+                          <th scope="row" className="py-3 pr-6 font-semibold text-black">{rule.metric}</th>
+                          <td className="py-3 pr-6 text-black/60 font-medium">{rule.path}</td>
+                          <td className="py-3 pr-6 font-semibold text-black">{formatBudgetValue(rule.actual)}</td>
+                          <td className="py-3 pr-6 text-black/60 font-medium">{formatBudgetValue(rule.warn)}</td>
+                          <td className="py-3 pr-6 text-black/60 font-medium">{formatBudgetValue(rule.fail)}</td>
+                          <td className={`py-3 pr-6 font-semibold ${BUDGET_STATUS_STYLES[rule.status]}`}>{rule.status}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            )}
 
             {/* Optimization Features */}
             <section className="golden-card p-12" aria-labelledby="optimization-features-title">
@@ -535,7 +1102,9 @@ export default function Home() {
                 <div className="flex items-center justify-between p-8 bg-black/5 rounded-3xl golden-transition hover:bg-black/10">
                   <div>
                     <h4 className="font-semibold text-black text-lg">Green Hosting</h4>
-                    <p className="text-black/60 font-medium">Renewable energy powered</p>
+                    <p className="text-black/60 font-medium" title={report.hosting?.evidence?.detail}>
+                      {report.hosting?.green && report.hosting.provider ? `Hosted by ${report.hosting.provider}` : 'Renewable energy powered'}
+                    </p>
                   </div>
                   {getStatusIcon(report.analysisData.greenHosting)}
                 </div>
@@ -617,6 +1186,141 @@ export default function Home() {
           </main>
         )}
 
+        {/* Site Comparison */}
+        {comparison && (
+          <div className="mt-16">
+            <ComparisonView comparison={comparison} />
+          </div>
+        )}
+
+        {/* Recorded Traffic */}
+        {harReport && (
+          <div className="mt-16">
+            <HarReportView report={harReport} />
+          </div>
+        )}
+
+        {/* Report History */}
+        {history && (
+          <section className="golden-card p-12 mt-16" aria-labelledby="history-title">
+            <h3 id="history-title" className="text-3xl font-semibold text-black mb-4 tracking-tight">Sustainability Trend</h3>
+            <p className="text-black/60 font-medium mb-12">
+              {history.length} saved {history.length === 1 ? 'report' : 'reports'} for {historyUrl}.
+              Dashed markers show where the analysis method changed, so values on either side aren't directly comparable.
+            </p>
+
+            {history.length === 0 ? (
+              <p className="text-black/40 font-medium">No saved reports for this URL yet. Run an analysis to start its history.</p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <TrendChart
+                  title="Overall Score"
+                  points={history.map(entry => ({ timestamp: entry.createdAt, value: entry.overallScore, analysisMethod: entry.analysisMethod }))}
+                  formatValue={value => `${Math.round(value)}`}
+                  min={0}
+                  max={100}
+                />
+                <TrendChart
+                  title="CO2 per Visit"
+                  points={history.map(entry => ({ timestamp: entry.createdAt, value: entry.co2PerVisit, analysisMethod: entry.analysisMethod }))}
+                  formatValue={value => `${value.toFixed(3)}g`}
+                  min={0}
+                />
+                <TrendChart
+                  title="Total Transfer Size"
+                  points={history.map(entry => ({
+                    timestamp: entry.createdAt,
+                    value: entry.totalResourceSize !== undefined ? entry.totalResourceSize / 1024 : undefined,
+                    analysisMethod: entry.analysisMethod,
+                  }))}
+                  formatValue={value => `${Math.round(value)} KB`}
+                  min={0}
+                />
+                <TrendChart
+                  title="CO2 Rating"
+                  points={history.map(entry => ({
+                    timestamp: entry.createdAt,
+                    // Plot the best rating at the top
+                    value: entry.co2Rating && CO2_RATINGS.includes(entry.co2Rating)
+                      ? CO2_RATINGS.length - 1 - CO2_RATINGS.indexOf(entry.co2Rating)
+                      : undefined,
+                    analysisMethod: entry.analysisMethod,
+                  }))}
+                  formatValue={value => CO2_RATINGS[CO2_RATINGS.length - 1 - Math.round(value)]}
+                  min={0}
+                  max={CO2_RATINGS.length - 1}
+                  ticks={[0, 2, 4, 6]}
+                />
+              </div>
+            )}
+
+            {/* Before/After Selection */}
+            {history.length >= 2 && (
+              <div className="mt-12">
+                <h4 className="font-semibold text-black text-xl mb-2">Before and After</h4>
+                <p className="text-black/60 font-medium mb-6">Pick two reports to see what changed between them, e.g. before and after a deploy.</p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                    <caption className="sr-only">Saved reports</caption>
+                    <thead>
+                      <tr className="border-b border-black/10">
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Date</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Method</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Score</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">CO2 per Visit</th>
+                        <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Before</th>
+                        <th scope="col" className="py-3 text-black/60 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...history].reverse().map(entry => (
+                        <tr key={entry.id} className="border-b border-black/10">
+                          <td className="py-3 pr-6 font-medium text-black">{new Date(entry.createdAt).toLocaleString()}</td>
+                          <td className="py-3 pr-6 font-medium text-black/60">{entry.analysisMethod}</td>
+                          <td className="py-3 pr-6 font-semibold text-black">{entry.overallScore}</td>
+                          <td className="py-3 pr-6 font-semibold text-black">
+                            {entry.co2PerVisit !== undefined ? `${entry.co2PerVisit.toFixed(3)}g` : '—'}
+                          </td>
+                          <td className="py-3 pr-6">
+                            <input
+                              type="radio"
+                              name="diff-before"
+                              checked={diffSelection.before === entry.id}
+                              onChange={() => setDiffSelection(previous => ({ ...previous, before: entry.id }))}
+                              aria-label={`Use report from ${new Date(entry.createdAt).toLocaleString()} as before`}
+                              className="w-5 h-5 accent-black"
+                            />
+                          </td>
+                          <td className="py-3">
+                            <input
+                              type="radio"
+                              name="diff-after"
+                              checked={diffSelection.after === entry.id}
+                              onChange={() => setDiffSelection(previous => ({ ...previous, after: entry.id }))}
+                              aria-label={`Use report from ${new Date(entry.createdAt).toLocaleString()} as after`}
+                              className="w-5 h-5 accent-black"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <button
+                  type="button"
+                  onClick={loadDiff}
+                  disabled={!diffSelection.before || !diffSelection.after || diffSelection.before === diffSelection.after || isDiffLoading}
+                  className="golden-button disabled:opacity-50 disabled:cursor-not-allowed px-8 py-3 mt-6"
+                >
+                  {isDiffLoading ? 'Loading...' : 'Show Changes'}
+                </button>
+
+                {reportDiff && <ReportDiffView diff={reportDiff} />}
+              </div>
+            )}
+          </section>
+        )}
+
         {/* Footer */}
         <footer className="text-left mt-24 pt-16 border-t border-black/10">
           <p className="text-black/40 font-medium text-lg tracking-tight">
@@ -0,0 +1,67 @@
+import type { EmissionsProjection } from '../lib/emissions-projection';
+
+const formatKg = (kg: number) => `${kg.toLocaleString(undefined, { maximumFractionDigits: 1 })} kg`;
+
+/**
+ * Monthly and annual emissions projected from traffic, with the yearly savings of optimizations and green hosting
+ */
+export default function ProjectionView({ projection }: { projection: EmissionsProjection }) {
+  const { total, unmatched } = projection;
+
+  return (
+    <div className="mt-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-8">
+        <div className="bg-black rounded-3xl p-8 text-left">
+          <h4 className="font-semibold text-white/60 mb-4 text-lg">Per Year</h4>
+          <div className="text-4xl font-semibold text-white mb-2">{total.annualTonnes.toLocaleString()} t CO2e</div>
+          <div className="text-sm text-white/60 font-medium">{formatKg(total.annualKg)}</div>
+        </div>
+        <div className="bg-black/5 rounded-3xl p-8 text-left">
+          <h4 className="font-semibold text-black mb-4 text-lg">Per Month</h4>
+          <div className="text-3xl font-semibold text-black mb-2">{formatKg(total.monthlyKg)}</div>
+          <div className="text-sm text-black/60 font-medium">{total.monthlyPageviews.toLocaleString()} pageviews</div>
+        </div>
+        <div className="bg-black/5 rounded-3xl p-8 text-left">
+          <h4 className="font-semibold text-black mb-4 text-lg">Avoidable per Year</h4>
+          <div className="text-sm text-black/60 font-medium space-y-2">
+            <div><span className="text-xl font-semibold text-black">{formatKg(total.annualSavings.optimizationKg)}</span> with optimizations</div>
+            <div><span className="text-xl font-semibold text-black">{formatKg(total.annualSavings.greenHostingKg)}</span> with green hosting</div>
+          </div>
+        </div>
+      </div>
+
+      {(projection.pages.length > 1 || unmatched) && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <caption className="sr-only">Projected emissions per page</caption>
+            <thead>
+              <tr className="border-b border-black/10">
+                <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Page</th>
+                <th scope="col" className="py-3 pr-6 text-black/60 font-medium">Pageviews / Month</th>
+                <th scope="col" className="py-3 pr-6 text-black/60 font-medium">CO2 / Year</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projection.pages.map(page => (
+                <tr key={page.url} className="border-b border-black/10">
+                  <th scope="row" className="py-3 pr-6 font-semibold text-black break-all">{page.url}</th>
+                  <td className="py-3 pr-6 text-black/60 font-medium">{Math.round(page.monthlyPageviews).toLocaleString()}</td>
+                  <td className="py-3 pr-6 font-semibold text-black">{formatKg(page.annualKg)}</td>
+                </tr>
+              ))}
+              {unmatched && (
+                <tr className="border-b border-black/10">
+                  <th scope="row" className="py-3 pr-6 font-medium text-black/60">
+                    {unmatched.pages} other pages (at the average CO2 per visit)
+                  </th>
+                  <td className="py-3 pr-6 text-black/60 font-medium">{Math.round(unmatched.monthlyPageviews).toLocaleString()}</td>
+                  <td className="py-3 pr-6 font-semibold text-black">{formatKg(unmatched.annualKg)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import type { FieldChange, ReportDiff } from '../lib/report-diff';
+
+const CO2_COMPONENT_LABELS: Record<string, string> = {
+  dataCenterCO2: 'Data Center',
+  networkCO2: 'Network',
+  deviceCO2: 'Device',
+  operationalCO2: 'Operational',
+  embodiedCO2: 'Embodied',
+};
+
+// PageSpeed fields where a higher value is an improvement; everything else (sizes, timings, counts) is better lower
+const HIGHER_IS_BETTER = /Score$/;
+
+const formatValue = (field: string, value?: number | string | boolean) => {
+  if (value === undefined) return '—';
+  if (typeof value !== 'number') return String(value);
+  if (field === 'pageSize') return `${Math.round(value)} KB`; // analysisData.pageSize is already in KB
+  if (/(Size|Bytes)$/.test(field)) return `${Math.round(value / 1024)} KB`;
+  if (/co2/i.test(field)) return `${value.toFixed(3)}g`;
+  return Number.isInteger(value) ? `${value}` : value.toFixed(3);
+};
+
+const DeltaBadge = ({ change }: { change: FieldChange }) => {
+  if (change.delta === undefined || change.delta === 0) return null;
+  const improved = HIGHER_IS_BETTER.test(change.field) ? change.delta > 0 : change.delta < 0;
+
+  return (
+    <span className={`text-sm font-semibold ${improved ? 'text-green-700' : 'text-red-700'}`}>
+      {change.delta > 0 ? '+' : '−'}{formatValue(change.field, Math.abs(change.delta))}
+      {change.deltaPercentage !== undefined && ` (${change.deltaPercentage > 0 ? '+' : ''}${change.deltaPercentage}%)`}
+    </span>
+  );
+};
+
+/**
+ * Before/after view of two saved reports: headline changes, CO2 breakdown shift, changed fields and recommendations
+ */
+export default function ReportDiffView({ diff }: { diff: ReportDiff }) {
+  const headline = [diff.summary.totalResourceSize, diff.summary.co2PerVisit, diff.summary.overallScore]
+    .filter((change): change is FieldChange => !!change);
+
+  return (
+    <section className="mt-12" aria-labelledby="report-diff-title">
+      <h4 id="report-diff-title" className="text-2xl font-semibold text-black mb-2 tracking-tight">Changes</h4>
+      <p className="text-black/60 font-medium mb-8">
+        {new Date(diff.before.createdAt).toLocaleString()} → {new Date(diff.after.createdAt).toLocaleString()}
+      </p>
+
+      {diff.warnings.length > 0 && (
+        <div className="mb-8 p-6 bg-amber-50 rounded-3xl">
+          <ul className="space-y-2">
+            {diff.warnings.map((warning, index) => (
+              <li key={index} className="text-amber-800 font-medium">{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-12">
+        {headline.map(change => (
+          <div key={change.field} className="bg-black/5 rounded-3xl p-8 text-left">
+            <h5 className="font-semibold text-black mb-4 text-lg">
+              {change.field === 'totalResourceSize' ? 'Page Weight' : change.field === 'co2PerVisit' ? 'CO2 per Visit' : 'Overall Score'}
+            </h5>
+            <div className="text-2xl font-semibold text-black mb-2">
+              {formatValue(change.field, change.before)} → {formatValue(change.field, change.after)}
+            </div>
+            <DeltaBadge change={change} />
+          </div>
+        ))}
+      </div>
+
+      {diff.co2Breakdown.length > 0 && (
+        <div className="mb-12">
+          <h5 className="font-semibold text-black text-xl mb-6">CO2 Breakdown</h5>
+          <div className="space-y-4">
+            {diff.co2Breakdown.map(component => (
+              <div key={component.component} className="flex justify-between items-center py-2 border-b border-black/10">
+                <span className="text-black/60 font-medium">{CO2_COMPONENT_LABELS[component.component]}</span>
+                <span className="flex items-center gap-4">
+                  <span className="font-semibold text-black">
+                    {component.before.toFixed(3)}g → {component.after.toFixed(3)}g
+                  </span>
+                  <DeltaBadge change={{ field: component.component, ...component }} />
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+        <div>
+          <h5 className="font-semibold text-black text-xl mb-6">
+            Changed {diff.source === 'pageSpeedData' ? 'PageSpeed' : 'Analysis'} Fields
+          </h5>
+          {diff.changedFields.length === 0 ? (
+            <p className="text-black/40 font-medium">No fields changed</p>
+          ) : (
+            <div className="space-y-4">
+              {diff.changedFields.map(change => (
+                <div key={change.field} className="flex justify-between items-center gap-4 py-2 border-b border-black/10">
+                  <span className="text-black/60 font-medium break-all">{change.field}</span>
+                  <span className="flex flex-col items-end">
+                    <span className="font-semibold text-black whitespace-nowrap">
+                      {formatValue(change.field, change.before)} → {formatValue(change.field, change.after)}
+                    </span>
+                    <DeltaBadge change={change} />
+                  </span>
+                </div>
+              ))}
+              <p className="text-sm text-black/40 font-medium">{diff.unchangedFieldCount} fields unchanged</p>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h5 className="font-semibold text-black text-xl mb-6">Recommendations</h5>
+          <div className="space-y-6">
+            {diff.recommendations.resolved.length > 0 && (
+              <div>
+                <p className="text-sm font-semibold text-green-700 mb-2">Resolved</p>
+                <ul className="space-y-2">
+                  {diff.recommendations.resolved.map((text, index) => (
+                    <li key={index} className="text-black/80 font-medium line-through decoration-black/30">{text}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {diff.recommendations.appeared.length > 0 && (
+              <div>
+                <p className="text-sm font-semibold text-red-700 mb-2">New</p>
+                <ul className="space-y-2">
+                  {diff.recommendations.appeared.map((text, index) => (
+                    <li key={index} className="text-black/80 font-medium">{text}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {diff.recommendations.changed.length > 0 && (
+              <div>
+                <p className="text-sm font-semibold text-black/60 mb-2">Updated</p>
+                <ul className="space-y-2">
+                  {diff.recommendations.changed.map((change, index) => (
+                    <li key={index} className="text-black/80 font-medium">{change.after}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {diff.recommendations.resolved.length + diff.recommendations.appeared.length + diff.recommendations.changed.length === 0 && (
+              <p className="text-black/40 font-medium">Recommendations are unchanged</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,92 @@
+import type { CO2ByResourceType, ResourceCO2, ResourceType } from '../lib/co2-calculator';
+
+interface Segment {
+  key: string;
+  label: string;
+  color: string;
+  slice: ResourceCO2;
+}
+
+const WIDTH = 640;
+const BAR_HEIGHT = 36;
+const ROW_GAP = 28;
+const LABEL_WIDTH = 96;
+
+const TYPE_SEGMENTS: Array<{ type: ResourceType; label: string; color: string }> = [
+  { type: 'image', label: 'Images', color: '#0a0a0a' },
+  { type: 'script', label: 'JavaScript', color: '#b45309' },
+  { type: 'stylesheet', label: 'CSS', color: '#f59e0b' },
+  { type: 'font', label: 'Fonts', color: '#65a30d' },
+  { type: 'other', label: 'HTML & other', color: 'rgba(10,10,10,0.25)' },
+];
+
+const formatCo2 = (grams: number) => `${grams.toFixed(3)}g`;
+
+/**
+ * Stacked bars of CO2 per visit by resource type and, when known, by first- vs third-party origin
+ */
+export default function ResourceCO2Chart({ attribution }: { attribution: CO2ByResourceType }) {
+  const rows: Array<{ label: string; segments: Segment[] }> = [
+    {
+      label: 'By type',
+      segments: TYPE_SEGMENTS.map(({ type, label, color }) => ({ key: type, label, color, slice: attribution.byType[type] })),
+    },
+  ];
+  if (attribution.byOrigin) {
+    rows.push({
+      label: 'By origin',
+      segments: [
+        { key: 'firstParty', label: 'First-party', color: '#0f766e', slice: attribution.byOrigin.firstParty },
+        { key: 'thirdParty', label: 'Third-party', color: '#dc2626', slice: attribution.byOrigin.thirdParty },
+      ],
+    });
+  }
+
+  const plotWidth = WIDTH - LABEL_WIDTH;
+  const height = rows.length * BAR_HEIGHT + (rows.length - 1) * ROW_GAP;
+  const largest = TYPE_SEGMENTS.map(({ type, label }) => ({ label, slice: attribution.byType[type] }))
+    .sort((a, b) => b.slice.co2 - a.slice.co2)[0];
+
+  return (
+    <figure className="bg-black/5 rounded-3xl p-8 mb-12">
+      <figcaption className="flex justify-between items-baseline mb-4">
+        <span className="font-semibold text-black text-lg">CO2 by Resource Type</span>
+        {largest.slice.co2 > 0 && (
+          <span className="text-sm text-black/60 font-medium">Largest: {largest.label} ({largest.slice.percentage}%)</span>
+        )}
+      </figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="CO2 per visit split by resource type and origin">
+        {rows.map((row, rowIndex) => {
+          const y = rowIndex * (BAR_HEIGHT + ROW_GAP);
+          let x = LABEL_WIDTH;
+          return (
+            <g key={row.label}>
+              <text x={0} y={y + BAR_HEIGHT / 2 + 4} fontSize="12" fill="rgba(10,10,10,0.6)">{row.label}</text>
+              {row.segments.map(segment => {
+                const width = (segment.slice.percentage / 100) * plotWidth;
+                const rect = (
+                  <rect key={segment.key} x={x} y={y} width={width} height={BAR_HEIGHT} fill={segment.color}>
+                    <title>{`${segment.label}: ${formatCo2(segment.slice.co2)} (${segment.slice.percentage}%), ${Math.round(segment.slice.bytes / 1024)} KB`}</title>
+                  </rect>
+                );
+                x += width;
+                return rect;
+              })}
+            </g>
+          );
+        })}
+      </svg>
+
+      <ul className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3 text-sm font-medium">
+        {rows.flatMap(row => row.segments).map(segment => (
+          <li key={segment.key} className="flex items-center gap-2 text-black/60">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: segment.color }} aria-hidden="true" />
+            <span>
+              {segment.label}: <span className="font-semibold text-black">{formatCo2(segment.slice.co2)}</span> ({segment.slice.percentage}%)
+            </span>
+          </li>
+        ))}
+      </ul>
+    </figure>
+  );
+}
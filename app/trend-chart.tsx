@@ -0,0 +1,135 @@
+import type { AnalysisMethod } from '../lib/report-types';
+
+export interface TrendPoint {
+  timestamp: string; // ISO 8601
+  value?: number; // Missing values leave a gap in the line
+  analysisMethod: AnalysisMethod;
+}
+
+interface TrendChartProps {
+  title: string;
+  points: TrendPoint[]; // Oldest first
+  formatValue: (value: number) => string;
+  min?: number; // Defaults to the lowest value
+  max?: number; // Defaults to the highest value
+  ticks?: number[]; // Y axis values to label (default: min, middle, max)
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 28, right: 16, bottom: 28, left: 64 };
+
+const METHOD_LABELS: Record<AnalysisMethod, string> = {
+  pagespeed: 'PageSpeed',
+  lighthouse: 'Lighthouse',
+  har: 'HAR',
+  basic: 'Basic',
+  simulated: 'Simulated',
+};
+
+/**
+ * Line chart of one report metric over time, with a dashed marker wherever the analysis method changed
+ */
+export default function TrendChart({ title, points, formatValue, min, max, ticks }: TrendChartProps) {
+  const values = points.map(point => point.value).filter((value): value is number => value !== undefined);
+
+  if (values.length === 0) {
+    return (
+      <figure className="bg-black/5 rounded-3xl p-8">
+        <figcaption className="font-semibold text-black mb-4 text-lg">{title}</figcaption>
+        <p className="text-black/40 font-medium">No data for this metric yet</p>
+      </figure>
+    );
+  }
+
+  const low = min ?? Math.min(...values);
+  const high = max ?? Math.max(...values);
+  const range = high - low || 1;
+
+  const times = points.map(point => new Date(point.timestamp).getTime());
+  const firstTime = Math.min(...times);
+  const timeRange = Math.max(...times) - firstTime;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (timeRange ? ((times[index] - firstTime) / timeRange) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - ((value - low) / range) * plotHeight;
+
+  // Break the line wherever a report has no value for this metric
+  let path = '';
+  let drawing = false;
+  points.forEach((point, index) => {
+    if (point.value === undefined) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? 'L' : 'M'}${x(index).toFixed(1)},${y(point.value).toFixed(1)} `;
+    drawing = true;
+  });
+
+  const methodChanges = points
+    .map((point, index) => ({ point, index }))
+    .filter(({ point, index }) => index > 0 && point.analysisMethod !== points[index - 1].analysisMethod);
+
+  const yTicks = ticks ?? [low, low + range / 2, high];
+  const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+  const latest = values[values.length - 1];
+
+  return (
+    <figure className="bg-black/5 rounded-3xl p-8">
+      <figcaption className="flex justify-between items-baseline mb-4">
+        <span className="font-semibold text-black text-lg">{title}</span>
+        <span className="text-sm text-black/60 font-medium">Latest: {formatValue(latest)}</span>
+      </figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${title} over time`}>
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="rgba(10,10,10,0.1)" />
+            <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="12" fill="rgba(10,10,10,0.6)">
+              {formatValue(tick)}
+            </text>
+          </g>
+        ))}
+
+        {methodChanges.map(({ point, index }) => (
+          <g key={`method-${index}`}>
+            <line
+              x1={x(index)}
+              x2={x(index)}
+              y1={PADDING.top - 8}
+              y2={HEIGHT - PADDING.bottom}
+              stroke="#f59e0b"
+              strokeDasharray="4 4"
+            />
+            <text
+              x={x(index) > WIDTH * 0.75 ? x(index) - 4 : x(index) + 4}
+              y={PADDING.top - 12}
+              textAnchor={x(index) > WIDTH * 0.75 ? 'end' : 'start'}
+              fontSize="11"
+              fill="#b45309"
+            >
+              → {METHOD_LABELS[point.analysisMethod]}
+            </text>
+          </g>
+        ))}
+
+        <path d={path} fill="none" stroke="#0a0a0a" strokeWidth="2" />
+
+        {points.map((point, index) => point.value !== undefined && (
+          <circle key={index} cx={x(index)} cy={y(point.value)} r="4" fill={point.analysisMethod === 'pagespeed' || point.analysisMethod === 'lighthouse' || point.analysisMethod === 'har' ? '#0a0a0a' : '#f59e0b'}>
+            <title>{`${formatDate(point.timestamp)}: ${formatValue(point.value)} (${METHOD_LABELS[point.analysisMethod]})`}</title>
+          </circle>
+        ))}
+
+        <text x={PADDING.left} y={HEIGHT - 8} fontSize="12" fill="rgba(10,10,10,0.6)">
+          {formatDate(points[0].timestamp)}
+        </text>
+        {points.length > 1 && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" fontSize="12" fill="rgba(10,10,10,0.6)">
+            {formatDate(points[points.length - 1].timestamp)}
+          </text>
+        )}
+      </svg>
+    </figure>
+  );
+}
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI without a build step
+require('tsx/cjs');
+
+const { main } = require('../cli/index.ts');
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
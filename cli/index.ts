@@ -0,0 +1,358 @@
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { CO2Options, generateReport, generateReportFromHar, generateReportFromLighthouse } from '../lib/report-generator';
+import { AnalysisError, toAnalysisError } from '../lib/analysis-errors';
+import { loadBudgetFile } from '../lib/budget-file';
+import { generateHarReport, HarReport } from '../lib/har-import';
+import { parseGridIntensityParams } from '../lib/grid-intensity';
+import { CO2_MODELS, CO2ByResourceType, CO2CalculationResult, Co2Model, CO2ModelResult, parseCo2Model } from '../lib/co2-calculator';
+import { parseVisitorBehavior, VisitAssumptions } from '../lib/visitor-behavior';
+import { EmissionsProjection, parseTraffic, TrafficInput } from '../lib/emissions-projection';
+import type { BudgetRuleResult, BudgetThreshold } from '../lib/budget';
+import type { AnalysisMode, StrategyOption, SustainabilityReport } from '../lib/report-types';
+
+const USAGE = `Usage: wsc analyze <url> [options]
+       wsc import <lighthouse.json|recording.har> [options]
+       wsc har <recording.har> [--format <text|json>] [CO2 options]
+
+Commands:
+  analyze                           Analyze a live URL
+  import                            Build a report from a saved Lighthouse JSON report or a .har recording, without calling Google
+  har                               Calculate the CO2 of network traffic recorded in a HAR file
+
+Options:
+  --strategy <mobile|desktop|both>  PageSpeed Insights device strategy (default: mobile; analyze only)
+  --mode <strict|best-effort>       'strict' never falls back to simulated data (default: best-effort; analyze only)
+  --format <text|json>              Output format (default: text)
+  --budget <file>                   JSON or YAML budget file (default: BUDGET_PATH); exits with code 1 when a rule fails
+  --data-center <code>              Country (ISO code) or region of the data center, for its grid intensity
+  --audience <mix>                  Visitor countries and shares, e.g. DE:60,FR:30,US:10 (default: global average)
+  --model <swd-v4|swd-v3|1byte>     Emissions model (default: CO2_MODEL, or swd-v4)
+  --compare-models                  Also calculate CO2 with every emissions model
+  --return-visits <share>           Share of visits by returning visitors, 0-1 (default: 0.25)
+  --reload-ratio <ratio>            Share of the page a return visit downloads again, 0-1 (default: 0.02)
+  --analytics <file>                CSV or JSON analytics export to take the returning visitor share from
+  --pageviews <n>                   Monthly pageviews, to project annual emissions (analyze and import only)
+  --traffic <file>                  CSV of page URL → monthly pageviews, to project annual emissions (analyze and import only)
+  --save                            Save the report to the report history
+  --verbose                         Print analysis progress to stderr
+  -h, --help                        Show this help
+
+Exit codes: 0 passed (warnings included), 1 budget failed, 2 analysis or usage error`;
+
+interface CliArgs {
+  command: typeof COMMANDS[number];
+  target: string; // URL to analyze, or the file to import
+  strategy: StrategyOption;
+  mode: AnalysisMode;
+  format: typeof FORMATS[number];
+  budget?: string;
+  co2Options: CO2Options; // --data-center, --audience, --model, --compare-models and the visitor flags
+  traffic?: TrafficInput; // --pageviews or --traffic
+  save: boolean;
+  verbose: boolean;
+}
+
+const COMMANDS = ['analyze', 'import', 'har'] as const;
+const STRATEGIES: StrategyOption[] = ['mobile', 'desktop', 'both'];
+const MODES: AnalysisMode[] = ['strict', 'best-effort'];
+const FORMATS = ['text', 'json'] as const;
+
+export const EXIT_OK = 0;
+export const EXIT_BUDGET_FAILED = 1;
+export const EXIT_ERROR = 2;
+
+/**
+ * Run the CLI and return its exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  let args: CliArgs | 'help';
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(`\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  if (args === 'help') {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  // The analysis pipeline logs its progress to the console, which would corrupt JSON output
+  const { log, warn, error: logError } = console;
+  const quiet = () => {};
+  console.log = args.verbose ? logError : quiet;
+  console.warn = args.verbose ? logError : quiet;
+  console.error = args.verbose ? logError : quiet;
+
+  try {
+    if (args.command === 'har') {
+      const harReport = await generateHarReport(readJsonFile(args.target, 'HAR file'), args.co2Options);
+      log(args.format === 'json' ? JSON.stringify(harReport, null, 2) : formatHarText(harReport));
+      return EXIT_OK;
+    }
+
+    const budget = args.budget ? loadBudgetFile(args.budget) : undefined;
+    const report = args.command === 'import'
+      ? await importReport(args.target, { ...args.co2Options, traffic: args.traffic, persist: args.save, budget })
+      : await generateReport(args.target, { ...args.co2Options, traffic: args.traffic, strategy: args.strategy, mode: args.mode, persist: args.save, budget });
+
+    log(args.format === 'json' ? JSON.stringify(report, null, 2) : formatText(report));
+
+    if (Object.values(report.provenance).includes('simulated')) {
+      logError('Warning: the report contains simulated data. Use --mode strict to fail instead.');
+    }
+
+    return report.budget?.status === 'fail' ? EXIT_BUDGET_FAILED : EXIT_OK;
+  } catch (error) {
+    const analysisError = toAnalysisError(error);
+    logError(`Error (${analysisError.code}): ${analysisError.message}`);
+    return EXIT_ERROR;
+  } finally {
+    console.log = log;
+    console.warn = warn;
+    console.error = logError;
+  }
+}
+
+function parseCliArgs(argv: string[]): CliArgs | 'help' {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      strategy: { type: 'string', default: 'mobile' },
+      mode: { type: 'string', default: 'best-effort' },
+      format: { type: 'string', default: 'text' },
+      budget: { type: 'string' },
+      'data-center': { type: 'string' },
+      audience: { type: 'string' },
+      model: { type: 'string' },
+      'compare-models': { type: 'boolean', default: false },
+      'return-visits': { type: 'string' },
+      'reload-ratio': { type: 'string' },
+      analytics: { type: 'string' },
+      pageviews: { type: 'string' },
+      traffic: { type: 'string' },
+      save: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    return 'help';
+  }
+
+  const [command, target, ...extra] = positionals;
+  if (!COMMANDS.includes(command as CliArgs['command'])) {
+    throw new Error(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+  if (!target || extra.length > 0) {
+    throw new Error(command === 'analyze' ? 'analyze takes exactly one URL' : `${command} takes exactly one file`);
+  }
+  if (!STRATEGIES.includes(values.strategy as StrategyOption)) {
+    throw new Error(`--strategy must be one of ${STRATEGIES.join(', ')}`);
+  }
+  if (!MODES.includes(values.mode as AnalysisMode)) {
+    throw new Error(`--mode must be one of ${MODES.join(', ')}`);
+  }
+  if (!FORMATS.includes(values.format as typeof FORMATS[number])) {
+    throw new Error(`--format must be one of ${FORMATS.join(', ')}`);
+  }
+  if (values.model !== undefined && !CO2_MODELS.includes(values.model as Co2Model)) {
+    throw new Error(`--model must be one of ${CO2_MODELS.join(', ')}`);
+  }
+  const gridIntensity = parseGridIntensityParams(values['data-center'], values.audience);
+  const visitors = values['return-visits'] || values['reload-ratio'] || values.analytics
+    ? parseVisitorBehavior({
+      ...(values['return-visits'] ? { returnVisitPercentage: Number(values['return-visits']) } : {}),
+      ...(values['reload-ratio'] ? { dataReloadRatio: Number(values['reload-ratio']) } : {}),
+      ...(values.analytics ? { analytics: readTextFile(values.analytics, 'analytics export') } : {}),
+    })
+    : undefined;
+  if (values.pageviews && values.traffic) {
+    throw new Error('Use either --pageviews or --traffic, not both');
+  }
+  if ((values.pageviews || values.traffic) && command === 'har') {
+    throw new Error('--pageviews and --traffic only apply to analyze and import');
+  }
+  const traffic = values.pageviews || values.traffic
+    ? parseTraffic(values.traffic ? { csv: readTextFile(values.traffic, 'traffic CSV') } : { monthlyPageviews: Number(values.pageviews) })
+    : undefined;
+
+  return {
+    command: command as CliArgs['command'],
+    target,
+    strategy: values.strategy as StrategyOption,
+    mode: values.mode as AnalysisMode,
+    format: values.format as typeof FORMATS[number],
+    budget: values.budget,
+    co2Options: {
+      ...(gridIntensity ? { gridIntensity } : {}),
+      ...(values.model !== undefined ? { model: parseCo2Model(values.model) } : {}),
+      ...(values['compare-models'] ? { compareModels: true } : {}),
+      ...(visitors ? { visitors } : {}),
+    },
+    traffic,
+    save: values.save,
+    verbose: values.verbose,
+  };
+}
+
+function readTextFile(path: string, description: string): string {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AnalysisError('INVALID_REQUEST', `Could not read ${description} ${path}: ${message}`, { cause: error });
+  }
+}
+
+// Reports from HAR recordings (by their .har extension) have 0 scores, since a HAR has no page load trace
+function importReport(path: string, options: Parameters<typeof generateReportFromLighthouse>[1]): Promise<SustainabilityReport> {
+  return path.toLowerCase().endsWith('.har')
+    ? generateReportFromHar(readJsonFile(path, 'HAR file'), options)
+    : generateReportFromLighthouse(readJsonFile(path, 'Lighthouse report'), options);
+}
+
+function readJsonFile(path: string, description: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AnalysisError('INVALID_REQUEST', `Could not read ${description} ${path}: ${message}`, { cause: error });
+  }
+}
+
+function formatText(report: SustainabilityReport): string {
+  const co2PerVisit = report.co2Data?.co2PerVisit ?? report.analysisData.actualCarbonFootprint;
+  const totalBytes = report.analysisData.totalResourceSize ?? report.analysisData.pageSize * 1024;
+  const lines = [
+    `${report.analysisData.url} (${report.inputs.strategy}, ${report.analysisMethod})`,
+    '',
+    `Overall score:          ${report.overallScore}`,
+    `Energy efficiency:      ${report.energyEfficiency}`,
+    `Carbon footprint:       ${report.carbonFootprint}`,
+    `Resource optimization:  ${report.resourceOptimization}`,
+    `Accessibility:          ${report.accessibility}`,
+    '',
+    `CO2 per visit:          ${co2PerVisit.toFixed(3)}g${report.co2Data ? ` (rating ${report.co2Data.co2Rating})` : ''}`,
+    `Page weight:            ${Math.round(totalBytes / 1024)} KB`,
+    `Green hosting:          ${report.analysisData.greenHosting ? `yes${report.hosting?.provider ? ` (${report.hosting.provider})` : ''}` : 'no'}`,
+  ];
+
+  if (report.co2Data) {
+    lines.push(`CO2 model:              ${report.co2Data.model}`);
+  }
+  if (report.co2Data?.gridIntensity) {
+    lines.push(`Grid intensity:         ${formatGridIntensity(report.co2Data.gridIntensity)}`);
+  }
+  if (report.co2Data?.visitAssumptions) {
+    lines.push(`Visits:                 ${formatVisitAssumptions(report.co2Data.visitAssumptions)}`);
+  }
+  if (report.co2Data?.co2ByResourceType) {
+    lines.push(`CO2 by resource:        ${formatResourceCO2(report.co2Data.co2ByResourceType)}`);
+  }
+  if (report.co2Models) {
+    lines.push('', 'CO2 per visit by model:', ...formatCo2Models(report.co2Models));
+  }
+  if (report.projection) {
+    lines.push('', 'Projected emissions:', ...formatProjection(report.projection));
+  }
+
+  if (report.recommendations.length > 0) {
+    lines.push('', 'Recommendations:', ...report.recommendations.map(text => `  - ${text}`));
+  }
+
+  if (report.budget) {
+    lines.push('', `Budget: ${report.budget.status}`, ...report.budget.rules.map(formatBudgetRule));
+  }
+
+  return lines.join('\n');
+}
+
+function formatHarText(report: HarReport): string {
+  const kb = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+  const lines = [
+    `${report.url} (${report.requestCount} requests, ${report.cachedRequestCount} cached)`,
+    '',
+    `Transferred:            ${kb(report.pageSpeedData.totalResourceSize)}`,
+    `CO2 for the flow:       ${report.co2Data.totalCO2.toFixed(3)}g (rating ${report.co2Data.co2Rating})`,
+    `Third parties:          ${kb(report.thirdParty.transferSize)} (${report.thirdParty.percentage}%)`,
+    `Green hosting:          ${report.hosting.green ? `yes${report.hosting.provider ? ` (${report.hosting.provider})` : ''}` : 'no'}`,
+    `CO2 model:              ${report.co2Data.model}`,
+  ];
+
+  if (report.co2Data.gridIntensity) {
+    lines.push(`Grid intensity:         ${formatGridIntensity(report.co2Data.gridIntensity)}`);
+  }
+  lines.push(`Visits:                 ${formatVisitAssumptions(report.co2Data.visitAssumptions)}`);
+  lines.push(`CO2 by resource:        ${formatResourceCO2(report.co2Data.co2ByResourceType)}`);
+  if (report.co2Models) {
+    lines.push('', 'CO2 for the flow by model:', ...formatCo2Models(report.co2Models, 'totalCO2'));
+  }
+
+  if (report.thirdParty.domains.length > 0) {
+    lines.push('', 'Third-party domains:', ...report.thirdParty.domains.map(domain =>
+      `  - ${domain.domain}: ${kb(domain.transferSize)} in ${domain.requestCount} requests`));
+  }
+  if (report.pages.length > 1) {
+    lines.push('', 'Pages:', ...report.pages.map(page => `  - ${page.title}: ${kb(page.transferSize)}, ${page.co2.toFixed(3)}g`));
+  }
+  if (report.warnings.length > 0) {
+    lines.push('', ...report.warnings.map(warning => `Warning: ${warning}`));
+  }
+
+  return lines.join('\n');
+}
+
+function formatGridIntensity(grid: NonNullable<CO2CalculationResult['gridIntensity']>): string {
+  const audience = grid.audience ? ` (${Object.entries(grid.audience).map(([country, share]) => `${country} ${share}`).join(', ')})` : '';
+  return `data center ${Math.round(grid.dataCenter)} g/kWh${grid.dataCenterRegion ? ` (${grid.dataCenterRegion})` : ''}, `
+    + `visitors ${Math.round(grid.device)} g/kWh${audience}`;
+}
+
+function formatVisitAssumptions(visits: VisitAssumptions): string {
+  const percent = (share: number) => `${Math.round(share * 1000) / 10}%`;
+  const source = visits.source === 'analytics' ? `from ${visits.sessions} analytics sessions` : visits.source;
+  return `${percent(visits.firstVisitPercentage)} first, ${percent(visits.returnVisitPercentage)} returning, `
+    + `${percent(visits.dataReloadRatio)} reloaded on return (${source})`;
+}
+
+function formatResourceCO2(attribution: CO2ByResourceType): string {
+  const { byType, byOrigin } = attribution;
+  const types = [['images', byType.image], ['JavaScript', byType.script], ['CSS', byType.stylesheet], ['fonts', byType.font], ['other', byType.other]] as const;
+  const parts = types.map(([label, slice]) => `${label} ${slice.percentage}%`);
+  return byOrigin ? `${parts.join(', ')}; third-party ${byOrigin.thirdParty.percentage}%` : parts.join(', ');
+}
+
+function formatCo2Models(models: Record<Co2Model, CO2ModelResult>, figure: 'co2PerVisit' | 'totalCO2' = 'co2PerVisit'): string[] {
+  return Object.entries(models).map(([model, result]) => `  - ${model}: ${result[figure].toFixed(3)}g (rating ${result.co2Rating})`);
+}
+
+function formatProjection(projection: EmissionsProjection): string[] {
+  const { total, unmatched } = projection;
+  const kg = (value: number) => `${value.toLocaleString('en-US', { maximumFractionDigits: 1 })} kg`;
+  const lines = [
+    `  Monthly:  ${kg(total.monthlyKg)} CO2e from ${total.monthlyPageviews.toLocaleString('en-US')} pageviews`,
+    `  Annual:   ${kg(total.annualKg)} CO2e (${total.annualTonnes} t)`,
+    `  Savings:  ${kg(total.annualSavings.optimizationKg)}/year from optimizations, ${kg(total.annualSavings.greenHostingKg)}/year from green hosting`,
+  ];
+  if (unmatched) {
+    lines.push(`  Includes ${unmatched.monthlyPageviews.toLocaleString('en-US')} monthly pageviews of ${unmatched.pages} other pages, at this page's CO2 per visit`);
+  }
+  return lines;
+}
+
+function formatBudgetRule(rule: BudgetRuleResult): string {
+  const format = (value?: BudgetThreshold) =>
+    typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(3) : String(value ?? '—');
+  const thresholds = [
+    rule.warn !== undefined ? `warn ${format(rule.warn)}` : '',
+    rule.fail !== undefined ? `fail ${format(rule.fail)}` : '',
+  ].filter(Boolean).join(', ');
+
+  return `  ${rule.status.toUpperCase().padEnd(7)} ${rule.metric} ${format(rule.actual)} (${thresholds}; ${rule.path})`;
+}
@@ -0,0 +1,86 @@
+export type AnalysisErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_URL'
+  | 'TARGET_UNREACHABLE'
+  | 'BLOCKED_BY_ROBOTS'
+  | 'PAGESPEED_KEY_MISSING'
+  | 'PAGESPEED_KEY_INVALID'
+  | 'PAGESPEED_QUOTA_EXCEEDED'
+  | 'PAGESPEED_ERROR'
+  | 'SITEMAP_UNREADABLE'
+  | 'TIMEOUT'
+  | 'ANALYSIS_CANCELLED'
+  | 'REPORT_GENERATION_FAILED'
+  | 'JOB_NOT_FOUND'
+  | 'JOB_NOT_CANCELLABLE'
+  | 'REPORT_NOT_FOUND'
+  | 'STORAGE_ERROR'
+  | 'CONFIGURATION_ERROR'
+  | 'INTERNAL_ERROR';
+
+/**
+ * HTTP status and retry guidance for each error code. `retryable` tells API clients whether
+ * the same request may succeed later (quota, timeouts) or needs to change (bad URL, robots).
+ */
+const ERROR_DEFINITIONS: Record<AnalysisErrorCode, { status: number; retryable: boolean }> = {
+  INVALID_REQUEST: { status: 400, retryable: false },
+  INVALID_URL: { status: 400, retryable: false },
+  TARGET_UNREACHABLE: { status: 422, retryable: false },
+  BLOCKED_BY_ROBOTS: { status: 422, retryable: false },
+  PAGESPEED_KEY_MISSING: { status: 503, retryable: false },
+  PAGESPEED_KEY_INVALID: { status: 503, retryable: false },
+  PAGESPEED_QUOTA_EXCEEDED: { status: 429, retryable: true },
+  PAGESPEED_ERROR: { status: 502, retryable: true },
+  SITEMAP_UNREADABLE: { status: 422, retryable: false },
+  TIMEOUT: { status: 504, retryable: true },
+  ANALYSIS_CANCELLED: { status: 409, retryable: false },
+  REPORT_GENERATION_FAILED: { status: 500, retryable: true },
+  JOB_NOT_FOUND: { status: 404, retryable: false },
+  JOB_NOT_CANCELLABLE: { status: 409, retryable: false },
+  REPORT_NOT_FOUND: { status: 404, retryable: false },
+  STORAGE_ERROR: { status: 500, retryable: true },
+  CONFIGURATION_ERROR: { status: 500, retryable: false },
+  INTERNAL_ERROR: { status: 500, retryable: true },
+};
+
+export class AnalysisError extends Error {
+  readonly code: AnalysisErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: AnalysisErrorCode, message: string, options: { cause?: unknown; details?: Record<string, unknown> } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.status = ERROR_DEFINITIONS[code].status;
+    this.retryable = ERROR_DEFINITIONS[code].retryable;
+    this.details = options.details;
+  }
+}
+
+export function isAnalysisError(error: unknown, code?: AnalysisErrorCode): error is AnalysisError {
+  return error instanceof AnalysisError && (code === undefined || error.code === code);
+}
+
+/**
+ * Normalize any thrown value into an AnalysisError, keeping codes that are already set
+ */
+export function toAnalysisError(error: unknown, fallbackCode: AnalysisErrorCode = 'INTERNAL_ERROR'): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new AnalysisError(fallbackCode, message || 'An unexpected error occurred', { cause: error });
+}
+
+/**
+ * JSON body for an error response. `error` stays a human-readable string for older clients.
+ */
+export function toErrorBody(error: AnalysisError) {
+  return {
+    error: error.code === 'INTERNAL_ERROR' ? 'An unexpected error occurred. Please try again later.' : error.message,
+    code: error.code,
+    retryable: error.retryable,
+    ...(error.details ? { details: error.details } : {}),
+  };
+}
@@ -0,0 +1,46 @@
+import { Job, JobQueue } from './job-queue';
+import { AnalysisRequest, runAnalysisRequest } from './analysis-request';
+
+type AnalysisResult = Awaited<ReturnType<typeof runAnalysisRequest>>;
+export type AnalysisJob = Job<AnalysisRequest, AnalysisResult>;
+
+// Keep a single queue per server process, including across dev-mode module reloads
+const globalForJobs = globalThis as unknown as {
+  analysisJobQueue?: JobQueue<AnalysisRequest, AnalysisResult>;
+};
+
+export function getAnalysisJobQueue(): JobQueue<AnalysisRequest, AnalysisResult> {
+  if (!globalForJobs.analysisJobQueue) {
+    const concurrency = parseInt(process.env.ANALYSIS_JOB_CONCURRENCY || '', 10) || 2;
+
+    globalForJobs.analysisJobQueue = new JobQueue<AnalysisRequest, AnalysisResult>(
+      (request, { signal, reportProgress }) => runAnalysisRequest(request, { signal, onProgress: reportProgress }),
+      concurrency
+    );
+  }
+
+  return globalForJobs.analysisJobQueue;
+}
+
+/**
+ * Public JSON view of a job - the raw input is reduced to its type and target
+ */
+export function serializeJob(job: AnalysisJob) {
+  const { input } = job;
+
+  return {
+    id: job.id,
+    type: input.type,
+    target: input.type === 'sitemap'
+      ? input.sitemap.url || 'uploaded sitemap'
+      : input.type === 'compare' ? input.urls.join(', ') : input.url,
+    status: job.status,
+    progress: job.progress,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    error: job.error,
+    errorCode: job.errorCode,
+    result: job.result,
+  };
+}
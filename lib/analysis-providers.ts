@@ -0,0 +1,314 @@
+import { WebsiteAnalyzer, WebsiteAnalysis } from './website-analyzer';
+import { PageSpeedAPI, PageSpeedData } from './pagespeed-api';
+import { runLocalLighthouse } from './local-lighthouse';
+import { AnalysisError, isAnalysisError, toAnalysisError } from './analysis-errors';
+import type { AnalysisMethod, AnalysisMode, AnalysisStageId, DeviceStrategy } from './report-types';
+
+/**
+ * Analysis data in one of the two shapes the report generator scores: PageSpeed-shaped data
+ * (PageSpeed Insights, Lighthouse, HAR) or the metrics of a direct page fetch
+ */
+export type ProviderData = { pageSpeedData: PageSpeedData } | { websiteData: WebsiteAnalysis };
+
+export interface ProviderContext {
+  url: string;
+  strategy: DeviceStrategy;
+  signal?: AbortSignal;
+  analyzer?: WebsiteAnalyzer; // Direct page fetches; shared by the pages of a crawl
+  emit: (stage: AnalysisStageId, message: string) => void; // Progress events, tagged with the provider's method
+}
+
+/**
+ * A source of analysis data for a URL. Providers run in order until one returns data;
+ * throwing (or returning null when it has nothing for the URL) moves on to the next one.
+ */
+export interface AnalysisProvider {
+  id: string; // Name used in ANALYSIS_PROVIDERS
+  analysisMethod: AnalysisMethod; // 'simulated' providers are skipped in strict mode
+  analyze(context: ProviderContext): Promise<ProviderData | null>;
+}
+
+export interface ProviderChainResult {
+  provider: AnalysisProvider;
+  data: ProviderData;
+  errors: Map<string, AnalysisError>; // Failures of the providers tried before it, by provider id
+}
+
+export const DEFAULT_PROVIDER_CHAIN = ['pagespeed', 'simulated-pagespeed', 'direct-fetch', 'simulated'];
+
+const pageSpeedProvider: AnalysisProvider = {
+  id: 'pagespeed',
+  analysisMethod: 'pagespeed',
+  async analyze({ url, strategy, signal, emit }) {
+    console.log('Attempting PageSpeed Insights analysis for:', url);
+    emit('pagespeed-started', 'Requesting Google PageSpeed Insights analysis');
+    try {
+      const pageSpeedData = await new PageSpeedAPI().analyzeUrl(url, strategy, signal);
+      emit('pagespeed-completed', 'PageSpeed Insights analysis received');
+      return { pageSpeedData };
+    } catch (error) {
+      if (isAnalysisError(error, 'TIMEOUT')) {
+        emit('pagespeed-timeout', 'PageSpeed Insights timed out, switching to fallback analysis');
+      } else {
+        emit('pagespeed-failed', `PageSpeed Insights failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      throw toAnalysisError(error, 'PAGESPEED_ERROR');
+    }
+  },
+};
+
+// PageSpeed-shaped data generated from a hash of the URL. Nothing is fetched or measured, so strict mode skips it.
+const seededPageSpeedProvider: AnalysisProvider = {
+  id: 'simulated-pagespeed',
+  analysisMethod: 'simulated',
+  async analyze({ url, emit }) {
+    const pageSpeedData = await new PageSpeedAPI().analyzeUrlFallback(url);
+    emit('fallback-simulated', 'Using simulated PageSpeed data');
+    return { pageSpeedData };
+  },
+};
+
+// Not in the default chain: it needs the Lighthouse CLI and Chrome installed on the server
+const localLighthouseProvider: AnalysisProvider = {
+  id: 'local-lighthouse',
+  analysisMethod: 'lighthouse',
+  async analyze({ url, strategy, signal, emit }) {
+    emit('provider-started', 'Running Lighthouse locally in headless Chrome');
+    try {
+      const { pageSpeedData } = await runLocalLighthouse(url, strategy, signal);
+      emit('provider-completed', 'Local Lighthouse run completed');
+      return { pageSpeedData };
+    } catch (error) {
+      emit('provider-failed', `Local Lighthouse run failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  },
+};
+
+const directFetchProvider: AnalysisProvider = {
+  id: 'direct-fetch',
+  analysisMethod: 'basic',
+  async analyze({ url, signal, analyzer = new WebsiteAnalyzer(), emit }) {
+    emit('basic-analysis-started', 'Fetching the page directly for basic analysis');
+    try {
+      const websiteData = await analyzer.analyzeWebsite(url, signal);
+      emit('basic-analysis-completed', 'Basic website analysis completed');
+      return { websiteData };
+    } catch (error) {
+      emit('basic-analysis-failed', `Basic analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toAnalysisError(error, 'TARGET_UNREACHABLE');
+    }
+  },
+};
+
+const simulatedProvider: AnalysisProvider = {
+  id: 'simulated',
+  analysisMethod: 'simulated',
+  async analyze({ url, emit }) {
+    const websiteData = generateSimulatedAnalysis(url);
+    emit('fallback-simulated', 'Using simulated website data');
+    return { websiteData };
+  },
+};
+
+// Shared per server process, so providers registered at startup are visible to every route
+const globalForProviders = globalThis as unknown as {
+  analysisProviders?: Map<string, AnalysisProvider>;
+};
+
+function getRegistry(): Map<string, AnalysisProvider> {
+  if (!globalForProviders.analysisProviders) {
+    globalForProviders.analysisProviders = new Map(
+      [pageSpeedProvider, seededPageSpeedProvider, localLighthouseProvider, directFetchProvider, simulatedProvider].map(provider => [provider.id, provider])
+    );
+  }
+
+  return globalForProviders.analysisProviders;
+}
+
+/**
+ * Make a provider available to ANALYSIS_PROVIDERS, or replace a built-in one with the same id
+ */
+export function registerAnalysisProvider(provider: AnalysisProvider): void {
+  getRegistry().set(provider.id, provider);
+}
+
+/**
+ * The provider chain set by ANALYSIS_PROVIDERS (comma-separated ids), or the default chain.
+ * An unknown id or an empty list is a server problem, so it fails with CONFIGURATION_ERROR.
+ */
+export function getConfiguredProviders(): AnalysisProvider[] {
+  const ids = process.env.ANALYSIS_PROVIDERS
+    ? process.env.ANALYSIS_PROVIDERS.split(',').map(id => id.trim()).filter(Boolean)
+    : DEFAULT_PROVIDER_CHAIN;
+  const registry = getRegistry();
+
+  if (ids.length === 0) {
+    throw new AnalysisError('CONFIGURATION_ERROR', `ANALYSIS_PROVIDERS lists no providers. Registered: ${[...registry.keys()].join(', ')}`);
+  }
+
+  return ids.map(id => {
+    const provider = registry.get(id);
+    if (!provider) {
+      throw new AnalysisError('CONFIGURATION_ERROR', `Unknown analysis provider "${id}" in ANALYSIS_PROVIDERS. Registered: ${[...registry.keys()].join(', ')}`);
+    }
+    return provider;
+  });
+}
+
+/**
+ * Run providers in order until one returns data. Strict mode skips simulated providers
+ * and fails with the most relevant provider error when none of the others has data.
+ */
+export async function runProviderChain(
+  providers: AnalysisProvider[],
+  options: {
+    url: string;
+    strategy: DeviceStrategy;
+    mode: AnalysisMode;
+    signal?: AbortSignal;
+    analyzer?: WebsiteAnalyzer;
+    emit: (stage: AnalysisStageId, message: string, analysisMethod: AnalysisMethod) => void;
+  }
+): Promise<ProviderChainResult> {
+  const { url, strategy, mode, signal, analyzer } = options;
+  const errors = new Map<string, AnalysisError>();
+
+  for (const provider of providers) {
+    if (mode === 'strict' && provider.analysisMethod === 'simulated') continue;
+
+    try {
+      const data = await provider.analyze({
+        url,
+        strategy,
+        signal,
+        analyzer,
+        emit: (stage, message) => options.emit(stage, message, provider.analysisMethod),
+      });
+      if (data) {
+        console.log(`Analysis provider ${provider.id} succeeded`);
+        return { provider, data, errors };
+      }
+    } catch (error) {
+      throwIfCancelled(signal);
+      console.warn(`Analysis provider ${provider.id} failed:`, error);
+      errors.set(provider.id, toAnalysisError(error));
+    }
+  }
+
+  if (mode === 'strict') {
+    throw strictModeError(errors);
+  }
+
+  console.error('All analysis providers failed:', [...errors.keys()].join(', ') || 'none returned data');
+  throw new AnalysisError('TARGET_UNREACHABLE', "Unable to analyze website. Please try a different URL or check if the website is accessible.", {
+    cause: [...errors.values()].pop(),
+  });
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+  }
+}
+
+/**
+ * Pick the error to report when strict mode has no real data. Problems with the target site
+ * (from any provider) win; otherwise the first failure, e.g. a missing PageSpeed key.
+ */
+function strictModeError(errors: Map<string, AnalysisError>): AnalysisError {
+  const failures = [...errors.values()];
+  const cause = failures.find(error => error.code === 'TARGET_UNREACHABLE' || error.code === 'BLOCKED_BY_ROBOTS')
+    ?? failures[0]
+    ?? new AnalysisError('TARGET_UNREACHABLE', 'No analysis provider returned data');
+  const providerErrors = Object.fromEntries([...errors].map(([id, error]) => [id, error.code]));
+
+  return new AnalysisError(
+    cause.code,
+    `Strict mode: no measured data available. ${cause.message}`,
+    {
+      cause,
+      details: { ...cause.details, mode: 'strict', providerErrors },
+    }
+  );
+}
+
+function generateSimulatedAnalysis(url: string): WebsiteAnalysis {
+  // Generate consistent simulated data based on URL hash for deterministic results
+  const seed = generateSeedFromUrl(url);
+  
+  // Generate realistic simulated data based on common website patterns (deterministic)
+  const loadTime = seededRandom(seed, 0) * 2000 + 500; // 500ms - 2.5s
+  const pageSize = seededRandom(seed, 1) * 1500 + 300; // 300KB - 1.8MB
+  const imageCount = Math.floor(seededRandom(seed, 2) * 15) + 3; // 3-17 images
+  const scriptCount = Math.floor(seededRandom(seed, 3) * 12) + 2; // 2-13 scripts
+  const cssCount = Math.floor(seededRandom(seed, 4) * 6) + 1; // 1-6 CSS files
+  const fontCount = Math.floor(seededRandom(seed, 5) * 4) + 1; // 1-4 fonts
+  const videoCount = Math.floor(seededRandom(seed, 6) * 2); // 0-1 videos
+  
+  // Generate realistic scores (deterministic)
+  const accessibilityScore = Math.max(60, Math.min(95, 80 + (seededRandom(seed, 7) - 0.5) * 30));
+  const seoScore = Math.max(65, Math.min(95, 75 + (seededRandom(seed, 8) - 0.5) * 20));
+  const performanceScore = Math.max(60, Math.min(95, 75 + (seededRandom(seed, 9) - 0.5) * 30));
+  
+  // Check for optimization features (deterministic based on URL)
+  const greenHosting = seededRandom(seed, 10) > 0.7; // 30% chance, but consistent
+  const compressionEnabled = seededRandom(seed, 11) > 0.4; // 60% chance, but consistent
+  const cdnEnabled = seededRandom(seed, 12) > 0.5; // 50% chance, but consistent
+
+  // Split the page weight across resource types (deterministic)
+  const totalResourceSize = Math.round(pageSize * 1024);
+  const imageResourceSize = Math.round(totalResourceSize * (0.3 + seededRandom(seed, 13) * 0.3)); // 30-60% of total
+  const scriptResourceSize = Math.round(totalResourceSize * (0.1 + seededRandom(seed, 14) * 0.2)); // 10-30% of total
+  const stylesheetResourceSize = Math.round(totalResourceSize * (0.03 + seededRandom(seed, 15) * 0.05)); // 3-8% of total
+  const fontResourceSize = Math.round(totalResourceSize * (0.02 + seededRandom(seed, 16) * 0.05)); // 2-7% of total
+  const thirdPartyResourceSize = Math.round(totalResourceSize * (0.1 + seededRandom(seed, 17) * 0.3)); // 10-40% of total
+
+  return {
+    url,
+    loadTime: Math.round(loadTime),
+    pageSize: Math.round(pageSize * 100) / 100,
+    totalResourceSize,
+    imageResourceSize,
+    scriptResourceSize,
+    stylesheetResourceSize,
+    fontResourceSize,
+    thirdPartyResourceSize,
+    unmeasuredResources: 0,
+    imageCount,
+    scriptCount,
+    cssCount,
+    fontCount,
+    videoCount,
+    accessibilityScore: Math.round(accessibilityScore),
+    seoScore: Math.round(seoScore),
+    performanceScore: Math.round(performanceScore),
+    greenHosting,
+    compressionEnabled,
+    cdnEnabled,
+  };
+}
+
+/**
+ * Generate a consistent seed from URL for deterministic "random" values
+ */
+function generateSeedFromUrl(url: string): number {
+  let hash = 0;
+  const normalizedUrl = url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '');
+  
+  for (let i = 0; i < normalizedUrl.length; i++) {
+    const char = normalizedUrl.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  
+  return Math.abs(hash);
+}
+
+/**
+ * Generate seeded random number (0-1) based on URL and index
+ */
+function seededRandom(seed: number, index: number): number {
+  const x = Math.sin(seed + index * 1000) * 10000;
+  return x - Math.floor(x);
+}
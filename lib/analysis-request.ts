@@ -0,0 +1,279 @@
+import { CO2Options, generateReport } from './report-generator';
+import type { AnalysisMode, StrategyOption, SustainabilityReport } from './report-types';
+import { SiteCrawler } from './site-crawler';
+import { BatchAnalyzer } from './batch-analyzer';
+import { parseSitemapSampling, SitemapParser, SitemapSampling, sampleUrls } from './sitemap-parser';
+import type { SiteReport } from './site-report';
+import { UrlComparator, MAX_COMPARE_URLS, MIN_COMPARE_URLS } from './url-comparator';
+import type { ComparisonReport } from './report-comparison';
+import { AnalysisError, toAnalysisError } from './analysis-errors';
+import { parseGridIntensity, parseGridIntensityParams } from './grid-intensity';
+import { checkGridIntensitySupported, getConfiguredCo2Model, parseCo2Model } from './co2-calculator';
+import { parseVisitorBehavior, parseVisitorParams } from './visitor-behavior';
+import { parseTraffic, projectEmissions, TrafficInput } from './emissions-projection';
+
+export type AnalysisRequest = { mode?: AnalysisMode; co2Options?: CO2Options; traffic?: TrafficInput } & (
+  | { type: 'single'; url: string; strategy?: StrategyOption }
+  | { type: 'crawl'; url: string; crawl: { maxPages?: number; maxDepth?: number } }
+  | { type: 'sitemap'; sitemap: { url?: string; xml?: string; sampling?: SitemapSampling; maxPages?: number } }
+  | { type: 'compare'; urls: string[]; strategy?: StrategyOption }
+);
+
+export interface SitemapReport extends SiteReport {
+  sitemapUrlCount: number;
+  sampledUrlCount: number;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+  timeBudget?: number; // Applies to crawl and sitemap runs only
+}
+
+/**
+ * Validate a `{ payload }` request body and turn it into an analysis request
+ */
+export function parseAnalysisRequest(payload: unknown): { request: AnalysisRequest } | { error: AnalysisError } {
+  const body = asObject(payload);
+
+  const { mode, strategy } = body;
+  if (mode !== undefined && mode !== 'strict' && mode !== 'best-effort') {
+    return { error: new AnalysisError('INVALID_REQUEST', "Invalid mode. Use 'strict' or 'best-effort'") };
+  }
+
+  if (strategy !== undefined && strategy !== 'mobile' && strategy !== 'desktop' && strategy !== 'both') {
+    return { error: new AnalysisError('INVALID_REQUEST', "Invalid strategy. Use 'mobile', 'desktop' or 'both'") };
+  }
+
+  let co2Options: CO2Options;
+  let traffic: TrafficInput | undefined;
+  try {
+    co2Options = parseCO2Options(body);
+    traffic = body.traffic !== undefined ? parseTraffic(body.traffic) : undefined;
+  } catch (error) {
+    return { error: toAnalysisError(error, 'INVALID_REQUEST') };
+  }
+
+  if (body.compare) {
+    if (traffic) {
+      return { error: new AnalysisError('INVALID_REQUEST', "traffic isn't supported for comparisons") };
+    }
+    const { urls } = asObject(body.compare);
+
+    if (!Array.isArray(urls) || urls.length < MIN_COMPARE_URLS || urls.length > MAX_COMPARE_URLS) {
+      return { error: new AnalysisError('INVALID_REQUEST', `Provide between ${MIN_COMPARE_URLS} and ${MAX_COMPARE_URLS} URLs to compare`) };
+    }
+    if (!urls.every((url): url is string => typeof url === 'string' && isValidUrl(url))) {
+      return { error: new AnalysisError('INVALID_URL', "Invalid URL format in compare list") };
+    }
+    if (new Set(urls).size !== urls.length) {
+      return { error: new AnalysisError('INVALID_REQUEST', "Compare URLs must be different") };
+    }
+
+    return { request: { type: 'compare', mode, co2Options, strategy, urls } };
+  }
+
+  if (body.sitemap) {
+    const { url, xml, sampling, maxPages } = asObject(body.sitemap);
+
+    if (!url && !xml) {
+      return { error: new AnalysisError('INVALID_REQUEST', "Missing sitemap URL or XML") };
+    }
+    if (url !== undefined && (typeof url !== 'string' || !isValidUrl(url))) {
+      return { error: new AnalysisError('INVALID_URL', "Invalid sitemap URL format") };
+    }
+    if (xml !== undefined && typeof xml !== 'string') {
+      return { error: new AnalysisError('INVALID_REQUEST', "sitemap.xml must be the contents of a sitemap file") };
+    }
+
+    try {
+      return {
+        request: {
+          type: 'sitemap',
+          mode,
+          co2Options,
+          traffic,
+          sitemap: {
+            url,
+            xml,
+            sampling: sampling !== undefined ? parseSitemapSampling(sampling) : undefined,
+            maxPages: parseLimit(maxPages, 'sitemap.maxPages', 1),
+          },
+        },
+      };
+    } catch (error) {
+      return { error: toAnalysisError(error, 'INVALID_REQUEST') };
+    }
+  }
+
+  const { url } = body;
+  if (!url) {
+    return { error: new AnalysisError('INVALID_REQUEST', "Missing URL") };
+  }
+
+  if (typeof url !== 'string' || !isValidUrl(url)) {
+    return { error: new AnalysisError('INVALID_URL', "Invalid URL format") };
+  }
+
+  if (body.crawl) {
+    const { maxPages, maxDepth } = asObject(body.crawl);
+    try {
+      return {
+        request: {
+          type: 'crawl',
+          mode,
+          co2Options,
+          traffic,
+          url,
+          crawl: {
+            maxPages: parseLimit(maxPages, 'crawl.maxPages', 1),
+            maxDepth: parseLimit(maxDepth, 'crawl.maxDepth', 0),
+          },
+        },
+      };
+    } catch (error) {
+      return { error: toAnalysisError(error, 'INVALID_REQUEST') };
+    }
+  }
+
+  return { request: { type: 'single', mode, co2Options, traffic, strategy, url } };
+}
+
+/**
+ * Validate the query parameters of a single-page analysis (`url`, `mode`, `strategy` and the
+ * CO2 options of parseCO2Params) the way parseAnalysisRequest validates a request body
+ */
+export function parseAnalysisParams(
+  params: URLSearchParams
+): { request: Extract<AnalysisRequest, { type: 'single' }> } | { error: AnalysisError } {
+  let co2Options: CO2Options;
+  try {
+    co2Options = parseCO2Params(params);
+  } catch (error) {
+    return { error: toAnalysisError(error, 'INVALID_REQUEST') };
+  }
+
+  const parsed = parseAnalysisRequest({
+    url: params.get('url') || undefined,
+    mode: params.get('mode') || undefined,
+    strategy: params.get('strategy') || undefined,
+  });
+  if ('error' in parsed) return parsed;
+
+  // Without crawl, sitemap or compare fields, parseAnalysisRequest always returns a single-page request
+  const { request } = parsed as { request: Extract<AnalysisRequest, { type: 'single' }> };
+  return { request: { ...request, co2Options } };
+}
+
+/**
+ * Run an analysis request to completion and return its report
+ */
+export async function runAnalysisRequest(
+  request: AnalysisRequest,
+  options: RunOptions = {}
+): Promise<SustainabilityReport | SiteReport | SitemapReport | ComparisonReport> {
+  const { signal, onProgress, timeBudget } = options;
+  const { mode, co2Options, traffic } = request;
+
+  switch (request.type) {
+    case 'crawl': {
+      const report = await new SiteCrawler({ ...request.crawl, mode, co2Options, signal, onProgress, timeBudget }).crawl(request.url);
+      return withProjection(report, traffic);
+    }
+
+    case 'compare':
+      return new UrlComparator({ strategy: request.strategy, mode, co2Options, signal, onProgress }).compare(request.urls);
+
+    case 'sitemap': {
+      const { sitemap } = request;
+      let urls: string[];
+      try {
+        urls = await new SitemapParser().expand({ url: sitemap.url, xml: sitemap.xml }, signal);
+      } catch (error) {
+        console.error('Sitemap expansion failed:', error);
+        const cause = toAnalysisError(error, 'SITEMAP_UNREADABLE');
+        if (cause.code === 'ANALYSIS_CANCELLED') throw cause;
+        throw new AnalysisError(cause.code, `Unable to read sitemap: ${cause.message}`, { cause: error });
+      }
+
+      const sampledUrls = sampleUrls(urls, sitemap.sampling);
+
+      const report = await new BatchAnalyzer({ maxPages: sitemap.maxPages, mode, co2Options, signal, onProgress, timeBudget })
+        .analyze(sitemap.url || 'uploaded sitemap', sampledUrls);
+
+      return withProjection({ ...report, sitemapUrlCount: urls.length, sampledUrlCount: sampledUrls.length }, traffic);
+    }
+
+    default: {
+      onProgress?.(0, 1);
+      const report = await generateReport(request.url, { ...co2Options, traffic, strategy: request.strategy, mode, signal });
+      onProgress?.(1, 1);
+      return report;
+    }
+  }
+}
+
+/**
+ * The CO2 options of a request body: `gridIntensity`, `model`, `compareModels` and `visitors`
+ */
+export function parseCO2Options(body: unknown): CO2Options {
+  const { gridIntensity, model, compareModels, visitors } = asObject(body);
+  if (compareModels !== undefined && typeof compareModels !== 'boolean') {
+    throw new AnalysisError('INVALID_REQUEST', "compareModels must be true or false");
+  }
+
+  const options: CO2Options = {
+    ...(gridIntensity !== undefined ? { gridIntensity: parseGridIntensity(gridIntensity) } : {}),
+    ...(model !== undefined ? { model: parseCo2Model(model) } : {}),
+    ...(compareModels ? { compareModels: true } : {}),
+    ...(visitors !== undefined ? { visitors: parseVisitorBehavior(visitors) } : {}),
+  };
+  checkGridIntensitySupported(options.model ?? getConfiguredCo2Model(), options.gridIntensity);
+
+  return options;
+}
+
+/**
+ * The CO2 options of a request's query parameters: `dataCenter`, `audience` (e.g. `DE:60,FR:40`),
+ * `model`, `compareModels=true`, `returnVisitPercentage` and `dataReloadRatio`
+ */
+export function parseCO2Params(params: URLSearchParams): CO2Options {
+  const visitors = parseVisitorParams(params.get('returnVisitPercentage'), params.get('dataReloadRatio'));
+  return {
+    ...parseCO2Options({
+      gridIntensity: parseGridIntensityParams(params.get('dataCenter'), params.get('audience')),
+      model: params.get('model') ?? undefined,
+      compareModels: params.has('compareModels') ? params.get('compareModels') === 'true' : undefined,
+    }),
+    ...(visitors ? { visitors } : {}),
+  };
+}
+
+// Project the site's emissions from its traffic, when given and at least one page was analyzed
+function withProjection<T extends SiteReport>(report: T, traffic: TrafficInput | undefined): T {
+  if (!traffic || report.pages.length === 0) return report;
+  return { ...report, projection: projectEmissions(report.pages, traffic) };
+}
+
+// Request fields are read off plain objects; anything else reads as an empty one
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+// Page and depth limits are optional; the crawler and batch analyzer cap them at their own maximums
+function parseLimit(value: unknown, name: string, min: number): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new AnalysisError('INVALID_REQUEST', `${name} must be an integer of at least ${min}`);
+  }
+  return value;
+}
+
+function isValidUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
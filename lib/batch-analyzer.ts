@@ -0,0 +1,88 @@
+import { CO2Options, generateReport } from './report-generator';
+import { AnalysisError } from './analysis-errors';
+import type { AnalysisMode } from './report-types';
+import { aggregateSiteReport, SitePageResult, SiteReport } from './site-report';
+
+export interface BatchOptions {
+  maxPages?: number; // Hard cap on analyzed URLs, applied after sampling
+  concurrency?: number; // URLs analyzed in parallel
+  mode?: AnalysisMode; // Passed to every page analysis
+  co2Options?: CO2Options; // Passed to every page analysis
+  signal?: AbortSignal; // Cancels the run between and during page analyses
+  onProgress?: (completed: number, total: number) => void;
+  timeBudget?: number; // Milliseconds after which no new URLs are started
+}
+
+const DEFAULT_MAX_PAGES = 25;
+const MAX_PAGES_LIMIT = 200;
+const DEFAULT_CONCURRENCY = 2;
+
+export class BatchAnalyzer {
+  private maxPages: number;
+  private concurrency: number;
+  private timeBudget: number | null;
+  private mode?: AnalysisMode;
+  private co2Options?: CO2Options;
+  private signal?: AbortSignal;
+  private onProgress?: (completed: number, total: number) => void;
+
+  constructor(options: BatchOptions = {}) {
+    this.maxPages = Math.max(1, Math.min(MAX_PAGES_LIMIT, Math.floor(options.maxPages ?? DEFAULT_MAX_PAGES)));
+    this.concurrency = Math.max(1, Math.min(10, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY)));
+    this.timeBudget = options.timeBudget ?? null;
+    this.mode = options.mode;
+    this.co2Options = options.co2Options;
+    this.signal = options.signal;
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Run every URL through the report pipeline and aggregate the results into a site report
+   */
+  async analyze(label: string, urls: string[]): Promise<SiteReport> {
+    const startTime = Date.now();
+    const uniqueUrls = [...new Set(urls)];
+    const queue = uniqueUrls.slice(0, this.maxPages);
+    const total = queue.length;
+    const results: SitePageResult[] = [];
+    let outOfTime = false;
+
+    console.log(`Starting batch analysis of ${queue.length} URLs for ${label}`);
+
+    while (queue.length > 0) {
+      if (this.signal?.aborted) {
+        throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+      }
+
+      if (this.timeBudget !== null && Date.now() - startTime > this.timeBudget) {
+        console.warn('Batch time budget exhausted, returning partial report');
+        outOfTime = true;
+        break;
+      }
+
+      const batch = queue.splice(0, this.concurrency);
+
+      await Promise.all(batch.map(async url => {
+        const result: SitePageResult = { url, depth: 0 };
+        try {
+          result.report = await generateReport(url, { ...this.co2Options, mode: this.mode, signal: this.signal, persist: false });
+        } catch (error) {
+          console.warn('Batch URL analysis failed:', url, error);
+          result.error = error instanceof Error ? error.message : String(error);
+        }
+        results.push(result);
+        this.onProgress?.(results.length, total);
+      }));
+    }
+
+    if (this.signal?.aborted) {
+      throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+    }
+
+    console.log(`Batch analysis complete: ${results.length} URLs analyzed`);
+
+    return aggregateSiteReport(label, results, {
+      truncated: outOfTime || uniqueUrls.length > this.maxPages,
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AnalysisError, toAnalysisError } from './analysis-errors';
+import { parseBudget, SustainabilityBudget } from './budget';
+
+// Loaded once per server process; null when BUDGET_PATH is not set
+const globalForBudget = globalThis as unknown as {
+  configuredBudget?: SustainabilityBudget | null;
+};
+
+/**
+ * Read and validate a JSON or YAML budget file
+ */
+export function loadBudgetFile(path: string): SustainabilityBudget {
+  let data: unknown;
+  try {
+    const contents = readFileSync(path, 'utf8');
+    data = ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? parseYaml(contents) : JSON.parse(contents);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AnalysisError('INVALID_REQUEST', `Could not read budget file ${path}: ${message}`, { cause: error });
+  }
+
+  return parseBudget(data);
+}
+
+/**
+ * The budget file set by BUDGET_PATH, applied to every analysis that doesn't pass its own budget.
+ * A broken file is a server problem, not a bad request, so it fails with CONFIGURATION_ERROR.
+ */
+export function getConfiguredBudget(): SustainabilityBudget | null {
+  if (globalForBudget.configuredBudget === undefined) {
+    const path = process.env.BUDGET_PATH;
+    try {
+      globalForBudget.configuredBudget = path ? loadBudgetFile(path) : null;
+    } catch (error) {
+      throw new AnalysisError('CONFIGURATION_ERROR', `Invalid BUDGET_PATH: ${toAnalysisError(error).message}`, { cause: error });
+    }
+  }
+
+  return globalForBudget.configuredBudget;
+}
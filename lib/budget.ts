@@ -0,0 +1,224 @@
+import type { PageSpeedData } from './pagespeed-api';
+import type { SustainabilityReport } from './report-types';
+import { AnalysisError } from './analysis-errors';
+
+export type BudgetThreshold = number | string; // Letters for co2Rating, numbers for everything else
+
+export interface BudgetLimit {
+  warn?: BudgetThreshold;
+  fail?: BudgetThreshold;
+}
+
+export interface BudgetEntry {
+  path?: string; // URL path pattern, e.g. `/blog/*` or `/products/**` (default: every page)
+  limits: Record<string, BudgetLimit>; // Keyed by metric, e.g. `scriptResourceSize` or `co2Rating`
+}
+
+/**
+ * Budget file contents. Every entry whose path matches the page applies; when several
+ * entries limit the same metric, the later entry wins
+ */
+export interface SustainabilityBudget {
+  budgets: BudgetEntry[];
+}
+
+export type BudgetStatus = 'pass' | 'warn' | 'fail';
+
+export interface BudgetRuleResult {
+  path: string; // Pattern of the entry the rule came from
+  metric: string;
+  status: BudgetStatus | 'skipped'; // 'skipped' when the analysis did not measure the metric
+  actual?: BudgetThreshold;
+  warn?: BudgetThreshold;
+  fail?: BudgetThreshold;
+}
+
+export interface BudgetResult {
+  status: BudgetStatus; // Worst status across all rules
+  rules: BudgetRuleResult[];
+}
+
+const PAGESPEED_METRICS = [
+  'performanceScore', 'accessibilityScore', 'bestPracticesScore', 'seoScore',
+  'firstContentfulPaint', 'largestContentfulPaint', 'firstInputDelay', 'cumulativeLayoutShift', 'speedIndex', 'totalBlockingTime',
+  'totalResourceSize', 'imageResourceSize', 'scriptResourceSize', 'stylesheetResourceSize', 'fontResourceSize',
+  'resourceCounts.images', 'resourceCounts.scripts', 'resourceCounts.stylesheets', 'resourceCounts.fonts', 'resourceCounts.videos', 'resourceCounts.total',
+  'unusedCssBytes', 'unusedJsBytes', 'unoptimizedImageBytes',
+  'serverResponseTime', 'renderBlockingResources', 'domSize', 'criticalRequestChains',
+];
+const CO2_METRICS = ['co2PerVisit', 'totalCO2', 'co2Rating'];
+type ReportScore = 'overallScore' | 'energyEfficiency' | 'carbonFootprint' | 'resourceOptimization' | 'accessibility';
+const REPORT_SCORES: ReportScore[] = ['overallScore', 'energyEfficiency', 'carbonFootprint', 'resourceOptimization', 'accessibility'];
+
+export const BUDGET_METRICS = [...PAGESPEED_METRICS, ...CO2_METRICS, ...REPORT_SCORES];
+
+// Best to worst
+const CO2_RATINGS = ['A+', 'A', 'B', 'C', 'D', 'E', 'F'];
+
+const DEFAULT_PATH = '/**';
+
+const isReportScore = (metric: string): metric is ReportScore => REPORT_SCORES.includes(metric as ReportScore);
+const isHigherBetter = (metric: string) => metric.endsWith('Score') || isReportScore(metric);
+
+/**
+ * Validate parsed budget file contents (JSON or YAML)
+ */
+export function parseBudget(data: unknown): SustainabilityBudget {
+  if (!data || typeof data !== 'object' || !Array.isArray((data as SustainabilityBudget).budgets)) {
+    throw new AnalysisError('INVALID_REQUEST', 'Budget must be an object with a "budgets" list');
+  }
+
+  const budgets = (data as { budgets: unknown[] }).budgets.map((entry, index): BudgetEntry => {
+    const where = `budgets[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+      throw new AnalysisError('INVALID_REQUEST', `${where} must be an object`);
+    }
+
+    const { path, limits } = entry as Record<string, unknown>;
+    if (path !== undefined && (typeof path !== 'string' || !path.startsWith('/'))) {
+      throw new AnalysisError('INVALID_REQUEST', `${where}.path must be a URL path pattern starting with "/"`);
+    }
+    if (!limits || typeof limits !== 'object' || Object.keys(limits).length === 0) {
+      throw new AnalysisError('INVALID_REQUEST', `${where}.limits must set at least one metric`);
+    }
+
+    Object.entries(limits).forEach(([metric, limit]) => validateLimit(`${where}.limits.${metric}`, metric, limit));
+
+    return { ...(path !== undefined ? { path } : {}), limits: limits as Record<string, BudgetLimit> };
+  });
+
+  return { budgets };
+}
+
+function validateLimit(where: string, metric: string, limit: unknown) {
+  if (!BUDGET_METRICS.includes(metric)) {
+    throw new AnalysisError('INVALID_REQUEST', `Unknown budget metric in ${where}. Use one of ${BUDGET_METRICS.join(', ')}`);
+  }
+  if (!limit || typeof limit !== 'object') {
+    throw new AnalysisError('INVALID_REQUEST', `${where} must be an object with "warn" and/or "fail"`);
+  }
+
+  const { warn, fail } = limit as BudgetLimit;
+  if (warn === undefined && fail === undefined) {
+    throw new AnalysisError('INVALID_REQUEST', `${where} must set "warn" and/or "fail"`);
+  }
+
+  [warn, fail].forEach(threshold => {
+    if (threshold === undefined) return;
+    const valid = metric === 'co2Rating'
+      ? typeof threshold === 'string' && CO2_RATINGS.includes(threshold)
+      : typeof threshold === 'number' && Number.isFinite(threshold);
+    if (!valid) {
+      throw new AnalysisError('INVALID_REQUEST', metric === 'co2Rating'
+        ? `${where} thresholds must be one of ${CO2_RATINGS.join(', ')}`
+        : `${where} thresholds must be numbers`);
+    }
+  });
+
+  if (warn !== undefined && fail !== undefined && isWorse(metric, warn, fail)) {
+    throw new AnalysisError('INVALID_REQUEST', `${where}.warn must not be stricter than its "fail" threshold`);
+  }
+}
+
+/**
+ * Evaluate the budget rules that apply to a report's URL path.
+ * Returns null when no budget entry matches the page
+ */
+export function evaluateBudget(
+  report: SustainabilityReport,
+  budget: SustainabilityBudget,
+  pageSpeedData?: PageSpeedData | null
+): BudgetResult | null {
+  const pathname = getPathname(report.analysisData.url);
+
+  // Later entries override earlier ones for the same metric
+  const rules = new Map<string, { path: string; limit: BudgetLimit }>();
+  budget.budgets
+    .filter(entry => matchesPath(entry.path || DEFAULT_PATH, pathname))
+    .forEach(entry => Object.entries(entry.limits).forEach(([metric, limit]) => {
+      rules.set(metric, { path: entry.path || DEFAULT_PATH, limit });
+    }));
+
+  if (rules.size === 0) return null;
+
+  const results: BudgetRuleResult[] = [...rules].map(([metric, { path, limit }]) => {
+    const actual = getMetricValue(metric, report, pageSpeedData);
+    const thresholds = {
+      ...(limit.warn !== undefined ? { warn: limit.warn } : {}),
+      ...(limit.fail !== undefined ? { fail: limit.fail } : {}),
+    };
+
+    if (actual === undefined) {
+      return { path, metric, status: 'skipped', ...thresholds };
+    }
+
+    const status: BudgetStatus = limit.fail !== undefined && isWorse(metric, actual, limit.fail) ? 'fail'
+      : limit.warn !== undefined && isWorse(metric, actual, limit.warn) ? 'warn'
+      : 'pass';
+
+    return { path, metric, status, actual, ...thresholds };
+  });
+
+  const status: BudgetStatus = results.some(rule => rule.status === 'fail') ? 'fail'
+    : results.some(rule => rule.status === 'warn') ? 'warn'
+    : 'pass';
+
+  return { status, rules: results };
+}
+
+/**
+ * Whether `actual` is past the `threshold` in the metric's bad direction
+ */
+function isWorse(metric: string, actual: BudgetThreshold, threshold: BudgetThreshold): boolean {
+  if (metric === 'co2Rating') {
+    return CO2_RATINGS.indexOf(String(actual)) > CO2_RATINGS.indexOf(String(threshold));
+  }
+  return isHigherBetter(metric) ? Number(actual) < Number(threshold) : Number(actual) > Number(threshold);
+}
+
+function getMetricValue(
+  metric: string,
+  report: SustainabilityReport,
+  pageSpeedData?: PageSpeedData | null
+): BudgetThreshold | undefined {
+  if (isReportScore(metric)) {
+    return report[metric];
+  }
+
+  if (CO2_METRICS.includes(metric)) {
+    if (metric === 'co2Rating') return report.co2Data?.co2Rating;
+    if (metric === 'co2PerVisit') return report.co2Data?.co2PerVisit ?? report.analysisData.actualCarbonFootprint;
+    return report.co2Data?.totalCO2;
+  }
+
+  // Basic analyses have no raw PageSpeed data, but some fields carry over to analysisData
+  const value = pageSpeedData
+    ? metric.split('.').reduce<unknown>((data, key) => (data as Record<string, unknown> | undefined)?.[key], pageSpeedData)
+    : report.analysisData[metric as keyof SustainabilityReport['analysisData']];
+
+  if (typeof value === 'number') return value;
+  if (metric === 'totalResourceSize') return Math.round(report.analysisData.pageSize * 1024);
+  return undefined;
+}
+
+/**
+ * Match a URL path against a pattern where `*` matches within one path segment and `**` across segments
+ */
+export function matchesPath(pattern: string, pathname: string): boolean {
+  const source = pattern
+    .split('**')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+
+  // A trailing slash on the page's path doesn't make it a different page
+  const regex = new RegExp(`^${source}$`);
+  return regex.test(pathname) || regex.test(pathname.replace(/(.)\/$/, '$1'));
+}
+
+function getPathname(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return '/';
+  }
+}
@@ -1,7 +1,20 @@
 import { co2 } from '@tgwf/co2';
-import type { PageSpeedData } from './pagespeed-api';
+import type { PageSpeedData, PageSpeedMetric } from './pagespeed-api';
+import { AnalysisError, toAnalysisError } from './analysis-errors';
+import { toCo2GridIntensity, type Co2GridIntensity, type GridIntensityOptions } from './grid-intensity';
+import { DEFAULT_VISITOR_BEHAVIOR, type VisitAssumptions } from './visitor-behavior';
+
+/**
+ * Emissions models CO2.js supports: Sustainable Web Design v4 (current), SWD v3 and OneByte
+ */
+export type Co2Model = 'swd-v4' | 'swd-v3' | '1byte';
+
+export const CO2_MODELS: Co2Model[] = ['swd-v4', 'swd-v3', '1byte'];
+
+export const DEFAULT_CO2_MODEL: Co2Model = 'swd-v4';
 
 export interface CO2CalculationResult {
+  model: Co2Model; // Emissions model the figures were calculated with
   totalCO2: number; // Total CO2 in grams
   co2PerVisit: number; // CO2 per visit in grams
   co2Rating: string; // A+ to F rating
@@ -24,8 +37,38 @@ export interface CO2CalculationResult {
     imageOptimizationSavings: number;
     totalPotentialSavings: number;
   };
+  gridIntensity?: { // Not set for OneByte, which uses fixed emission factors
+    dataCenter: number; // gCO2e/kWh used for each segment
+    device: number;
+    network: number;
+    dataCenterRegion?: string; // Set when the data center location was given
+    audience?: Record<string, number>; // Visitor shares the device and network values were averaged from
+  };
+  visitAssumptions: VisitAssumptions; // First and return visit shares behind co2PerVisit
+  co2ByResourceType: CO2ByResourceType;
+}
+
+// Resource types CO2 is attributed to; 'other' is the HTML document, media and everything else
+export type ResourceType = 'image' | 'script' | 'stylesheet' | 'font' | 'other';
+
+// The bytes of one slice of the page and the share of CO2 per visit they cause
+export interface ResourceCO2 {
+  bytes: number;
+  co2: number; // grams per visit
+  percentage: number; // of the page's CO2
+}
+
+export interface CO2ByResourceType {
+  byType: Record<ResourceType, ResourceCO2>;
+  byOrigin?: { // Only present when the data source reports third-party bytes
+    firstParty: ResourceCO2;
+    thirdParty: ResourceCO2;
+  };
 }
 
+// The headline figures of one model, for comparing models side by side
+export type CO2ModelResult = Pick<CO2CalculationResult, 'totalCO2' | 'co2PerVisit' | 'co2Rating' | 'breakdown'>;
+
 export interface SustainabilityMetrics {
   energyEfficiency: number; // 0-100 score
   carbonFootprint: number; // 0-100 score (higher is better)
@@ -34,24 +77,88 @@ export interface SustainabilityMetrics {
   co2Data: CO2CalculationResult;
 }
 
+/**
+ * Validate an emissions model from a request, the CLI or CO2_MODEL
+ */
+export function parseCo2Model(value: unknown): Co2Model {
+  if (!CO2_MODELS.includes(value as Co2Model)) {
+    throw new AnalysisError('INVALID_REQUEST', `Invalid CO2 model ${JSON.stringify(value)}. Use ${CO2_MODELS.map(model => `'${model}'`).join(', ')}`);
+  }
+  return value as Co2Model;
+}
+
+/**
+ * The deployment's emissions model: CO2_MODEL, or SWD v4 when it's not set.
+ * An unknown CO2_MODEL is a server problem, so it fails with CONFIGURATION_ERROR.
+ */
+export function getConfiguredCo2Model(): Co2Model {
+  if (!process.env.CO2_MODEL) return DEFAULT_CO2_MODEL;
+
+  try {
+    return parseCo2Model(process.env.CO2_MODEL);
+  } catch (error) {
+    throw new AnalysisError('CONFIGURATION_ERROR', `Invalid CO2_MODEL: ${toAnalysisError(error).message}`, { cause: error });
+  }
+}
+
+/**
+ * Reject grid intensity options for OneByte: its emission factors are fixed, so they would be silently ignored
+ */
+export function checkGridIntensitySupported(model: Co2Model, gridIntensity?: GridIntensityOptions): void {
+  if (model === '1byte' && (gridIntensity?.dataCenter || gridIntensity?.audience)) {
+    throw new AnalysisError('INVALID_REQUEST', "Grid intensity (data center and audience) doesn't apply to the 1byte model, which uses fixed emission factors. Use 'swd-v4' or 'swd-v3', or leave it out.");
+  }
+}
+
+// A CO2.js estimate in grams, or its segments with `results: 'segment'`. SWD v3 segment keys end in CO2, SWD v4 keys in CO2e.
+type CO2Estimate = number | ({ total: number; rating?: string } & Partial<Record<
+  | 'dataCenterCO2' | 'networkCO2' | 'consumerDeviceCO2' | 'productionCO2'
+  | 'dataCenterCO2e' | 'networkCO2e' | 'consumerDeviceCO2e' | 'totalOperationalCO2e' | 'totalEmbodiedCO2e',
+  number
+>>);
+
+// Lighthouse audits behind the unused and unoptimized byte penalties
+const OPTIMIZATION_AUDITS: PageSpeedMetric[] = ['unusedCssBytes', 'unusedJsBytes', 'unoptimizedImageBytes'];
+
+function isMeasured(data: PageSpeedData, metric: PageSpeedMetric): boolean {
+  return !data.unavailableMetrics?.includes(metric);
+}
+
 export class CO2Calculator {
+  private model: Co2Model;
   private co2Instance: any;
+  private gridIntensityOptions: GridIntensityOptions;
+  private visitors: VisitAssumptions;
+  private gridIntensity: Co2GridIntensity;
 
-  constructor() {
-    // Initialize CO2.js with Sustainable Web Design v4 model
-    this.co2Instance = new co2({
-      model: 'swd',
-      version: 4,
-      results: 'segment', // Get detailed breakdown
-      rating: true // Include A+ to F rating
-    });
+  /**
+   * Uses the CO2_MODEL model unless one is given. Without grid intensity options every
+   * segment uses the global average grid intensity, and without visitor behavior 75% of
+   * visits are first visits and a return visit reloads 2% of the page.
+   */
+  constructor(options: { model?: Co2Model; gridIntensity?: GridIntensityOptions; visitors?: VisitAssumptions } = {}) {
+    this.model = options.model ?? getConfiguredCo2Model();
+    checkGridIntensitySupported(this.model, options.gridIntensity);
+    this.visitors = options.visitors ?? { ...DEFAULT_VISITOR_BEHAVIOR, source: 'default' };
+    this.gridIntensityOptions = options.gridIntensity ?? {};
+    this.gridIntensity = toCo2GridIntensity(this.gridIntensityOptions);
+
+    // OneByte has no segment breakdown or rating system, so CO2.js rejects those options for it
+    this.co2Instance = this.model === '1byte'
+      ? new co2({ model: '1byte' })
+      : new co2({
+        model: 'swd',
+        version: this.model === 'swd-v3' ? 3 : 4,
+        results: 'segment', // Get detailed breakdown
+        rating: true // Include A+ to F rating
+      });
   }
 
   /**
    * Calculate CO2 emissions from PageSpeed Insights data
    */
   calculateCO2FromPageSpeed(data: PageSpeedData, isGreenHosting: boolean = false): CO2CalculationResult {
-    console.log('Calculating CO2 emissions from PageSpeed data...');
+    console.log(`Calculating CO2 emissions from PageSpeed data with the ${this.model} model...`);
     
     // Use total resource size as the primary metric (bytes transferred)
     const bytesTransferred = data.totalResourceSize;
@@ -59,38 +166,14 @@ export class CO2Calculator {
     console.log(`Total bytes transferred: ${bytesTransferred} bytes (${(bytesTransferred / 1024 / 1024).toFixed(2)} MB)`);
 
     // Calculate CO2 per byte
-    const co2PerByte = this.co2Instance.perByte(bytesTransferred, isGreenHosting);
+    const co2PerByteTrace = this.co2Instance.perByteTrace(bytesTransferred, isGreenHosting, { gridIntensity: this.gridIntensity });
+    const co2PerByte: CO2Estimate = co2PerByteTrace.co2;
     
     // Calculate CO2 per visit (considering return visitors)
-    const visitOptions = {
-      firstVisitPercentage: 0.75, // 75% first-time visitors
-      returnVisitPercentage: 0.25, // 25% return visitors  
-      dataReloadRatio: 0.02, // 2% of data reloaded on return visits
-    };
-    
-    const co2PerVisit = this.co2Instance.perVisit(bytesTransferred, isGreenHosting, visitOptions);
-
-    // Get detailed breakdown if available
-    let breakdown = {
-      dataCenterCO2: 0,
-      networkCO2: 0,
-      deviceCO2: 0,
-      operationalCO2: 0,
-      embodiedCO2: 0,
-    };
-
-    if (typeof co2PerByte === 'object' && co2PerByte.total !== undefined) {
-      breakdown = {
-        dataCenterCO2: co2PerByte.dataCenterCO2 || 0,
-        networkCO2: co2PerByte.networkCO2 || 0,
-        deviceCO2: co2PerByte.consumerDeviceCO2 || 0,
-        operationalCO2: co2PerByte.totalOperationalCO2e || 0,
-        embodiedCO2: co2PerByte.totalEmbodiedCO2e || 0,
-      };
-    }
+    const visitCO2 = this.perVisit(bytesTransferred, isGreenHosting);
 
+    const breakdown = this.toBreakdown(co2PerByte);
     const totalCO2 = typeof co2PerByte === 'number' ? co2PerByte : co2PerByte.total;
-    const visitCO2 = typeof co2PerVisit === 'number' ? co2PerVisit : co2PerVisit.total;
     const rating = typeof co2PerByte === 'object' && co2PerByte.rating ? co2PerByte.rating : this.calculateRating(totalCO2);
 
     // Calculate green hosting impact
@@ -99,16 +182,90 @@ export class CO2Calculator {
     // Calculate optimization potential
     const optimizationPotential = this.calculateOptimizationPotential(data);
 
+    const co2ByResourceType = this.attributeCO2(data, visitCO2);
+
+    // The grid intensities CO2.js actually used, including the global defaults
+    const usedIntensity = co2PerByteTrace.variables.gridIntensity;
+    const gridIntensity: CO2CalculationResult['gridIntensity'] = this.model === '1byte' ? undefined : {
+      dataCenter: usedIntensity.dataCenter.value,
+      device: usedIntensity.device.value,
+      network: usedIntensity.network.value,
+      ...(this.gridIntensity.dataCenter ? { dataCenterRegion: this.gridIntensity.dataCenter.country } : {}),
+      ...(this.gridIntensityOptions.audience ? { audience: this.gridIntensityOptions.audience } : {}),
+    };
+
     console.log(`CO2 calculation complete: ${totalCO2.toFixed(4)}g per byte transfer, ${visitCO2.toFixed(4)}g per visit, Rating: ${rating}`);
 
     return {
+      model: this.model,
       totalCO2,
       co2PerVisit: visitCO2,
       co2Rating: rating,
       breakdown,
       greenHostingImpact,
       optimizationPotential,
+      ...(gridIntensity ? { gridIntensity } : {}),
+      visitAssumptions: this.visitors,
+      co2ByResourceType,
+    };
+  }
+
+  /**
+   * Split CO2 per visit by resource type, and by first- vs third-party origin when the data has
+   * third-party bytes. Every CO2.js model is linear in bytes, so a slice's share of the CO2 is its share of the bytes.
+   */
+  private attributeCO2(data: PageSpeedData, co2PerVisit: number): CO2ByResourceType {
+    const typed = {
+      image: data.imageResourceSize,
+      script: data.scriptResourceSize,
+      stylesheet: data.stylesheetResourceSize,
+      font: data.fontResourceSize,
+    };
+    const typedBytes = Object.values(typed).reduce((total, bytes) => total + bytes, 0);
+    // Simulated data can put more bytes in the typed sizes than in the total
+    const totalBytes = Math.max(data.totalResourceSize, typedBytes);
+
+    const slice = (bytes: number): ResourceCO2 => ({
+      bytes,
+      co2: totalBytes > 0 ? (co2PerVisit * bytes) / totalBytes : 0,
+      percentage: totalBytes > 0 ? Math.round((bytes / totalBytes) * 1000) / 10 : 0,
+    });
+
+    const byType = {
+      image: slice(typed.image),
+      script: slice(typed.script),
+      stylesheet: slice(typed.stylesheet),
+      font: slice(typed.font),
+      other: slice(totalBytes - typedBytes),
     };
+
+    if (data.thirdPartyResourceSize === undefined) {
+      return { byType };
+    }
+
+    const thirdPartyBytes = Math.min(data.thirdPartyResourceSize, totalBytes);
+    return {
+      byType,
+      byOrigin: {
+        firstParty: slice(totalBytes - thirdPartyBytes),
+        thirdParty: slice(thirdPartyBytes),
+      },
+    };
+  }
+
+  /**
+   * Calculate the headline figures with every model, using the same grid intensities
+   */
+  calculateAllModels(data: PageSpeedData, isGreenHosting: boolean = false): Record<Co2Model, CO2ModelResult> {
+    const entries = CO2_MODELS.map(model => {
+      // OneByte's fixed emission factors don't take the grid intensity options
+      const gridIntensity = model === '1byte' ? undefined : this.gridIntensityOptions;
+      const calculator = model === this.model ? this : new CO2Calculator({ model, gridIntensity, visitors: this.visitors });
+      const { totalCO2, co2PerVisit, co2Rating, breakdown } = calculator.calculateCO2FromPageSpeed(data, isGreenHosting);
+      return [model, { totalCO2, co2PerVisit, co2Rating, breakdown }];
+    });
+
+    return Object.fromEntries(entries) as Record<Co2Model, CO2ModelResult>;
   }
 
   /**
@@ -155,19 +312,23 @@ export class CO2Calculator {
     let score = 100;
 
     // Penalize slow loading times (more energy consumption)
-    if (data.largestContentfulPaint > 4000) {
-      score -= 25;
-    } else if (data.largestContentfulPaint > 2500) {
-      score -= 15;
-    } else if (data.largestContentfulPaint > 1500) {
-      score -= 5;
+    if (isMeasured(data, 'largestContentfulPaint')) {
+      if (data.largestContentfulPaint > 4000) {
+        score -= 25;
+      } else if (data.largestContentfulPaint > 2500) {
+        score -= 15;
+      } else if (data.largestContentfulPaint > 1500) {
+        score -= 5;
+      }
     }
 
     // Penalize high Total Blocking Time
-    if (data.totalBlockingTime > 300) {
-      score -= 20;
-    } else if (data.totalBlockingTime > 150) {
-      score -= 10;
+    if (isMeasured(data, 'totalBlockingTime')) {
+      if (data.totalBlockingTime > 300) {
+        score -= 20;
+      } else if (data.totalBlockingTime > 150) {
+        score -= 10;
+      }
     }
 
     // Penalize large resource sizes
@@ -225,52 +386,77 @@ export class CO2Calculator {
   }
 
   /**
-   * Calculate resource optimization score
+   * Calculate resource optimization score. Without the Lighthouse audits for unused and
+   * unoptimized bytes (basic analyses), the script, stylesheet and font counts are scored instead.
    */
   private calculateResourceOptimizationScore(data: PageSpeedData): number {
     let score = 100;
 
-    // Penalize unused resources
-    const totalSize = data.totalResourceSize;
-    const unusedCssPercent = (data.unusedCssBytes / totalSize) * 100;
-    const unusedJsPercent = (data.unusedJsBytes / totalSize) * 100;
+    if (OPTIMIZATION_AUDITS.every(metric => isMeasured(data, metric))) {
+      // Penalize unused resources
+      const totalSize = data.totalResourceSize;
+      const unusedCssPercent = (data.unusedCssBytes / totalSize) * 100;
+      const unusedJsPercent = (data.unusedJsBytes / totalSize) * 100;
 
-    if (unusedCssPercent > 20) {
-      score -= 15;
-    } else if (unusedCssPercent > 10) {
-      score -= 8;
-    }
+      if (unusedCssPercent > 20) {
+        score -= 15;
+      } else if (unusedCssPercent > 10) {
+        score -= 8;
+      }
 
-    if (unusedJsPercent > 25) {
-      score -= 20;
-    } else if (unusedJsPercent > 15) {
-      score -= 10;
-    }
+      if (unusedJsPercent > 25) {
+        score -= 20;
+      } else if (unusedJsPercent > 15) {
+        score -= 10;
+      }
 
-    // Penalize unoptimized images
-    const unoptimizedImagePercent = (data.unoptimizedImageBytes / data.imageResourceSize) * 100;
-    if (unoptimizedImagePercent > 30) {
-      score -= 15;
-    } else if (unoptimizedImagePercent > 15) {
-      score -= 8;
+      // Penalize unoptimized images
+      const unoptimizedImagePercent = (data.unoptimizedImageBytes / data.imageResourceSize) * 100;
+      if (unoptimizedImagePercent > 30) {
+        score -= 15;
+      } else if (unoptimizedImagePercent > 15) {
+        score -= 8;
+      }
+    } else {
+      // Penalize excessive requests
+      const { scripts, stylesheets, fonts } = data.resourceCounts;
+      if (scripts > 10) {
+        score -= (scripts - 10) * 3;
+      }
+      if (stylesheets > 5) {
+        score -= (stylesheets - 5) * 4;
+      }
+      if (fonts > 3) {
+        score -= (fonts - 3) * 5;
+      }
+
+      // Penalize large pages
+      const totalSizeKB = data.totalResourceSize / 1024;
+      if (totalSizeKB > 1500) {
+        score -= Math.min(20, (totalSizeKB - 1500) / 100);
+      }
     }
 
     // Penalize excessive render-blocking resources
-    if (data.renderBlockingResources > 10) {
-      score -= 15;
-    } else if (data.renderBlockingResources > 5) {
-      score -= 8;
+    if (isMeasured(data, 'renderBlockingResources')) {
+      if (data.renderBlockingResources > 10) {
+        score -= 15;
+      } else if (data.renderBlockingResources > 5) {
+        score -= 8;
+      }
     }
 
     // Penalize large DOM size
-    if (data.domSize > 1500) {
-      score -= 10;
-    } else if (data.domSize > 1000) {
-      score -= 5;
+    if (isMeasured(data, 'domSize')) {
+      if (data.domSize > 1500) {
+        score -= 10;
+      } else if (data.domSize > 1000) {
+        score -= 5;
+      }
     }
 
     // Bonus for good best practices score
-    if (data.bestPracticesScore > 90) {
+    if (isMeasured(data, 'bestPracticesScore') && data.bestPracticesScore > 90) {
       score += 5;
     }
 
@@ -281,11 +467,13 @@ export class CO2Calculator {
    * Calculate green hosting impact
    */
   private calculateGreenHostingImpact(bytesTransferred: number, isCurrentlyGreen: boolean) {
-    const currentCO2 = this.co2Instance.perByte(bytesTransferred, isCurrentlyGreen);
-    const withGreenHosting = this.co2Instance.perByte(bytesTransferred, true);
+    const currentCO2 = this.perByte(bytesTransferred, isCurrentlyGreen);
+    const withGreenHosting = this.perByte(bytesTransferred, true);
     
     const current = typeof currentCO2 === 'number' ? currentCO2 : currentCO2.total;
-    const green = typeof withGreenHosting === 'number' ? withGreenHosting : withGreenHosting.total;
+    // SWD v3 uses a fixed 50 g/kWh for renewables, more than some grids (e.g. France) emit,
+    // so a data center there can't improve by switching
+    const green = Math.min(current, typeof withGreenHosting === 'number' ? withGreenHosting : withGreenHosting.total);
     
     const potentialSavings = current - green;
     const savingsPercentage = current > 0 ? (potentialSavings / current) * 100 : 0;
@@ -308,9 +496,9 @@ export class CO2Calculator {
     totalPotentialSavings: number;
   } {
     // Calculate CO2 savings from removing unused resources
-    const unusedCssSavings = this.co2Instance.perByte(data.unusedCssBytes, false);
-    const unusedJsSavings = this.co2Instance.perByte(data.unusedJsBytes, false);
-    const imageOptimizationSavings = this.co2Instance.perByte(data.unoptimizedImageBytes, false);
+    const unusedCssSavings = this.perByte(data.unusedCssBytes, false);
+    const unusedJsSavings = this.perByte(data.unusedJsBytes, false);
+    const imageOptimizationSavings = this.perByte(data.unoptimizedImageBytes, false);
 
     const cssValue = typeof unusedCssSavings === 'number' ? unusedCssSavings : unusedCssSavings.total;
     const jsValue = typeof unusedJsSavings === 'number' ? unusedJsSavings : unusedJsSavings.total;
@@ -325,7 +513,64 @@ export class CO2Calculator {
   }
 
   /**
-   * Calculate rating manually if not provided by CO2.js
+   * CO2.js per-byte estimate with the configured grid intensities
+   */
+  private perByte(bytes: number, green: boolean): CO2Estimate {
+    return this.co2Instance.perByteTrace(bytes, green, { gridIntensity: this.gridIntensity }).co2;
+  }
+
+  /**
+   * CO2.js per-visit estimate with the configured visitor behavior. OneByte has no per-visit
+   * method, so its per-byte figure is weighted by the same first and return visit shares.
+   */
+  private perVisit(bytes: number, green: boolean): number {
+    if (this.model === '1byte') {
+      const estimate = this.perByte(bytes, green);
+      const perByte = typeof estimate === 'number' ? estimate : estimate.total;
+      return perByte * this.visitors.firstVisitPercentage
+        + perByte * this.visitors.returnVisitPercentage * this.visitors.dataReloadRatio;
+    }
+
+    const { firstVisitPercentage, returnVisitPercentage, dataReloadRatio } = this.visitors;
+    const co2PerVisit = this.co2Instance.perVisitTrace(bytes, green, {
+      firstVisitPercentage,
+      returnVisitPercentage,
+      dataReloadRatio,
+      gridIntensity: this.gridIntensity,
+    }).co2;
+    return typeof co2PerVisit === 'number' ? co2PerVisit : co2PerVisit.total;
+  }
+
+  /**
+   * Map the segment results of either SWD version onto one breakdown. SWD v3 reports embodied
+   * emissions as `productionCO2`; OneByte has no segments, so its breakdown is all zeros.
+   */
+  private toBreakdown(co2PerByte: CO2Estimate): CO2CalculationResult['breakdown'] {
+    if (typeof co2PerByte === 'number') {
+      return { dataCenterCO2: 0, networkCO2: 0, deviceCO2: 0, operationalCO2: 0, embodiedCO2: 0 };
+    }
+
+    if (this.model === 'swd-v3') {
+      return {
+        dataCenterCO2: co2PerByte.dataCenterCO2 || 0,
+        networkCO2: co2PerByte.networkCO2 || 0,
+        deviceCO2: co2PerByte.consumerDeviceCO2 || 0,
+        operationalCO2: co2PerByte.total - (co2PerByte.productionCO2 || 0),
+        embodiedCO2: co2PerByte.productionCO2 || 0,
+      };
+    }
+
+    return {
+      dataCenterCO2: co2PerByte.dataCenterCO2e || 0,
+      networkCO2: co2PerByte.networkCO2e || 0,
+      deviceCO2: co2PerByte.consumerDeviceCO2e || 0,
+      operationalCO2: co2PerByte.totalOperationalCO2e || 0,
+      embodiedCO2: co2PerByte.totalEmbodiedCO2e || 0,
+    };
+  }
+
+  /**
+   * Calculate rating manually if not provided by CO2.js (always the case for OneByte)
    */
   private calculateRating(co2Grams: number): string {
     // Based on Sustainable Web Design model v4 ratings
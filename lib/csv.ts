@@ -0,0 +1,48 @@
+/**
+ * Split CSV content into rows of fields. Blank lines and `#` comment lines (as in GA4 exports) are skipped.
+ */
+export function parseCsv(content: string): string[][] {
+  return content
+    .split(/\r?\n/)
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(parseCsvLine);
+}
+
+// Split a CSV line, honoring quoted fields such as "1,234"
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Read a count such as "1,234" or "1 234" from a CSV field. Returns NaN when it isn't a number.
+ */
+export function parseCsvNumber(field: string | undefined): number {
+  const value = (field ?? '').replace(/[,\s]/g, '');
+  return value ? Number(value) : NaN;
+}
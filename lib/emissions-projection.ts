@@ -0,0 +1,237 @@
+import { AnalysisError } from './analysis-errors';
+import { parseCsv, parseCsvNumber } from './csv';
+import { toUrlKey } from './report-repository';
+import type { SitePageSummary } from './site-report';
+
+export interface PageTraffic {
+  url: string; // Absolute URL, or a path resolved against the analyzed site
+  monthlyPageviews: number;
+}
+
+/**
+ * Monthly traffic to project emissions from: one pageview count for the whole site, or counts per page
+ */
+export type TrafficInput = { monthlyPageviews: number } | { pages: PageTraffic[] };
+
+// The per-visit figures a page is projected from
+export type ProjectedPage = Pick<SitePageSummary, 'url' | 'co2PerVisit' | 'co2Savings'>;
+
+// Yearly kg CO2e the optimizations and green hosting would avoid. They overlap, so they aren't added up.
+export interface ProjectedSavings {
+  optimizationKg: number;
+  greenHostingKg: number;
+}
+
+export interface PageProjection {
+  url: string;
+  co2PerVisit: number; // grams
+  monthlyPageviews: number;
+  monthlyKg: number; // kg CO2e
+  annualKg: number;
+  annualSavings: ProjectedSavings;
+}
+
+export interface EmissionsProjection {
+  pages: PageProjection[];
+  // Traffic to pages that weren't analyzed, projected with the average of the analyzed pages
+  unmatched?: {
+    pages: number;
+    monthlyPageviews: number;
+    monthlyKg: number;
+    annualKg: number;
+    annualSavings: ProjectedSavings;
+  };
+  total: {
+    monthlyPageviews: number;
+    monthlyKg: number;
+    annualKg: number;
+    annualTonnes: number; // t CO2e per year
+    annualSavings: ProjectedSavings;
+  };
+}
+
+// Header names of the page and pageview columns in analytics exports (e.g. GA4 "Page path and screen class" and "Views")
+const URL_COLUMNS = ['url', 'page', 'path', 'landing'];
+const VIEW_COLUMNS = ['pageviews', 'views'];
+
+/**
+ * Validate traffic from a request body or the CLI: `monthlyPageviews` for the whole site,
+ * `pages` with a `monthlyPageviews` count per URL, or `csv` with an export of URL → pageviews
+ */
+export function parseTraffic(data: unknown): TrafficInput {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new AnalysisError('INVALID_REQUEST', "traffic must be an object with 'monthlyPageviews', 'pages' or 'csv'");
+  }
+
+  const { monthlyPageviews, pages, csv } = data as Record<string, unknown>;
+  if ([monthlyPageviews, pages, csv].filter(value => value !== undefined).length !== 1) {
+    throw new AnalysisError('INVALID_REQUEST', "Set exactly one of traffic.monthlyPageviews, traffic.pages or traffic.csv");
+  }
+
+  if (monthlyPageviews !== undefined) {
+    checkPageviews(monthlyPageviews, 'traffic.monthlyPageviews');
+    return { monthlyPageviews: monthlyPageviews as number };
+  }
+
+  if (csv !== undefined) {
+    if (typeof csv !== 'string') {
+      throw new AnalysisError('INVALID_REQUEST', "traffic.csv must be the contents of a CSV file");
+    }
+    return { pages: parseTrafficCsv(csv) };
+  }
+
+  if (!Array.isArray(pages) || pages.length === 0) {
+    throw new AnalysisError('INVALID_REQUEST', "traffic.pages must be a non-empty array of { url, monthlyPageviews }");
+  }
+  return {
+    pages: pages.map((page, index) => {
+      if (!page || typeof page.url !== 'string' || !page.url.trim()) {
+        throw new AnalysisError('INVALID_REQUEST', `traffic.pages[${index}].url must be a URL or path`);
+      }
+      checkPageviews(page.monthlyPageviews, `traffic.pages[${index}].monthlyPageviews`);
+      return { url: page.url.trim(), monthlyPageviews: page.monthlyPageviews };
+    }),
+  };
+}
+
+/**
+ * Project monthly and annual emissions of the analyzed pages from their traffic.
+ *
+ * A single site-wide pageview count is spread evenly over the distinct pages. Per-page traffic is matched
+ * to the pages by URL; traffic to pages that weren't analyzed is projected with their average.
+ */
+export function projectEmissions(analyzedPages: ProjectedPage[], traffic: TrafficInput): EmissionsProjection {
+  if (analyzedPages.length === 0) {
+    throw new AnalysisError('INVALID_REQUEST', "No analyzed pages to project emissions for");
+  }
+
+  // URLs with the same key (e.g. with and without a trailing slash) are one page, so its traffic isn't counted twice
+  const pages = analyzedPages.filter((page, index) =>
+    analyzedPages.findIndex(other => toUrlKey(other.url) === toUrlKey(page.url)) === index
+  );
+
+  const views = new Map<string, number>(pages.map(page => [toUrlKey(page.url), 0]));
+  const unmatchedViews = new Map<string, number>();
+
+  if ('monthlyPageviews' in traffic) {
+    views.forEach((_, key) => views.set(key, traffic.monthlyPageviews / views.size));
+  } else {
+    traffic.pages.forEach(({ url, monthlyPageviews }) => {
+      const key = resolveTrafficUrl(url, pages[0].url);
+      const target = views.has(key) ? views : unmatchedViews;
+      target.set(key, (target.get(key) ?? 0) + monthlyPageviews);
+    });
+  }
+
+  const projected = pages.map(page => projectPage(page, views.get(toUrlKey(page.url)) ?? 0));
+
+  let unmatched: EmissionsProjection['unmatched'];
+  if (unmatchedViews.size > 0) {
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const { monthlyPageviews, monthlyKg, annualKg, annualSavings } = projectPage(
+      {
+        url: 'unmatched',
+        co2PerVisit: average(pages.map(page => page.co2PerVisit)),
+        co2Savings: {
+          optimization: average(pages.map(page => page.co2Savings.optimization)),
+          greenHosting: average(pages.map(page => page.co2Savings.greenHosting)),
+        },
+      },
+      [...unmatchedViews.values()].reduce((sum, value) => sum + value, 0)
+    );
+    unmatched = { pages: unmatchedViews.size, monthlyPageviews, monthlyKg, annualKg, annualSavings };
+  }
+
+  const all = unmatched ? [...projected, unmatched] : projected;
+  const sum = (value: (entry: typeof all[number]) => number) => all.reduce((total, entry) => total + value(entry), 0);
+  const annualKg = sum(entry => entry.annualKg);
+
+  return {
+    pages: projected,
+    ...(unmatched ? { unmatched } : {}),
+    total: {
+      monthlyPageviews: Math.round(sum(entry => entry.monthlyPageviews)),
+      monthlyKg: roundKg(sum(entry => entry.monthlyKg)),
+      annualKg: roundKg(annualKg),
+      annualTonnes: Math.round(annualKg) / 1000,
+      annualSavings: {
+        optimizationKg: roundKg(sum(entry => entry.annualSavings.optimizationKg)),
+        greenHostingKg: roundKg(sum(entry => entry.annualSavings.greenHostingKg)),
+      },
+    },
+  };
+}
+
+function projectPage(page: ProjectedPage, monthlyPageviews: number): PageProjection {
+  // grams per visit × visits per month → kg per month
+  const monthlyKg = (page.co2PerVisit * monthlyPageviews) / 1000;
+  const annualViews = monthlyPageviews * 12;
+
+  return {
+    url: page.url,
+    co2PerVisit: page.co2PerVisit,
+    monthlyPageviews,
+    monthlyKg: roundKg(monthlyKg),
+    annualKg: roundKg(monthlyKg * 12),
+    annualSavings: {
+      optimizationKg: roundKg((page.co2Savings.optimization * annualViews) / 1000),
+      greenHostingKg: roundKg((page.co2Savings.greenHosting * annualViews) / 1000),
+    },
+  };
+}
+
+/**
+ * Read a CSV of URL → monthly pageviews. The columns are found by header name
+ * (e.g. "Page path" and "Views"); without a header row, the first two columns are used.
+ */
+function parseTrafficCsv(content: string): PageTraffic[] {
+  const rows = parseCsv(content.trim());
+  if (rows.length === 0) {
+    throw new AnalysisError('INVALID_REQUEST', "Traffic CSV is empty");
+  }
+
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  const findColumn = (names: string[], exclude: string[] = []) => {
+    const exact = header.findIndex(column => names.includes(column));
+    return exact >= 0 ? exact : header.findIndex(column => names.some(name => column.includes(name)) && !exclude.some(name => column.includes(name)));
+  };
+  let urlColumn = findColumn(URL_COLUMNS, VIEW_COLUMNS); // "Pageviews" isn't a page column
+  let viewsColumn = findColumn(VIEW_COLUMNS);
+  let records = rows.slice(1);
+
+  if (urlColumn < 0 || viewsColumn < 0) {
+    if (rows[0].length < 2 || !Number.isFinite(parseCsvNumber(rows[0][1]))) {
+      throw new AnalysisError('INVALID_REQUEST', "Traffic CSV needs a page URL column and a pageviews column");
+    }
+    [urlColumn, viewsColumn, records] = [0, 1, rows];
+  }
+
+  // Summary rows (such as GA4's totals) have no page, and rows without a count are skipped
+  const pages = records
+    .map(record => ({ url: (record[urlColumn] ?? '').trim(), monthlyPageviews: parseCsvNumber(record[viewsColumn]) }))
+    .filter(page => page.url && Number.isFinite(page.monthlyPageviews) && page.monthlyPageviews >= 0);
+
+  if (pages.length === 0) {
+    throw new AnalysisError('INVALID_REQUEST', "Traffic CSV has no rows with a page and a pageview count");
+  }
+  return pages;
+}
+
+// Traffic rows may hold paths ("/pricing") or URLs; both are keyed like the analyzed page URLs
+function resolveTrafficUrl(url: string, siteUrl: string): string {
+  try {
+    return toUrlKey(new URL(url, siteUrl).toString());
+  } catch {
+    return url;
+  }
+}
+
+function checkPageviews(value: unknown, name: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new AnalysisError('INVALID_REQUEST', `${name} must be a non-negative number`);
+  }
+}
+
+function roundKg(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
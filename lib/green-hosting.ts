@@ -0,0 +1,332 @@
+import { readFileSync } from 'fs';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { AnalysisError, toAnalysisError } from './analysis-errors';
+
+const GREEN_WEB_FOUNDATION_API = 'https://api.thegreenwebfoundation.org/api/v3/greencheck';
+const ONLINE_LOOKUP_TIMEOUT = 5000;
+const MAX_CACHED_HOSTS = 1000;
+
+/**
+ * Offline copy of Green Web Foundation provider data. IP ranges are CIDR blocks or
+ * GWF-style `{ start, end }` pairs; `asnPrefixes` maps an ASN to the prefixes it announces,
+ * so ASN entries can be matched without a network lookup.
+ */
+export interface GreenHostingDataset {
+  providers: GreenHostingProvider[];
+  asnPrefixes?: Record<string, string[]>;
+}
+
+export interface GreenHostingProvider {
+  name: string;
+  website?: string;
+  domains?: string[]; // Hostnames the provider serves; subdomains match too
+  ipRanges?: Array<string | { start: string; end: string }>;
+  asns?: number[];
+  supportingDocuments?: string[]; // Links to the provider's evidence of renewable energy use
+}
+
+export interface GreenHostingResult {
+  hostname: string;
+  green: boolean;
+  source: 'dataset' | 'online' | 'none'; // 'none' when neither the dataset nor the online lookup knows the host
+  provider?: string;
+  providerWebsite?: string;
+  evidence?: {
+    type: 'domain' | 'ip-range' | 'asn' | 'online';
+    detail: string; // e.g. "104.16.1.1 in 104.16.0.0/13"
+    supportingDocuments?: string[];
+  };
+  error?: string; // Why the lookup couldn't complete, e.g. a DNS failure
+}
+
+/**
+ * Online green check for hosts the dataset doesn't know. Returns null when the lookup has no answer.
+ */
+export type OnlineGreenCheck = (hostname: string) => Promise<GreenHostingResult | null>;
+
+export interface GreenHostingOptions {
+  dataset?: GreenHostingDataset | null;
+  onlineCheck?: OnlineGreenCheck | null;
+  resolve?: (hostname: string) => Promise<string[]>; // Hostname to IP addresses (default: DNS)
+}
+
+interface CompiledProvider {
+  provider: GreenHostingProvider;
+  ranges: Array<{ label: string; blockList: BlockList }>;
+}
+
+/**
+ * Decides whether a site runs on green hosting: first from the hostname and its IP addresses
+ * against the offline dataset, then with the online lookup, if one is configured
+ */
+export class GreenHostingService {
+  private providers: CompiledProvider[];
+  private asnPrefixes: Record<string, string[]>;
+  private onlineCheck: OnlineGreenCheck | null;
+  private resolve: (hostname: string) => Promise<string[]>;
+  private cache = new Map<string, Promise<GreenHostingResult>>();
+
+  constructor(options: GreenHostingOptions = {}) {
+    const dataset = options.dataset ?? { providers: [] };
+    this.asnPrefixes = dataset.asnPrefixes ?? {};
+    this.providers = dataset.providers.map(provider => this.compileProvider(provider));
+    this.onlineCheck = options.onlineCheck ?? null;
+    this.resolve = options.resolve ?? (async hostname => (await lookup(hostname, { all: true })).map(entry => entry.address));
+  }
+
+  /**
+   * Look up the host of a URL. Never throws: failed lookups come back as not green, with `error` set.
+   */
+  async check(url: string): Promise<GreenHostingResult> {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    } catch {
+      return { hostname: url, green: false, source: 'none', error: 'Invalid URL' };
+    }
+
+    // Crawls and comparisons check the same host many times. Failed lookups leave the cache once they
+    // settle, so a DNS or network blip doesn't mark the host as not green for the life of the process.
+    const cached = this.cache.get(hostname);
+    if (cached) return cached;
+
+    if (this.cache.size >= MAX_CACHED_HOSTS) this.cache.clear();
+    const result = this.lookupHost(hostname);
+    this.cache.set(hostname, result);
+    result.then(({ error }) => {
+      if (error && this.cache.get(hostname) === result) this.cache.delete(hostname);
+    });
+
+    return result;
+  }
+
+  private async lookupHost(hostname: string): Promise<GreenHostingResult> {
+    const byDomain = this.providers.find(({ provider }) =>
+      provider.domains?.some(domain => hostname === domain.toLowerCase() || hostname.endsWith(`.${domain.toLowerCase()}`))
+    );
+    if (byDomain) {
+      const domain = byDomain.provider.domains!.find(domain => hostname === domain.toLowerCase() || hostname.endsWith(`.${domain.toLowerCase()}`))!;
+      return this.datasetResult(hostname, byDomain.provider, 'domain', `${hostname} is served by ${domain}`);
+    }
+
+    let error: string | undefined;
+    if (this.providers.length > 0) {
+      try {
+        const addresses = isIP(hostname) ? [hostname] : await this.resolve(hostname);
+        for (const address of addresses) {
+          const match = this.matchAddress(address);
+          if (match) return match(hostname);
+        }
+      } catch (lookupError) {
+        error = `Could not resolve ${hostname}: ${lookupError instanceof Error ? lookupError.message : String(lookupError)}`;
+      }
+    }
+
+    if (this.onlineCheck) {
+      try {
+        const online = await this.onlineCheck(hostname);
+        if (online) return online;
+      } catch (onlineError) {
+        console.warn('Online green hosting lookup failed:', onlineError);
+        error = error ?? `Online lookup failed: ${onlineError instanceof Error ? onlineError.message : String(onlineError)}`;
+      }
+    }
+
+    return { hostname, green: false, source: 'none', ...(error ? { error } : {}) };
+  }
+
+  private matchAddress(address: string): ((hostname: string) => GreenHostingResult) | null {
+    const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+
+    for (const { provider, ranges } of this.providers) {
+      const range = ranges.find(({ blockList }) => blockList.check(address, type));
+      if (range) {
+        const evidenceType = range.label.startsWith('AS') ? 'asn' : 'ip-range';
+        return hostname => this.datasetResult(hostname, provider, evidenceType, `${address} in ${range.label}`);
+      }
+    }
+
+    return null;
+  }
+
+  private datasetResult(
+    hostname: string,
+    provider: GreenHostingProvider,
+    type: 'domain' | 'ip-range' | 'asn',
+    detail: string
+  ): GreenHostingResult {
+    return {
+      hostname,
+      green: true,
+      source: 'dataset',
+      provider: provider.name,
+      ...(provider.website ? { providerWebsite: provider.website } : {}),
+      evidence: {
+        type,
+        detail,
+        ...(provider.supportingDocuments?.length ? { supportingDocuments: provider.supportingDocuments } : {}),
+      },
+    };
+  }
+
+  private compileProvider(provider: GreenHostingProvider): CompiledProvider {
+    const ranges: CompiledProvider['ranges'] = [];
+
+    const addRange = (range: string | { start: string; end: string }, label?: string) => {
+      const blockList = new BlockList();
+      if (typeof range === 'string') {
+        const subnet = parseCidr(range);
+        if (!subnet) {
+          throw new AnalysisError('INVALID_REQUEST', `Invalid IP range ${JSON.stringify(range)} for ${provider.name}`);
+        }
+        blockList.addSubnet(subnet.network, subnet.prefix, subnet.type);
+        ranges.push({ label: label ?? range, blockList });
+      } else {
+        blockList.addRange(range.start, range.end, isIP(range.start) === 6 ? 'ipv6' : 'ipv4');
+        ranges.push({ label: label ?? `${range.start}-${range.end}`, blockList });
+      }
+    };
+
+    provider.ipRanges?.forEach(range => addRange(range));
+    provider.asns?.forEach(asn => {
+      (this.asnPrefixes[String(asn)] ?? []).forEach(prefix => addRange(prefix, `AS${asn} (${prefix})`));
+    });
+
+    return { provider, ranges };
+  }
+}
+
+/**
+ * Online lookup against the Green Web Foundation greencheck API
+ */
+export const greenWebFoundationCheck: OnlineGreenCheck = async hostname => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), ONLINE_LOOKUP_TIMEOUT);
+
+  try {
+    const response = await fetch(`${GREEN_WEB_FOUNDATION_API}/${encodeURIComponent(hostname)}`, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Green Web Foundation API returned HTTP ${response.status}`);
+    }
+
+    const data = await response.json() as {
+      green?: boolean;
+      hosted_by?: string;
+      hosted_by_website?: string;
+      supporting_documents?: Array<{ link?: string }>;
+    };
+    if (!data.green) return null;
+
+    const supportingDocuments = (data.supporting_documents ?? []).map(document => document.link).filter((link): link is string => !!link);
+    return {
+      hostname,
+      green: true,
+      source: 'online',
+      ...(data.hosted_by ? { provider: data.hosted_by } : {}),
+      ...(data.hosted_by_website ? { providerWebsite: data.hosted_by_website } : {}),
+      evidence: {
+        type: 'online',
+        detail: 'Green Web Foundation greencheck API',
+        ...(supportingDocuments.length ? { supportingDocuments } : {}),
+      },
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Read and validate a green hosting dataset file
+ */
+export function loadGreenHostingDataset(path: string): GreenHostingDataset {
+  let data: Partial<GreenHostingDataset>;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AnalysisError('INVALID_REQUEST', `Could not read green hosting dataset ${path}: ${message}`, { cause: error });
+  }
+
+  if (!data || !Array.isArray(data.providers)) {
+    throw new AnalysisError('INVALID_REQUEST', `Green hosting dataset ${path} must have a 'providers' array`);
+  }
+
+  data.providers.forEach((provider, index) => {
+    if (!provider || typeof provider.name !== 'string') {
+      throw new AnalysisError('INVALID_REQUEST', `Green hosting dataset ${path}: providers[${index}] needs a 'name'`);
+    }
+
+    const invalid = (provider.ipRanges ?? []).find(range => typeof range === 'string'
+      ? !parseCidr(range)
+      : !isIP(range?.start) || isIP(range.start) !== isIP(range.end));
+    if (invalid !== undefined) {
+      throw new AnalysisError('INVALID_REQUEST', `Green hosting dataset ${path}: invalid IP range ${JSON.stringify(invalid)} for ${provider.name}`);
+    }
+  });
+
+  if (data.asnPrefixes !== undefined && (typeof data.asnPrefixes !== 'object' || data.asnPrefixes === null || Array.isArray(data.asnPrefixes))) {
+    throw new AnalysisError('INVALID_REQUEST', `Green hosting dataset ${path}: 'asnPrefixes' must map ASNs to prefix arrays`);
+  }
+
+  Object.entries(data.asnPrefixes ?? {}).forEach(([asn, prefixes]) => {
+    const invalid = Array.isArray(prefixes) ? prefixes.find(prefix => typeof prefix !== 'string' || !parseCidr(prefix)) : prefixes;
+    if (invalid !== undefined) {
+      throw new AnalysisError('INVALID_REQUEST', `Green hosting dataset ${path}: invalid prefix ${JSON.stringify(invalid)} for AS${asn}`);
+    }
+  });
+
+  return data as GreenHostingDataset;
+}
+
+/**
+ * Split a CIDR block (or a single address) into its network and prefix length, or null when it isn't valid
+ */
+function parseCidr(range: string): { network: string; prefix: number; type: 'ipv4' | 'ipv6' } | null {
+  const [network, prefix, ...rest] = range.split('/');
+  const version = isIP(network);
+  if (!version || rest.length > 0) return null;
+
+  const maxPrefix = version === 6 ? 128 : 32;
+  if (prefix !== undefined && (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix)) return null;
+
+  return { network, prefix: prefix === undefined ? maxPrefix : Number(prefix), type: version === 6 ? 'ipv6' : 'ipv4' };
+}
+
+// Created once per server process from GREEN_HOSTING_DATASET and GREEN_HOSTING_ONLINE
+const globalForGreenHosting = globalThis as unknown as {
+  greenHostingService?: GreenHostingService;
+};
+
+/**
+ * The configured green hosting service. Without a dataset, the online lookup is on unless
+ * GREEN_HOSTING_ONLINE=false; with one, it's off unless GREEN_HOSTING_ONLINE=true.
+ * A broken dataset file fails with CONFIGURATION_ERROR.
+ */
+export function getGreenHostingService(): GreenHostingService {
+  if (!globalForGreenHosting.greenHostingService) {
+    const path = process.env.GREEN_HOSTING_DATASET;
+    const online = process.env.GREEN_HOSTING_ONLINE ? process.env.GREEN_HOSTING_ONLINE === 'true' : !path;
+
+    let dataset: GreenHostingDataset | null;
+    try {
+      dataset = path ? loadGreenHostingDataset(path) : null;
+    } catch (error) {
+      throw new AnalysisError('CONFIGURATION_ERROR', `Invalid GREEN_HOSTING_DATASET: ${toAnalysisError(error).message}`, { cause: error });
+    }
+
+    globalForGreenHosting.greenHostingService = new GreenHostingService({
+      dataset,
+      onlineCheck: online ? greenWebFoundationCheck : null,
+    });
+  }
+
+  return globalForGreenHosting.greenHostingService;
+}
+
+/**
+ * Replace the configured service, e.g. with one using a stub online lookup in tests
+ */
+export function setGreenHostingService(service: GreenHostingService): void {
+  globalForGreenHosting.greenHostingService = service;
+}
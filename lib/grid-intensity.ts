@@ -0,0 +1,143 @@
+import { averageIntensity } from '@tgwf/co2';
+import { AnalysisError } from './analysis-errors';
+
+/**
+ * Where the servers and the visitors are. Countries are ISO 3166 alpha-2 or alpha-3 codes;
+ * the CO2.js regions (e.g. "EU", "WORLD") work too.
+ */
+export interface GridIntensityOptions {
+  dataCenter?: string; // Country or region of the data center
+  audience?: Record<string, number>; // Share of visitors per country, e.g. { DE: 60, FR: 30, US: 10 }
+}
+
+/**
+ * Grid intensities (gCO2e/kWh) in the form CO2.js takes them: a country for the data center,
+ * and numbers for the device and network segments, averaged over the audience
+ */
+export interface Co2GridIntensity {
+  dataCenter?: { country: string };
+  device?: number;
+  network?: number;
+}
+
+// Annual average grid intensity by alpha-3 code, from Ember via CO2.js
+const INTENSITY_BY_COUNTRY: Record<string, number> = averageIntensity.data;
+
+// ISO 3166 alpha-2 codes for the countries in the CO2.js table
+const ALPHA2_TO_ALPHA3: Record<string, string> = {
+  AD: 'AND', AE: 'ARE', AF: 'AFG', AG: 'ATG', AL: 'ALB', AM: 'ARM', AO: 'AGO', AR: 'ARG', AS: 'ASM', AT: 'AUT',
+  AU: 'AUS', AW: 'ABW', AZ: 'AZE', BA: 'BIH', BB: 'BRB', BD: 'BGD', BE: 'BEL', BF: 'BFA', BG: 'BGR', BH: 'BHR',
+  BI: 'BDI', BJ: 'BEN', BN: 'BRN', BO: 'BOL', BR: 'BRA', BS: 'BHS', BT: 'BTN', BW: 'BWA', BY: 'BLR', BZ: 'BLZ',
+  CA: 'CAN', CD: 'COD', CF: 'CAF', CG: 'COG', CH: 'CHE', CI: 'CIV', CK: 'COK', CL: 'CHL', CM: 'CMR', CN: 'CHN',
+  CO: 'COL', CR: 'CRI', CU: 'CUB', CV: 'CPV', CY: 'CYP', CZ: 'CZE', DE: 'DEU', DJ: 'DJI', DK: 'DNK', DM: 'DMA',
+  DO: 'DOM', DZ: 'DZA', EC: 'ECU', EE: 'EST', EG: 'EGY', ER: 'ERI', ES: 'ESP', ET: 'ETH', FI: 'FIN', FJ: 'FJI',
+  FK: 'FLK', FO: 'FRO', FR: 'FRA', GA: 'GAB', GB: 'GBR', GD: 'GRD', GE: 'GEO', GF: 'GUF', GH: 'GHA', GL: 'GRL',
+  GM: 'GMB', GN: 'GIN', GP: 'GLP', GQ: 'GNQ', GR: 'GRC', GT: 'GTM', GU: 'GUM', GW: 'GNB', GY: 'GUY', HK: 'HKG',
+  HN: 'HND', HR: 'HRV', HT: 'HTI', HU: 'HUN', ID: 'IDN', IE: 'IRL', IL: 'ISR', IN: 'IND', IQ: 'IRQ', IR: 'IRN',
+  IS: 'ISL', IT: 'ITA', JM: 'JAM', JO: 'JOR', JP: 'JPN', KE: 'KEN', KG: 'KGZ', KH: 'KHM', KI: 'KIR', KM: 'COM',
+  KN: 'KNA', KP: 'PRK', KR: 'KOR', KW: 'KWT', KY: 'CYM', KZ: 'KAZ', LA: 'LAO', LB: 'LBN', LC: 'LCA', LK: 'LKA',
+  LR: 'LBR', LS: 'LSO', LT: 'LTU', LU: 'LUX', LV: 'LVA', LY: 'LBY', MA: 'MAR', MD: 'MDA', ME: 'MNE', MG: 'MDG',
+  MK: 'MKD', ML: 'MLI', MM: 'MMR', MN: 'MNG', MO: 'MAC', MQ: 'MTQ', MR: 'MRT', MS: 'MSR', MT: 'MLT', MU: 'MUS',
+  MV: 'MDV', MW: 'MWI', MX: 'MEX', MY: 'MYS', MZ: 'MOZ', NA: 'NAM', NC: 'NCL', NE: 'NER', NG: 'NGA', NI: 'NIC',
+  NL: 'NLD', NO: 'NOR', NP: 'NPL', NR: 'NRU', NZ: 'NZL', OM: 'OMN', PA: 'PAN', PE: 'PER', PF: 'PYF', PG: 'PNG',
+  PH: 'PHL', PK: 'PAK', PL: 'POL', PM: 'SPM', PR: 'PRI', PS: 'PSE', PT: 'PRT', PY: 'PRY', QA: 'QAT', RE: 'REU',
+  RO: 'ROU', RS: 'SRB', RU: 'RUS', RW: 'RWA', SA: 'SAU', SB: 'SLB', SC: 'SYC', SD: 'SDN', SE: 'SWE', SG: 'SGP',
+  SI: 'SVN', SK: 'SVK', SL: 'SLE', SN: 'SEN', SO: 'SOM', SR: 'SUR', SS: 'SSD', ST: 'STP', SV: 'SLV', SY: 'SYR',
+  SZ: 'SWZ', TC: 'TCA', TD: 'TCD', TG: 'TGO', TH: 'THA', TJ: 'TJK', TM: 'TKM', TN: 'TUN', TO: 'TON', TR: 'TUR',
+  TT: 'TTO', TW: 'TWN', TZ: 'TZA', UA: 'UKR', UG: 'UGA', US: 'USA', UY: 'URY', UZ: 'UZB', VC: 'VCT', VE: 'VEN',
+  VG: 'VGB', VI: 'VIR', VN: 'VNM', VU: 'VUT', WS: 'WSM', XK: 'XKX', YE: 'YEM', ZA: 'ZAF', ZM: 'ZMB', ZW: 'ZWE',
+  UK: 'GBR', // Common alias
+};
+
+/**
+ * Key of a country or region in the CO2.js intensity table, or null if it has no data
+ */
+export function resolveGridRegion(code: string): string | null {
+  const upper = code.trim().toUpperCase();
+  const key = ALPHA2_TO_ALPHA3[upper] ?? upper;
+  return key in INTENSITY_BY_COUNTRY ? key : null;
+}
+
+/**
+ * Validate grid intensity options from a request body or the CLI
+ */
+export function parseGridIntensity(data: unknown): GridIntensityOptions {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new AnalysisError('INVALID_REQUEST', "gridIntensity must be an object with 'dataCenter' and/or 'audience'");
+  }
+
+  const { dataCenter, audience } = data as Record<string, unknown>;
+  const options: GridIntensityOptions = {};
+
+  if (dataCenter !== undefined) {
+    if (typeof dataCenter !== 'string' || !resolveGridRegion(dataCenter)) {
+      throw new AnalysisError('INVALID_REQUEST', `Unknown data center country or region: ${JSON.stringify(dataCenter)}`);
+    }
+    options.dataCenter = dataCenter;
+  }
+
+  if (audience !== undefined) {
+    if (!audience || typeof audience !== 'object' || Array.isArray(audience) || Object.keys(audience).length === 0) {
+      throw new AnalysisError('INVALID_REQUEST', "gridIntensity.audience must map countries to visitor shares, e.g. { \"DE\": 60, \"FR\": 40 }");
+    }
+
+    Object.entries(audience).forEach(([country, share]) => {
+      if (!resolveGridRegion(country)) {
+        throw new AnalysisError('INVALID_REQUEST', `Unknown audience country or region: ${country}`);
+      }
+      if (typeof share !== 'number' || !Number.isFinite(share) || share <= 0) {
+        throw new AnalysisError('INVALID_REQUEST', `Audience share for ${country} must be a positive number`);
+      }
+    });
+    options.audience = audience as Record<string, number>;
+  }
+
+  return options;
+}
+
+/**
+ * Grid intensity options from query parameters or CLI flags, where the audience is written
+ * as `DE:60,FR:30,US:10`. Returns undefined when neither is set.
+ */
+export function parseGridIntensityParams(dataCenter?: string | null, audience?: string | null): GridIntensityOptions | undefined {
+  if (!dataCenter && !audience) return undefined;
+
+  let shares: Record<string, number> | undefined;
+  if (audience) {
+    shares = {};
+    for (const entry of audience.split(',').map(part => part.trim()).filter(Boolean)) {
+      const [country, share, ...rest] = entry.split(':');
+      if (!country || share === undefined || rest.length > 0) {
+        throw new AnalysisError('INVALID_REQUEST', `Invalid audience entry "${entry}". Use COUNTRY:SHARE, e.g. DE:60,FR:40`);
+      }
+      shares[country.trim()] = Number(share);
+    }
+  }
+
+  return parseGridIntensity({
+    ...(dataCenter ? { dataCenter } : {}),
+    ...(shares ? { audience: shares } : {}),
+  });
+}
+
+/**
+ * Turn grid intensity options into CO2.js `gridIntensity` values. The device and network
+ * segments use the visitor-weighted average of the audience countries; shares don't need to add up to 100.
+ */
+export function toCo2GridIntensity(options: GridIntensityOptions): Co2GridIntensity {
+  const gridIntensity: Co2GridIntensity = {};
+
+  if (options.dataCenter) {
+    gridIntensity.dataCenter = { country: resolveGridRegion(options.dataCenter)! };
+  }
+
+  if (options.audience) {
+    const shares = Object.entries(options.audience);
+    const total = shares.reduce((sum, [, share]) => sum + share, 0);
+    const weighted = shares.reduce((sum, [country, share]) => sum + INTENSITY_BY_COUNTRY[resolveGridRegion(country)!] * share, 0);
+    gridIntensity.device = Math.round((weighted / total) * 100) / 100;
+    gridIntensity.network = gridIntensity.device;
+  }
+
+  return gridIntensity;
+}
@@ -0,0 +1,342 @@
+import type { PageSpeedData, PageSpeedMetric } from './pagespeed-api';
+import { CO2Calculator, CO2CalculationResult, Co2Model, CO2ModelResult } from './co2-calculator';
+import { getGreenHostingService, GreenHostingResult } from './green-hosting';
+import { AnalysisError } from './analysis-errors';
+import { getSiteDomain, isThirdPartyUrl } from './site-domain';
+import type { AnalysisProvider } from './analysis-providers';
+import type { CO2Options } from './report-generator';
+
+// The parts of the HAR 1.2 format used here, plus the `_`-prefixed extensions Chrome adds
+interface HarEntry {
+  pageref?: string;
+  request: { url: string };
+  response: {
+    status: number;
+    headersSize: number; // -1 when unknown
+    bodySize: number; // Compressed body bytes, -1 when unknown
+    content?: { size?: number; mimeType?: string }; // Uncompressed
+    _transferSize?: number; // Chrome: bytes actually received, 0 when served from cache
+  };
+  timings?: { wait?: number };
+  _resourceType?: string; // Chrome: document, script, stylesheet, image, font, media, xhr, fetch, ...
+  _fromCache?: string; // Chrome: 'memory' or 'disk'
+}
+
+interface HarPage {
+  id: string;
+  title: string;
+}
+
+interface HarFile {
+  log: {
+    creator?: { name: string; version: string };
+    pages?: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+type ResourceType = 'document' | 'image' | 'script' | 'stylesheet' | 'font' | 'media' | 'other';
+
+// A HAR has no page load trace or Lighthouse audits, so these are unknown
+const HAR_UNAVAILABLE_METRICS: PageSpeedMetric[] = [
+  'performanceScore',
+  'accessibilityScore',
+  'bestPracticesScore',
+  'seoScore',
+  'firstContentfulPaint',
+  'largestContentfulPaint',
+  'firstInputDelay',
+  'cumulativeLayoutShift',
+  'speedIndex',
+  'totalBlockingTime',
+  'unusedCssBytes',
+  'unusedJsBytes',
+  'unoptimizedImageBytes',
+  'renderBlockingResources',
+  'domSize',
+  'criticalRequestChains',
+];
+
+export interface ThirdPartyDomain {
+  domain: string;
+  requestCount: number;
+  transferSize: number; // Bytes
+}
+
+export interface HarPageSummary {
+  id: string;
+  title: string; // Browsers record the page URL or document title here
+  requestCount: number;
+  transferSize: number; // Bytes
+  co2: number; // Grams for the bytes recorded on the page
+}
+
+export interface HarReport {
+  url: string; // First document requested in the recording
+  generatedAt: string;
+  creator?: string; // Tool that recorded the HAR, e.g. "WebInspector 537.36"
+  requestCount: number;
+  cachedRequestCount: number; // Served from the browser cache, so no bytes were transferred
+  pageSpeedData: PageSpeedData; // Sizes, counts and server response time come from the HAR; other fields are 0
+  pages: HarPageSummary[];
+  thirdParty: {
+    transferSize: number;
+    percentage: number; // Of the total transfer size
+    domains: ThirdPartyDomain[]; // Largest first
+  };
+  hosting: GreenHostingResult; // Green hosting lookup for the first document's host
+  co2Data: CO2CalculationResult; // The flow's CO2 is `totalCO2`; `co2PerVisit` would discount the recorded cache state twice
+  co2Models?: Record<Co2Model, CO2ModelResult>; // Only present when compareModels was requested
+  warnings: string[];
+}
+
+/**
+ * Validate an uploaded HAR file and calculate the CO2 of the traffic it recorded.
+ * Unlike a single cold PageSpeed load, a HAR can cover a whole logged-in flow across several pages.
+ */
+export async function generateHarReport(json: unknown, options: CO2Options = {}): Promise<HarReport> {
+  const har = parseHar(json);
+  const { pages = [], creator } = har.log;
+  const warnings: string[] = [];
+
+  const requests = getCompletedRequests(har);
+  const document = findDocument(requests);
+  const url = document.request.url;
+
+  const estimated = requests.filter(entry => getTransferSize(entry).estimated).length;
+  if (estimated > 0) {
+    warnings.push(`${estimated} of ${requests.length} requests have no recorded transfer size, so their uncompressed size was used.`);
+  }
+
+  const cachedRequestCount = requests.filter(entry => getTransferSize(entry).bytes === 0).length;
+  if (cachedRequestCount > 0) {
+    warnings.push(`${cachedRequestCount} ${cachedRequestCount === 1 ? 'request was' : 'requests were'} served from the browser cache and counted as 0 bytes.`);
+  }
+
+  const co2Calculator = new CO2Calculator({ model: options.model, gridIntensity: options.gridIntensity, visitors: options.visitors });
+  const hosting = await getGreenHostingService().check(url);
+  const greenHosting = hosting.green;
+  const pageSpeedData = buildPageSpeedData(url, requests, document);
+  const thirdPartyDomains = findThirdPartyDomains(url, requests);
+  const thirdPartyBytes = thirdPartyDomains.reduce((total, domain) => total + domain.transferSize, 0);
+
+  const pageSummaries = pages.map(page => {
+    const pageRequests = requests.filter(entry => entry.pageref === page.id);
+    const pageData = buildPageSpeedData(url, pageRequests);
+    return {
+      id: page.id,
+      title: page.title,
+      requestCount: pageRequests.length,
+      transferSize: pageData.totalResourceSize,
+      co2: pageData.totalResourceSize > 0 ? co2Calculator.calculateCO2FromPageSpeed(pageData, greenHosting).totalCO2 : 0,
+    };
+  });
+
+  return {
+    url,
+    generatedAt: new Date().toISOString(),
+    ...(creator ? { creator: `${creator.name} ${creator.version}` } : {}),
+    requestCount: requests.length,
+    cachedRequestCount,
+    pageSpeedData,
+    pages: pageSummaries,
+    thirdParty: {
+      transferSize: thirdPartyBytes,
+      percentage: pageSpeedData.totalResourceSize > 0
+        ? Math.round((thirdPartyBytes / pageSpeedData.totalResourceSize) * 1000) / 10
+        : 0,
+      domains: thirdPartyDomains,
+    },
+    hosting,
+    co2Data: co2Calculator.calculateCO2FromPageSpeed(pageSpeedData, greenHosting),
+    ...(options.compareModels ? { co2Models: co2Calculator.calculateAllModels(pageSpeedData, greenHosting) } : {}),
+    warnings,
+  };
+}
+
+export interface HarImport {
+  url: string; // First document requested in the recording
+  requestCount: number; // Requests of the first page
+  skippedRequestCount: number; // Requests of the later pages in the recording
+  pageSpeedData: PageSpeedData; // Sizes, counts and server response time come from the HAR; other fields are 0
+}
+
+/**
+ * Validate an uploaded HAR file and total the traffic of its first page as PageSpeed-shaped data.
+ * The later pages of a multi-page flow are left out, so the data describes one page load like PageSpeed data does.
+ */
+export function parseHarImport(json: unknown): HarImport {
+  const requests = getCompletedRequests(parseHar(json));
+  const document = findDocument(requests);
+  const url = document.request.url;
+  const pageRequests = document.pageref ? requests.filter(entry => entry.pageref === document.pageref) : requests;
+
+  return {
+    url,
+    requestCount: pageRequests.length,
+    skippedRequestCount: requests.length - pageRequests.length,
+    pageSpeedData: buildPageSpeedData(url, pageRequests, document),
+  };
+}
+
+/**
+ * Provider that serves the traffic of a HAR recording as the data for its first page.
+ * Scores and paint timings are 0, since a HAR has no page load trace.
+ */
+export function createHarProvider(imported: HarImport): AnalysisProvider {
+  return {
+    id: 'har-import',
+    analysisMethod: 'har',
+    async analyze({ url, emit }) {
+      if (url !== imported.url) return null;
+
+      const skipped = imported.skippedRequestCount > 0 ? ` (${imported.skippedRequestCount} requests of later pages left out)` : '';
+      emit('har-imported', `HAR recording of ${imported.requestCount} requests for ${url} imported${skipped}`);
+      return { pageSpeedData: imported.pageSpeedData };
+    },
+  };
+}
+
+function parseHar(json: unknown): HarFile {
+  const log = (json as Partial<HarFile> | null)?.log;
+  if (!log || !Array.isArray(log.entries)) {
+    throw new AnalysisError('INVALID_REQUEST', "Not a HAR file: expected 'log.entries'");
+  }
+
+  const valid = log.entries.every(entry =>
+    typeof entry?.request?.url === 'string' && typeof entry?.response?.status === 'number'
+  );
+  if (!valid) {
+    throw new AnalysisError('INVALID_REQUEST', "HAR entries must have 'request.url' and 'response.status'");
+  }
+
+  return json as HarFile;
+}
+
+function getCompletedRequests(har: HarFile): HarEntry[] {
+  const requests = har.log.entries.filter(entry => !entry.request.url.startsWith('data:') && entry.response.status !== 0);
+  if (requests.length === 0) {
+    throw new AnalysisError('INVALID_REQUEST', 'HAR file has no completed network requests');
+  }
+  return requests;
+}
+
+function findDocument(requests: HarEntry[]): HarEntry {
+  return requests.find(entry => getResourceType(entry) === 'document') ?? requests[0];
+}
+
+/**
+ * Bytes received for a request: Chrome's `_transferSize` when present, otherwise the recorded
+ * headers and compressed body, and only as a last resort the uncompressed content size
+ */
+function getTransferSize(entry: HarEntry): { bytes: number; estimated: boolean } {
+  const { response } = entry;
+
+  if (entry._fromCache) return { bytes: 0, estimated: false };
+  if (typeof response._transferSize === 'number' && response._transferSize >= 0) {
+    return { bytes: response._transferSize, estimated: false };
+  }
+  if (response.bodySize >= 0) {
+    return { bytes: response.bodySize + Math.max(response.headersSize, 0), estimated: false };
+  }
+  return { bytes: Math.max(response.content?.size ?? 0, 0), estimated: true };
+}
+
+function getResourceType(entry: HarEntry): ResourceType {
+  const resourceType = entry._resourceType?.toLowerCase();
+  if (resourceType === 'document' || resourceType === 'image' || resourceType === 'script'
+    || resourceType === 'stylesheet' || resourceType === 'font' || resourceType === 'media') {
+    return resourceType;
+  }
+
+  const mimeType = entry.response.content?.mimeType?.toLowerCase() || '';
+  if (mimeType.includes('html')) return 'document';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.includes('javascript') || mimeType.includes('ecmascript')) return 'script';
+  if (mimeType.includes('css')) return 'stylesheet';
+  if (mimeType.includes('font') || /woff2?|ttf|otf/.test(mimeType)) return 'font';
+  if (mimeType.startsWith('video/') || mimeType.startsWith('audio/')) return 'media';
+  return 'other';
+}
+
+function buildPageSpeedData(url: string, requests: HarEntry[], document?: HarEntry): PageSpeedData {
+  const sizes: Record<ResourceType, number> = { document: 0, image: 0, script: 0, stylesheet: 0, font: 0, media: 0, other: 0 };
+  const counts: Record<ResourceType, number> = { document: 0, image: 0, script: 0, stylesheet: 0, font: 0, media: 0, other: 0 };
+  let thirdPartyBytes = 0;
+
+  requests.forEach(entry => {
+    const type = getResourceType(entry);
+    const bytes = getTransferSize(entry).bytes;
+    sizes[type] += bytes;
+    counts[type]++;
+    if (isThirdPartyUrl(entry.request.url, url)) {
+      thirdPartyBytes += bytes;
+    }
+  });
+
+  return {
+    url,
+    // Scores and paint timings need a page load trace, which a HAR doesn't have
+    performanceScore: 0,
+    accessibilityScore: 0,
+    bestPracticesScore: 0,
+    seoScore: 0,
+    firstContentfulPaint: 0,
+    largestContentfulPaint: 0,
+    firstInputDelay: 0,
+    cumulativeLayoutShift: 0,
+    speedIndex: 0,
+    totalBlockingTime: 0,
+
+    totalResourceSize: Object.values(sizes).reduce((total, size) => total + size, 0),
+    imageResourceSize: sizes.image,
+    scriptResourceSize: sizes.script,
+    stylesheetResourceSize: sizes.stylesheet,
+    fontResourceSize: sizes.font,
+    thirdPartyResourceSize: thirdPartyBytes,
+
+    resourceCounts: {
+      images: counts.image,
+      scripts: counts.script,
+      stylesheets: counts.stylesheet,
+      fonts: counts.font,
+      videos: counts.media,
+      total: requests.length,
+    },
+
+    unusedCssBytes: 0,
+    unusedJsBytes: 0,
+    unoptimizedImageBytes: 0,
+
+    serverResponseTime: Math.round(Math.max(document?.timings?.wait ?? 0, 0)),
+    renderBlockingResources: 0,
+    domSize: 0,
+    criticalRequestChains: 0,
+
+    unavailableMetrics: HAR_UNAVAILABLE_METRICS,
+  };
+}
+
+function findThirdPartyDomains(url: string, requests: HarEntry[]): ThirdPartyDomain[] {
+  const site = getSiteDomain(new URL(url).hostname);
+  const domains = new Map<string, ThirdPartyDomain>();
+
+  requests.forEach(entry => {
+    let hostname: string;
+    try {
+      hostname = new URL(entry.request.url).hostname;
+    } catch {
+      return;
+    }
+
+    const domain = getSiteDomain(hostname);
+    if (domain === site) return;
+
+    const summary = domains.get(domain) ?? { domain, requestCount: 0, transferSize: 0 };
+    summary.requestCount++;
+    summary.transferSize += getTransferSize(entry).bytes;
+    domains.set(domain, summary);
+  });
+
+  return [...domains.values()].sort((a, b) => b.transferSize - a.transferSize);
+}
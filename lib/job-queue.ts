@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  completed: number;
+  total: number;
+  percentage: number;
+}
+
+export interface Job<TInput = unknown, TResult = unknown> {
+  id: string;
+  status: JobStatus;
+  input: TInput;
+  progress: JobProgress;
+  result?: TResult;
+  error?: string;
+  errorCode?: string; // Set when the runner throws an error carrying a `code`
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  reportProgress: (completed: number, total: number) => void;
+}
+
+export type JobRunner<TInput, TResult> = (input: TInput, context: JobContext) => Promise<TResult>;
+
+const FINISHED_JOB_TTL = 60 * 60 * 1000; // Keep finished jobs for 1 hour
+const MAX_RETAINED_JOBS = 500;
+
+/**
+ * In-process job queue that runs analyses in the background with bounded concurrency.
+ * Jobs live in this process's memory only: they are lost on restart, and serverless
+ * invocations that don't share the process can't see each other's jobs.
+ */
+export class JobQueue<TInput = unknown, TResult = unknown> {
+  private jobs = new Map<string, Job<TInput, TResult>>();
+  private controllers = new Map<string, AbortController>();
+  private pending: string[] = [];
+  private running = new Set<string>(); // Jobs holding a concurrency slot
+
+  constructor(private runner: JobRunner<TInput, TResult>, private concurrency: number = 2) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  enqueue(input: TInput): Job<TInput, TResult> {
+    this.prune();
+
+    const job: Job<TInput, TResult> = {
+      id: randomUUID(),
+      status: 'queued',
+      input,
+      progress: { completed: 0, total: 0, percentage: 0 },
+      createdAt: new Date().toISOString(),
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    console.log(`Job ${job.id} queued (${this.pending.length} pending, ${this.running.size} running)`);
+
+    this.drain();
+    return job;
+  }
+
+  get(id: string): Job<TInput, TResult> | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Cancel a queued or running job. Returns undefined if the job does not exist.
+   */
+  cancel(id: string): Job<TInput, TResult> | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter(pendingId => pendingId !== id);
+      this.finish(job, 'cancelled');
+    } else if (job.status === 'running') {
+      // The runner observes the signal and rejects; the status and slot are released here so it is immediate,
+      // even if the runner takes a while to stop
+      this.controllers.get(id)?.abort();
+      this.finish(job, 'cancelled');
+      this.release(id);
+    }
+
+    return job;
+  }
+
+  private drain() {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (job) this.start(job);
+    }
+  }
+
+  private async start(job: Job<TInput, TResult>) {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.running.add(job.id);
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    console.log(`Job ${job.id} started`);
+
+    try {
+      const result = await this.runner(job.input, {
+        signal: controller.signal,
+        reportProgress: (completed, total) => {
+          job.progress = {
+            completed,
+            total,
+            percentage: total > 0 ? Math.round((completed / total) * 100) : 0,
+          };
+        },
+      });
+
+      if (job.status === 'running') {
+        job.result = result;
+        this.finish(job, 'completed');
+      }
+    } catch (error) {
+      if (job.status === 'running') {
+        job.error = error instanceof Error ? error.message : String(error);
+        const code = (error as { code?: unknown })?.code;
+        if (typeof code === 'string') job.errorCode = code;
+        this.finish(job, 'failed');
+      }
+    } finally {
+      this.release(job.id);
+    }
+  }
+
+  private release(id: string) {
+    this.controllers.delete(id);
+    if (this.running.delete(id)) this.drain();
+  }
+
+  private finish(job: Job<TInput, TResult>, status: 'completed' | 'failed' | 'cancelled') {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    if (status === 'completed') {
+      job.progress = { ...job.progress, completed: job.progress.total, percentage: 100 };
+    }
+    console.log(`Job ${job.id} ${status}${job.error ? `: ${job.error}` : ''}`);
+  }
+
+  /**
+   * Drop finished jobs that are expired, or the oldest ones when too many are retained
+   */
+  private prune() {
+    const now = Date.now();
+    const finished = [...this.jobs.values()].filter(job => job.finishedAt);
+
+    finished.forEach(job => {
+      if (now - new Date(job.finishedAt!).getTime() > FINISHED_JOB_TTL) {
+        this.jobs.delete(job.id);
+      }
+    });
+
+    const excess = this.jobs.size - MAX_RETAINED_JOBS;
+    if (excess > 0) {
+      finished
+        .filter(job => this.jobs.has(job.id))
+        .slice(0, excess)
+        .forEach(job => this.jobs.delete(job.id));
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { AnalysisError } from './analysis-errors';
+
+/**
+ * Read an uploaded JSON document, sent either as the raw request body or as the `file` field of a multipart form
+ */
+export async function readJsonUpload(request: Request, description: string): Promise<unknown> {
+  if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    return request.json().catch(() => {
+      throw new AnalysisError('INVALID_REQUEST', "Invalid JSON body");
+    });
+  }
+
+  const formData = await request.formData().catch(() => {
+    throw new AnalysisError('INVALID_REQUEST', "Invalid form data");
+  });
+  const file = formData.get('file');
+  if (!file || typeof file === 'string') {
+    throw new AnalysisError('INVALID_REQUEST', `Missing ${description} in the 'file' field`);
+  }
+
+  return file.text().then(JSON.parse).catch(() => {
+    throw new AnalysisError('INVALID_REQUEST', "Uploaded file is not valid JSON");
+  });
+}
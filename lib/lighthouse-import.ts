@@ -0,0 +1,69 @@
+import { extractPageSpeedData, LighthouseResult, PageSpeedData } from './pagespeed-api';
+import { AnalysisError } from './analysis-errors';
+import type { DeviceStrategy } from './report-types';
+import type { AnalysisProvider } from './analysis-providers';
+
+export interface LighthouseImport {
+  pageSpeedData: PageSpeedData;
+  strategy: DeviceStrategy; // Device the Lighthouse run emulated
+  lighthouseVersion: string;
+}
+
+/**
+ * Validate an uploaded Lighthouse report and extract its PageSpeed data.
+ * Accepts raw Lighthouse JSON or a full PageSpeed Insights response, which wraps it in `lighthouseResult`.
+ */
+export function parseLighthouseReport(json: unknown): LighthouseImport {
+  if (!json || typeof json !== 'object') {
+    throw new AnalysisError('INVALID_REQUEST', 'Lighthouse report must be a JSON object');
+  }
+
+  const result = ('lighthouseResult' in json ? json.lighthouseResult : json) as Partial<LighthouseResult>;
+
+  if (!result || typeof result.audits !== 'object' || typeof result.categories !== 'object' || !result.lighthouseVersion) {
+    throw new AnalysisError('INVALID_REQUEST', "Not a Lighthouse report: expected 'lighthouseVersion', 'audits' and 'categories'");
+  }
+
+  // Lighthouse still writes a report when the page fails to load, but its metrics are empty
+  if (result.runtimeError) {
+    throw new AnalysisError('TARGET_UNREACHABLE', `Lighthouse could not load the page: ${result.runtimeError.message}`, {
+      details: { lighthouseError: result.runtimeError.code },
+    });
+  }
+
+  const pageSpeedData = extractPageSpeedData(result as LighthouseResult);
+
+  try {
+    new URL(pageSpeedData.url);
+  } catch {
+    throw new AnalysisError('INVALID_REQUEST', 'Lighthouse report has no valid page URL');
+  }
+
+  if (pageSpeedData.totalResourceSize === 0) {
+    throw new AnalysisError('INVALID_REQUEST', "Lighthouse report has no transfer sizes. Include the 'resource-summary' or 'network-requests' audit");
+  }
+
+  const formFactor = result.configSettings?.formFactor ?? result.configSettings?.emulatedFormFactor;
+
+  return {
+    pageSpeedData,
+    strategy: formFactor === 'desktop' ? 'desktop' : 'mobile',
+    lighthouseVersion: result.lighthouseVersion,
+  };
+}
+
+/**
+ * Provider that serves an imported Lighthouse report for the page and device it was run against
+ */
+export function createLighthouseProvider(imported: LighthouseImport): AnalysisProvider {
+  return {
+    id: 'lighthouse-import',
+    analysisMethod: 'lighthouse',
+    async analyze({ url, strategy, emit }) {
+      if (url !== imported.pageSpeedData.url || strategy !== imported.strategy) return null;
+
+      emit('lighthouse-imported', `Lighthouse ${imported.lighthouseVersion} report for ${url} imported`);
+      return { pageSpeedData: imported.pageSpeedData };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { execFile } from 'child_process';
+import { AnalysisError } from './analysis-errors';
+import { LighthouseImport, parseLighthouseReport } from './lighthouse-import';
+import type { DeviceStrategy } from './report-types';
+
+const LIGHTHOUSE_TIMEOUT = 90000;
+const MAX_REPORT_SIZE = 64 * 1024 * 1024; // Lighthouse JSON with screenshots runs to several MB
+
+/**
+ * Run the Lighthouse CLI (LIGHTHOUSE_PATH, or `lighthouse` on the PATH) against a URL in headless Chrome
+ * on this machine. Works for intranet and staging pages PageSpeed Insights can't reach.
+ */
+export function runLocalLighthouse(url: string, strategy: DeviceStrategy, signal?: AbortSignal): Promise<LighthouseImport> {
+  const command = process.env.LIGHTHOUSE_PATH || 'lighthouse';
+  const args = [
+    url,
+    '--output=json',
+    '--output-path=stdout',
+    '--quiet',
+    '--chrome-flags=--headless=new',
+    ...(strategy === 'desktop' ? ['--preset=desktop'] : []),
+  ];
+
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: LIGHTHOUSE_TIMEOUT, maxBuffer: MAX_REPORT_SIZE, signal }, (error, stdout, stderr) => {
+      if (signal?.aborted) {
+        reject(new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled'));
+      } else if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+        reject(new AnalysisError('CONFIGURATION_ERROR', `Lighthouse CLI not found at "${command}". Install it with \`npm install -g lighthouse\` or set LIGHTHOUSE_PATH`, { cause: error }));
+      } else if (error?.killed) {
+        reject(new AnalysisError('TIMEOUT', `Local Lighthouse run did not finish within ${LIGHTHOUSE_TIMEOUT / 1000} seconds`, { cause: error }));
+      } else if (error) {
+        const message = stderr.trim().split('\n').pop() || error.message;
+        reject(new AnalysisError('TARGET_UNREACHABLE', `Local Lighthouse run failed: ${message}`, { cause: error }));
+      } else {
+        try {
+          resolve(parseLighthouseReport(JSON.parse(stdout)));
+        } catch (parseError) {
+          reject(parseError instanceof AnalysisError && parseError.code !== 'INVALID_REQUEST'
+            ? parseError
+            : new AnalysisError('TARGET_UNREACHABLE', 'Local Lighthouse run returned no usable report', { cause: parseError }));
+        }
+      }
+    });
+  });
+}
@@ -1,3 +1,6 @@
+import { AnalysisError } from './analysis-errors';
+import { isThirdPartyUrl } from './site-domain';
+
 interface PageSpeedInsightsResponse {
   id: string;
   loadingExperience: {
@@ -15,47 +18,56 @@ interface PageSpeedInsightsResponse {
     };
     overall_category: 'FAST' | 'AVERAGE' | 'SLOW';
   };
-  lighthouseResult: {
-    requestedUrl: string;
-    finalUrl: string;
-    lighthouseVersion: string;
-    userAgent: string;
-    fetchTime: string;
-    environment: {
-      networkUserAgent: string;
-      hostUserAgent: string;
-      benchmarkIndex: number;
-    };
-    runWarnings: string[];
-    configSettings: {
-      emulatedFormFactor: string;
-      locale: string;
-      onlyCategories: string[];
-    };
-    audits: {
-      [key: string]: {
-        id: string;
-        title: string;
-        description: string;
-        score: number | null;
-        scoreDisplayMode: string;
-        numericValue?: number;
-        numericUnit?: string;
-        displayValue?: string;
-        details?: any;
-      };
+  lighthouseResult: LighthouseResult;
+}
+
+/**
+ * Lighthouse report JSON, as embedded in PageSpeed Insights responses or saved by the
+ * `lighthouse` CLI and Chrome DevTools. Field names vary slightly between Lighthouse versions.
+ */
+export interface LighthouseResult {
+  requestedUrl?: string;
+  finalUrl?: string; // Removed in Lighthouse 12
+  finalDisplayedUrl?: string; // Lighthouse 10+
+  lighthouseVersion: string;
+  userAgent?: string;
+  fetchTime: string;
+  environment?: {
+    networkUserAgent: string;
+    hostUserAgent: string;
+    benchmarkIndex: number;
+  };
+  runWarnings: string[];
+  runtimeError?: { code: string; message: string }; // Set when Lighthouse could not load the page
+  configSettings: {
+    formFactor?: 'mobile' | 'desktop'; // Lighthouse 7+
+    emulatedFormFactor?: string;
+    locale: string;
+    onlyCategories: string[] | null;
+  };
+  audits: {
+    [key: string]: {
+      id: string;
+      title: string;
+      description: string;
+      score: number | null;
+      scoreDisplayMode: string;
+      numericValue?: number;
+      numericUnit?: string;
+      displayValue?: string;
+      details?: any;
     };
-    categories: {
-      [key: string]: {
+  };
+  categories: {
+    [key: string]: {
+      id: string;
+      title: string;
+      score: number | null;
+      auditRefs: Array<{
         id: string;
-        title: string;
-        score: number;
-        auditRefs: Array<{
-          id: string;
-          weight: number;
-          group?: string;
-        }>;
-      };
+        weight: number;
+        group?: string;
+      }>;
     };
   };
 }
@@ -81,6 +93,7 @@ export interface PageSpeedData {
   scriptResourceSize: number;
   stylesheetResourceSize: number;
   fontResourceSize: number;
+  thirdPartyResourceSize?: number; // Bytes served by other sites; absent when the data source doesn't say
   
   // Resource counts
   resourceCounts: {
@@ -104,8 +117,13 @@ export interface PageSpeedData {
   // Additional metrics
   domSize: number;
   criticalRequestChains: number;
+
+  unavailableMetrics?: PageSpeedMetric[]; // Metrics the data source can't measure, reported as 0 and left out of scoring
 }
 
+// The numeric metrics of PageSpeed data
+export type PageSpeedMetric = Exclude<keyof PageSpeedData, 'url' | 'resourceCounts' | 'thirdPartyResourceSize' | 'unavailableMetrics'>;
+
 export class PageSpeedAPI {
   private apiKey: string;
   private baseUrl = 'https://www.googleapis.com/pagespeedonline/v5/runPagespeed';
@@ -117,9 +135,9 @@ export class PageSpeedAPI {
     }
   }
 
-  async analyzeUrl(url: string, strategy: 'mobile' | 'desktop' = 'mobile'): Promise<PageSpeedData> {
+  async analyzeUrl(url: string, strategy: 'mobile' | 'desktop' = 'mobile', signal?: AbortSignal): Promise<PageSpeedData> {
     if (!this.apiKey) {
-      throw new Error('Google PageSpeed Insights API key is required');
+      throw new AnalysisError('PAGESPEED_KEY_MISSING', 'Google PageSpeed Insights API key is required');
     }
 
     // Wrap everything in a comprehensive try-catch for AbortError handling
@@ -131,6 +149,11 @@ export class PageSpeedAPI {
         controller.abort();
       }, 100000); // 100 second timeout to prevent any timeout issues
 
+      // Propagate cancellation from the caller (e.g. a cancelled job) to the request
+      const abortFromCaller = () => controller.abort();
+      if (signal?.aborted) controller.abort();
+      signal?.addEventListener('abort', abortFromCaller, { once: true });
+
       try {
         const params = new URLSearchParams({
           url: url,
@@ -154,23 +177,34 @@ export class PageSpeedAPI {
         });
 
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', abortFromCaller);
 
         if (!response.ok) {
           const errorText = await response.text();
           console.error('PageSpeed API Error:', response.status, errorText);
-          throw new Error(`PageSpeed API Error: ${response.status} - ${errorText}`);
+          throw this.classifyApiError(response.status, errorText);
         }
 
         const data: PageSpeedInsightsResponse = await response.json();
         console.log('PageSpeed API response received successfully');
 
-        return this.extractPageSpeedData(data);
+        return extractPageSpeedData(data.lighthouseResult);
       } catch (fetchError) {
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', abortFromCaller);
         throw fetchError;
       }
     } catch (error) {
       console.error('PageSpeed API analysis failed:', error);
+
+      // A caller cancellation is not a timeout - it must not trigger the fallback chain
+      if (signal?.aborted) {
+        throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+      }
+
+      if (error instanceof AnalysisError) {
+        throw error;
+      }
       
       // Handle ALL possible abort/timeout scenarios
       const errorStr = String(error);
@@ -190,157 +224,43 @@ export class PageSpeedAPI {
       
       if (isAbortError) {
         console.log('PageSpeed API was aborted due to timeout, proceeding to fallback...');
-        throw new Error('TIMEOUT_FALLBACK'); // Special error code for timeout handling
+        throw new AnalysisError('TIMEOUT', 'PageSpeed Insights did not respond within 100 seconds', { cause: error });
       }
       
-      throw new Error(`Failed to analyze with PageSpeed Insights: ${errorMessage}`);
+      throw new AnalysisError('PAGESPEED_ERROR', `Failed to analyze with PageSpeed Insights: ${errorMessage}`, { cause: error });
     }
   }
 
-  private extractPageSpeedData(response: PageSpeedInsightsResponse): PageSpeedData {
-    const { lighthouseResult } = response;
-    const { audits, categories } = lighthouseResult;
-
-    // Extract category scores
-    const performanceScore = Math.round((categories.performance?.score || 0) * 100);
-    const accessibilityScore = Math.round((categories.accessibility?.score || 0) * 100);
-    const bestPracticesScore = Math.round((categories['best-practices']?.score || 0) * 100);
-    const seoScore = Math.round((categories.seo?.score || 0) * 100);
-
-    // Extract performance metrics
-    const firstContentfulPaint = audits['first-contentful-paint']?.numericValue || 0;
-    const largestContentfulPaint = audits['largest-contentful-paint']?.numericValue || 0;
-    const firstInputDelay = audits['first-input-delay']?.numericValue || 0;
-    const cumulativeLayoutShift = audits['cumulative-layout-shift']?.numericValue || 0;
-    const speedIndex = audits['speed-index']?.numericValue || 0;
-    const totalBlockingTime = audits['total-blocking-time']?.numericValue || 0;
-
-    // Extract resource data
-    const resourceSummary = audits['resource-summary'];
-    const networkRequests = audits['network-requests'];
-    
-    let totalResourceSize = 0;
-    let imageResourceSize = 0;
-    let scriptResourceSize = 0;
-    let stylesheetResourceSize = 0;
-    let fontResourceSize = 0;
-
-    let resourceCounts = {
-      images: 0,
-      scripts: 0,
-      stylesheets: 0,
-      fonts: 0,
-      videos: 0,
-      total: 0
-    };
-
-    // Parse resource summary if available
-    if (resourceSummary?.details?.items) {
-      resourceSummary.details.items.forEach((item: any) => {
-        const resourceType = item.resourceType?.toLowerCase();
-        const transferSize = item.transferSize || 0;
-        const requestCount = item.requestCount || 0;
-
-        totalResourceSize += transferSize;
-        resourceCounts.total += requestCount;
-
-        switch (resourceType) {
-          case 'image':
-            imageResourceSize += transferSize;
-            resourceCounts.images += requestCount;
-            break;
-          case 'script':
-            scriptResourceSize += transferSize;
-            resourceCounts.scripts += requestCount;
-            break;
-          case 'stylesheet':
-            stylesheetResourceSize += transferSize;
-            resourceCounts.stylesheets += requestCount;
-            break;
-          case 'font':
-            fontResourceSize += transferSize;
-            resourceCounts.fonts += requestCount;
-            break;
-          case 'media':
-            resourceCounts.videos += requestCount;
-            break;
-        }
-      });
+  /**
+   * Map a PageSpeed Insights error response to an error code
+   */
+  private classifyApiError(status: number, errorText: string): AnalysisError {
+    const details = { pageSpeedStatus: status };
+    let message = errorText;
+    try {
+      message = JSON.parse(errorText)?.error?.message || errorText;
+    } catch {
+      // Not a JSON error body
     }
 
-    // Fallback: Parse network requests if resource summary not available
-    if (totalResourceSize === 0 && networkRequests?.details?.items) {
-      networkRequests.details.items.forEach((request: any) => {
-        const transferSize = request.transferSize || 0;
-        const resourceType = request.resourceType?.toLowerCase();
-        const mimeType = request.mimeType?.toLowerCase() || '';
-
-        totalResourceSize += transferSize;
-        resourceCounts.total++;
-
-        if (mimeType.includes('image') || resourceType === 'image') {
-          imageResourceSize += transferSize;
-          resourceCounts.images++;
-        } else if (mimeType.includes('javascript') || resourceType === 'script') {
-          scriptResourceSize += transferSize;
-          resourceCounts.scripts++;
-        } else if (mimeType.includes('css') || resourceType === 'stylesheet') {
-          stylesheetResourceSize += transferSize;
-          resourceCounts.stylesheets++;
-        } else if (mimeType.includes('font') || resourceType === 'font') {
-          fontResourceSize += transferSize;
-          resourceCounts.fonts++;
-        } else if (mimeType.includes('video') || resourceType === 'media') {
-          resourceCounts.videos++;
-        }
-      });
+    if (status === 429 || /quota|rateLimitExceeded|RESOURCE_EXHAUSTED/i.test(errorText)) {
+      return new AnalysisError('PAGESPEED_QUOTA_EXCEEDED', 'PageSpeed Insights quota exceeded. Please try again later.', { details });
     }
 
-    // Extract optimization opportunities
-    const unusedCssBytes = audits['unused-css-rules']?.details?.overallSavingsBytes || 0;
-    const unusedJsBytes = audits['unused-javascript']?.details?.overallSavingsBytes || 0;
-    const unoptimizedImageBytes = audits['uses-optimized-images']?.details?.overallSavingsBytes || 0;
+    if (/API key not valid|API_KEY_INVALID|keyInvalid/i.test(errorText)) {
+      return new AnalysisError('PAGESPEED_KEY_INVALID', 'The Google PageSpeed Insights API key is not valid', { details });
+    }
 
-    // Extract server metrics
-    const serverResponseTime = audits['server-response-time']?.numericValue || 0;
-    const renderBlockingResources = audits['render-blocking-resources']?.details?.items?.length || 0;
+    // Lighthouse runtime errors: the target page itself could not be loaded
+    if (/DNS_FAILURE|FAILED_DOCUMENT_REQUEST|ERRORED_DOCUMENT_REQUEST|NO_FCP|NOT_HTML/.test(errorText)) {
+      return new AnalysisError('TARGET_UNREACHABLE', `PageSpeed Insights could not load the page: ${message}`, { details });
+    }
 
-    // Extract DOM size
-    const domSize = audits['dom-size']?.numericValue || 0;
-    const criticalRequestChains = audits['critical-request-chains']?.details?.longestChain?.length || 0;
+    if (status === 400) {
+      return new AnalysisError('INVALID_URL', `PageSpeed Insights rejected the URL: ${message}`, { details });
+    }
 
-    return {
-      url: lighthouseResult.finalUrl,
-      performanceScore,
-      accessibilityScore,
-      bestPracticesScore,
-      seoScore,
-      
-      firstContentfulPaint,
-      largestContentfulPaint,
-      firstInputDelay,
-      cumulativeLayoutShift,
-      speedIndex,
-      totalBlockingTime,
-      
-      totalResourceSize,
-      imageResourceSize,
-      scriptResourceSize,
-      stylesheetResourceSize,
-      fontResourceSize,
-      
-      resourceCounts,
-      
-      unusedCssBytes,
-      unusedJsBytes,
-      unoptimizedImageBytes,
-      
-      serverResponseTime,
-      renderBlockingResources,
-      
-      domSize,
-      criticalRequestChains,
-    };
+    return new AnalysisError('PAGESPEED_ERROR', `PageSpeed API Error: ${status} - ${message}`, { details });
   }
 
   // Method to analyze without API key (fallback)
@@ -370,6 +290,7 @@ export class PageSpeedAPI {
     const scriptResourceSize = totalResourceSize * (0.1 + this.seededRandom(seed, 12) * 0.3); // 10-40% of total
     const stylesheetResourceSize = totalResourceSize * (0.05 + this.seededRandom(seed, 13) * 0.1); // 5-15% of total
     const fontResourceSize = totalResourceSize * (0.02 + this.seededRandom(seed, 14) * 0.05); // 2-7% of total
+    const thirdPartyResourceSize = totalResourceSize * (0.1 + this.seededRandom(seed, 27) * 0.3); // 10-40% of total
 
     const resourceCounts = {
       images: Math.floor(this.seededRandom(seed, 15) * 20) + 5, // 5-25
@@ -400,6 +321,7 @@ export class PageSpeedAPI {
       scriptResourceSize: Math.round(scriptResourceSize),
       stylesheetResourceSize: Math.round(stylesheetResourceSize),
       fontResourceSize: Math.round(fontResourceSize),
+      thirdPartyResourceSize: Math.round(thirdPartyResourceSize),
       
       resourceCounts,
       
@@ -439,3 +361,168 @@ export class PageSpeedAPI {
     return x - Math.floor(x);
   }
 }
+
+/**
+ * Extract the metrics used for sustainability scoring from a Lighthouse report
+ */
+export function extractPageSpeedData(lighthouseResult: LighthouseResult): PageSpeedData {
+  const { audits, categories } = lighthouseResult;
+  const url = lighthouseResult.finalDisplayedUrl || lighthouseResult.finalUrl || lighthouseResult.requestedUrl || '';
+
+  // Extract category scores
+  const performanceScore = Math.round((categories.performance?.score || 0) * 100);
+  const accessibilityScore = Math.round((categories.accessibility?.score || 0) * 100);
+  const bestPracticesScore = Math.round((categories['best-practices']?.score || 0) * 100);
+  const seoScore = Math.round((categories.seo?.score || 0) * 100);
+
+  // Extract performance metrics
+  const firstContentfulPaint = audits['first-contentful-paint']?.numericValue || 0;
+  const largestContentfulPaint = audits['largest-contentful-paint']?.numericValue || 0;
+  const firstInputDelay = audits['first-input-delay']?.numericValue || 0;
+  const cumulativeLayoutShift = audits['cumulative-layout-shift']?.numericValue || 0;
+  const speedIndex = audits['speed-index']?.numericValue || 0;
+  const totalBlockingTime = audits['total-blocking-time']?.numericValue || 0;
+
+  // Extract resource data
+  const resourceSummary = audits['resource-summary'];
+  const networkRequests = audits['network-requests'];
+  
+  let totalResourceSize = 0;
+  let imageResourceSize = 0;
+  let scriptResourceSize = 0;
+  let stylesheetResourceSize = 0;
+  let fontResourceSize = 0;
+  let thirdPartyResourceSize: number | undefined;
+
+  let resourceCounts = {
+    images: 0,
+    scripts: 0,
+    stylesheets: 0,
+    fonts: 0,
+    videos: 0,
+    total: 0
+  };
+
+  // Parse resource summary if available
+  if (resourceSummary?.details?.items) {
+    resourceSummary.details.items.forEach((item: any) => {
+      const resourceType = item.resourceType?.toLowerCase();
+      const transferSize = item.transferSize || 0;
+      const requestCount = item.requestCount || 0;
+
+      if (resourceType === 'third-party') {
+        thirdPartyResourceSize = transferSize;
+      }
+
+      // The 'total' and 'third-party' rows summarize the per-type rows, so counting them would double the totals
+      if (resourceType === 'total' || resourceType === 'third-party') return;
+
+      totalResourceSize += transferSize;
+      resourceCounts.total += requestCount;
+
+      switch (resourceType) {
+        case 'image':
+          imageResourceSize += transferSize;
+          resourceCounts.images += requestCount;
+          break;
+        case 'script':
+          scriptResourceSize += transferSize;
+          resourceCounts.scripts += requestCount;
+          break;
+        case 'stylesheet':
+          stylesheetResourceSize += transferSize;
+          resourceCounts.stylesheets += requestCount;
+          break;
+        case 'font':
+          fontResourceSize += transferSize;
+          resourceCounts.fonts += requestCount;
+          break;
+        case 'media':
+          resourceCounts.videos += requestCount;
+          break;
+      }
+    });
+  }
+
+  // Fallback: Parse network requests if resource summary not available
+  if (totalResourceSize === 0 && networkRequests?.details?.items) {
+    networkRequests.details.items.forEach((request: any) => {
+      const transferSize = request.transferSize || 0;
+      const resourceType = request.resourceType?.toLowerCase();
+      const mimeType = request.mimeType?.toLowerCase() || '';
+
+      totalResourceSize += transferSize;
+      resourceCounts.total++;
+
+      if (mimeType.includes('image') || resourceType === 'image') {
+        imageResourceSize += transferSize;
+        resourceCounts.images++;
+      } else if (mimeType.includes('javascript') || resourceType === 'script') {
+        scriptResourceSize += transferSize;
+        resourceCounts.scripts++;
+      } else if (mimeType.includes('css') || resourceType === 'stylesheet') {
+        stylesheetResourceSize += transferSize;
+        resourceCounts.stylesheets++;
+      } else if (mimeType.includes('font') || resourceType === 'font') {
+        fontResourceSize += transferSize;
+        resourceCounts.fonts++;
+      } else if (mimeType.includes('video') || resourceType === 'media') {
+        resourceCounts.videos++;
+      }
+    });
+  }
+
+  // Without a 'third-party' summary row, count the bytes of requests to other sites
+  if (thirdPartyResourceSize === undefined && url && networkRequests?.details?.items) {
+    thirdPartyResourceSize = networkRequests.details.items
+      .filter((request: any) => isThirdPartyUrl(request.url || '', url))
+      .reduce((total: number, request: any) => total + (request.transferSize || 0), 0);
+  }
+
+  // Extract optimization opportunities
+  const unusedCssBytes = audits['unused-css-rules']?.details?.overallSavingsBytes || 0;
+  const unusedJsBytes = audits['unused-javascript']?.details?.overallSavingsBytes || 0;
+  const unoptimizedImageBytes = audits['uses-optimized-images']?.details?.overallSavingsBytes || 0;
+
+  // Extract server metrics
+  const serverResponseTime = audits['server-response-time']?.numericValue || 0;
+  const renderBlockingResources = audits['render-blocking-resources']?.details?.items?.length || 0;
+
+  // Extract DOM size
+  const domSize = audits['dom-size']?.numericValue || 0;
+  const criticalRequestChains = audits['critical-request-chains']?.details?.longestChain?.length || 0;
+
+  return {
+    url,
+    performanceScore,
+    accessibilityScore,
+    bestPracticesScore,
+    seoScore,
+    
+    firstContentfulPaint,
+    largestContentfulPaint,
+    firstInputDelay,
+    cumulativeLayoutShift,
+    speedIndex,
+    totalBlockingTime,
+    
+    totalResourceSize,
+    imageResourceSize,
+    scriptResourceSize,
+    stylesheetResourceSize,
+    fontResourceSize,
+    ...(thirdPartyResourceSize !== undefined ? { thirdPartyResourceSize } : {}),
+    
+    resourceCounts,
+    
+    unusedCssBytes,
+    unusedJsBytes,
+    unoptimizedImageBytes,
+    
+    serverResponseTime,
+    renderBlockingResources,
+    
+    domSize,
+    criticalRequestChains,
+  };
+}
@@ -0,0 +1,148 @@
+import type { SustainabilityReport } from './report-types';
+import type { AnalysisErrorCode } from './analysis-errors';
+
+export type ComparisonCategory = 'co2' | 'resourceSizes' | 'coreWebVitals' | 'sustainabilityScores';
+
+export interface ComparisonResult {
+  url: string;
+  report?: SustainabilityReport;
+  error?: { code: AnalysisErrorCode; message: string };
+}
+
+export interface ComparisonValue {
+  url: string;
+  value?: number; // Missing when the report has no value for this metric (e.g. basic analysis)
+  delta?: number; // value - baseline value
+  deltaPercentage?: number; // Relative to the baseline value, rounded to one decimal
+}
+
+export interface ComparisonMetric {
+  key: string;
+  label: string;
+  category: ComparisonCategory;
+  unit: 'g' | 'bytes' | 'ms' | 'score' | '';
+  lowerIsBetter: boolean;
+  values: ComparisonValue[]; // In the order the URLs were requested
+  winner: string | null; // URL with the best value, null on a tie or with fewer than two values
+}
+
+export interface ComparisonReport {
+  baselineUrl: string; // First successfully analyzed URL; deltas are relative to it
+  urls: string[];
+  generatedAt: string;
+  results: ComparisonResult[];
+  metrics: ComparisonMetric[];
+  categoryWinners: Record<ComparisonCategory, string | null>; // URL winning the most metrics per category
+  warnings: string[];
+}
+
+interface MetricDefinition {
+  key: string;
+  label: string;
+  category: ComparisonCategory;
+  unit: ComparisonMetric['unit'];
+  lowerIsBetter: boolean;
+  read: (report: SustainabilityReport) => number | undefined;
+}
+
+const METRICS: MetricDefinition[] = [
+  {
+    key: 'co2PerVisit', label: 'CO2 per Visit', category: 'co2', unit: 'g', lowerIsBetter: true,
+    read: report => report.co2Data?.co2PerVisit ?? report.analysisData.actualCarbonFootprint,
+  },
+  { key: 'totalResourceSize', label: 'Total Size', category: 'resourceSizes', unit: 'bytes', lowerIsBetter: true, read: report => report.analysisData.totalResourceSize },
+  { key: 'imageResourceSize', label: 'Images', category: 'resourceSizes', unit: 'bytes', lowerIsBetter: true, read: report => report.analysisData.imageResourceSize },
+  { key: 'scriptResourceSize', label: 'Scripts', category: 'resourceSizes', unit: 'bytes', lowerIsBetter: true, read: report => report.analysisData.scriptResourceSize },
+  { key: 'stylesheetResourceSize', label: 'Stylesheets', category: 'resourceSizes', unit: 'bytes', lowerIsBetter: true, read: report => report.analysisData.stylesheetResourceSize },
+  { key: 'fontResourceSize', label: 'Fonts', category: 'resourceSizes', unit: 'bytes', lowerIsBetter: true, read: report => report.analysisData.fontResourceSize },
+  { key: 'largestContentfulPaint', label: 'Largest Contentful Paint', category: 'coreWebVitals', unit: 'ms', lowerIsBetter: true, read: report => report.analysisData.largestContentfulPaint },
+  { key: 'cumulativeLayoutShift', label: 'Cumulative Layout Shift', category: 'coreWebVitals', unit: '', lowerIsBetter: true, read: report => report.analysisData.cumulativeLayoutShift },
+  { key: 'totalBlockingTime', label: 'Total Blocking Time', category: 'coreWebVitals', unit: 'ms', lowerIsBetter: true, read: report => report.analysisData.totalBlockingTime },
+  { key: 'firstContentfulPaint', label: 'First Contentful Paint', category: 'coreWebVitals', unit: 'ms', lowerIsBetter: true, read: report => report.analysisData.firstContentfulPaint },
+  { key: 'energyEfficiency', label: 'Energy Efficiency', category: 'sustainabilityScores', unit: 'score', lowerIsBetter: false, read: report => report.energyEfficiency },
+  { key: 'carbonFootprint', label: 'Carbon Footprint', category: 'sustainabilityScores', unit: 'score', lowerIsBetter: false, read: report => report.carbonFootprint },
+  { key: 'resourceOptimization', label: 'Resource Optimization', category: 'sustainabilityScores', unit: 'score', lowerIsBetter: false, read: report => report.resourceOptimization },
+  { key: 'accessibility', label: 'Accessibility', category: 'sustainabilityScores', unit: 'score', lowerIsBetter: false, read: report => report.accessibility },
+];
+
+const CATEGORIES: ComparisonCategory[] = ['co2', 'resourceSizes', 'coreWebVitals', 'sustainabilityScores'];
+
+/**
+ * Build a comparison report from per-URL analysis results. The first successful URL is the baseline.
+ */
+export function compareReports(results: ComparisonResult[]): ComparisonReport {
+  const successful = results.filter((result): result is ComparisonResult & { report: SustainabilityReport } => !!result.report);
+  const baseline = successful[0];
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const metrics: ComparisonMetric[] = METRICS.map(definition => {
+    const baselineValue = baseline ? definition.read(baseline.report) : undefined;
+
+    const values: ComparisonValue[] = successful.map(({ url, report }) => {
+      const value = definition.read(report);
+      if (value === undefined || baselineValue === undefined) return { url, value };
+
+      return {
+        url,
+        value,
+        delta: value - baselineValue,
+        ...(baselineValue !== 0 ? { deltaPercentage: round(((value - baselineValue) / baselineValue) * 100) } : {}),
+      };
+    });
+
+    return {
+      key: definition.key,
+      label: definition.label,
+      category: definition.category,
+      unit: definition.unit,
+      lowerIsBetter: definition.lowerIsBetter,
+      values,
+      winner: pickWinner(values, definition.lowerIsBetter),
+    };
+  });
+
+  const categoryWinners = {} as Record<ComparisonCategory, string | null>;
+  CATEGORIES.forEach(category => {
+    const wins = new Map<string, number>();
+    metrics
+      .filter(metric => metric.category === category && metric.winner)
+      .forEach(metric => wins.set(metric.winner!, (wins.get(metric.winner!) || 0) + 1));
+
+    const ranked = [...wins.entries()].sort((a, b) => b[1] - a[1]);
+    categoryWinners[category] = ranked.length > 0 && (ranked.length === 1 || ranked[0][1] > ranked[1][1]) ? ranked[0][0] : null;
+  });
+
+  const warnings: string[] = [];
+  const methods = new Set(successful.map(result => result.report.analysisMethod));
+  if (methods.size > 1) {
+    warnings.push(`Sites were analyzed with different methods (${[...methods].join(', ')}), so their values are not directly comparable.`);
+  }
+  successful
+    .filter(result => result.report.analysisMethod === 'simulated')
+    .forEach(result => warnings.push(`${result.url} uses simulated data.`));
+  results
+    .filter(result => result.error)
+    .forEach(result => warnings.push(`${result.url} could not be analyzed: ${result.error!.message}`));
+
+  return {
+    baselineUrl: baseline?.url ?? results[0]?.url ?? '',
+    urls: results.map(result => result.url),
+    generatedAt: new Date().toISOString(),
+    results,
+    metrics,
+    categoryWinners,
+    warnings,
+  };
+}
+
+function pickWinner(values: ComparisonValue[], lowerIsBetter: boolean): string | null {
+  const measured = values.filter((entry): entry is ComparisonValue & { value: number } => entry.value !== undefined);
+  if (measured.length < 2) return null;
+
+  const best = lowerIsBetter
+    ? Math.min(...measured.map(entry => entry.value))
+    : Math.max(...measured.map(entry => entry.value));
+  const leaders = measured.filter(entry => entry.value === best);
+
+  return leaders.length === 1 ? leaders[0].url : null;
+}
@@ -0,0 +1,208 @@
+import type { StoredReport, StoredReportSummary } from './report-types';
+import type { GridIntensityOptions } from './grid-intensity';
+import { DEFAULT_VISITOR_BEHAVIOR, VisitorBehavior } from './visitor-behavior';
+
+type FieldValue = number | string | boolean;
+
+export interface FieldChange {
+  field: string; // Dotted path, e.g. `totalResourceSize` or `resourceCounts.images`
+  before?: FieldValue;
+  after?: FieldValue;
+  delta?: number; // Numeric fields only: after - before
+  deltaPercentage?: number; // Relative to the before value, rounded to one decimal
+}
+
+export interface CO2ComponentChange {
+  component: 'dataCenterCO2' | 'networkCO2' | 'deviceCO2' | 'operationalCO2' | 'embodiedCO2';
+  before: number; // Grams
+  after: number;
+  delta: number;
+  deltaPercentage?: number;
+}
+
+export interface RecommendationChanges {
+  appeared: string[]; // Only in the after report
+  resolved: string[]; // Only in the before report
+  changed: Array<{ before: string; after: string }>; // Same advice with different numbers
+}
+
+export interface ReportDiff {
+  url: string;
+  before: StoredReportSummary;
+  after: StoredReportSummary;
+  source: 'pageSpeedData' | 'analysisData'; // Raw PageSpeed data when both reports have it
+  summary: {
+    overallScore: FieldChange;
+    co2PerVisit?: FieldChange;
+    totalResourceSize?: FieldChange;
+  };
+  changedFields: FieldChange[];
+  unchangedFieldCount: number;
+  co2Breakdown: CO2ComponentChange[]; // Empty unless both reports have CO2.js data
+  recommendations: RecommendationChanges;
+  warnings: string[];
+}
+
+const CO2_COMPONENTS: CO2ComponentChange['component'][] = ['dataCenterCO2', 'networkCO2', 'deviceCO2', 'operationalCO2', 'embodiedCO2'];
+
+/**
+ * Structured diff between two saved reports of the same URL
+ */
+export function diffStoredReports(before: StoredReport, after: StoredReport): ReportDiff {
+  const warnings: string[] = [];
+
+  if (before.analysisMethod !== after.analysisMethod) {
+    warnings.push(`The reports use different analysis methods (${before.analysisMethod} → ${after.analysisMethod}), so some changes come from the method rather than the site.`);
+  }
+  if (before.strategy !== after.strategy) {
+    warnings.push(`The reports use different device strategies (${before.strategy} → ${after.strategy}).`);
+  }
+  const beforeModel = before.report.inputs?.model ?? before.report.co2Data?.model;
+  const afterModel = after.report.inputs?.model ?? after.report.co2Data?.model;
+  if (beforeModel && afterModel && beforeModel !== afterModel) {
+    warnings.push(`The reports use different emissions models (${beforeModel} → ${afterModel}), so CO2 changes come from the methodology rather than the site.`);
+  }
+  const beforeGrid = describeGridIntensity(before.report.inputs?.gridIntensity);
+  const afterGrid = describeGridIntensity(after.report.inputs?.gridIntensity);
+  if (beforeGrid !== afterGrid) {
+    warnings.push(`The reports use different grid intensities (${beforeGrid} → ${afterGrid}), so CO2 changes partly come from the assumed locations.`);
+  }
+  const beforeVisitors = describeVisitors(before.report.inputs?.visitors ?? before.report.co2Data?.visitAssumptions);
+  const afterVisitors = describeVisitors(after.report.inputs?.visitors ?? after.report.co2Data?.visitAssumptions);
+  if (beforeVisitors !== afterVisitors) {
+    warnings.push(`The reports assume different visitor behavior (${beforeVisitors} → ${afterVisitors}), so CO2 per visit partly changes with the assumptions.`);
+  }
+  if (new Date(before.createdAt).getTime() > new Date(after.createdAt).getTime()) {
+    warnings.push('The "before" report is newer than the "after" report.');
+  }
+
+  // Raw PageSpeed data has every field; basic analyses only have the report's analysisData
+  const usePageSpeedData = !!(before.pageSpeedData && after.pageSpeedData);
+  if (!usePageSpeedData) {
+    warnings.push('Raw PageSpeed data is missing from at least one report, so report analysisData fields were compared instead.');
+  }
+
+  const beforeFields = flattenFields(usePageSpeedData ? before.pageSpeedData : before.report.analysisData);
+  const afterFields = flattenFields(usePageSpeedData ? after.pageSpeedData : after.report.analysisData);
+  const fieldNames = [...new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])];
+
+  const changedFields = fieldNames
+    .filter(field => beforeFields[field] !== afterFields[field])
+    .map(field => toFieldChange(field, beforeFields[field], afterFields[field]));
+
+  const beforeCO2 = before.report.co2Data;
+  const afterCO2 = after.report.co2Data;
+  const co2Breakdown: CO2ComponentChange[] = beforeCO2 && afterCO2
+    ? CO2_COMPONENTS.map(component => {
+        const change = toFieldChange(component, beforeCO2.breakdown[component], afterCO2.breakdown[component]);
+        return {
+          component,
+          before: beforeCO2.breakdown[component],
+          after: afterCO2.breakdown[component],
+          delta: change.delta!,
+          ...(change.deltaPercentage !== undefined ? { deltaPercentage: change.deltaPercentage } : {}),
+        };
+      })
+    : [];
+
+  const totalResourceSize = (report: StoredReport) =>
+    report.pageSpeedData?.totalResourceSize ?? report.report.analysisData.totalResourceSize;
+  const co2PerVisit = (report: StoredReport) =>
+    report.report.co2Data?.co2PerVisit ?? report.report.analysisData.actualCarbonFootprint;
+
+  return {
+    url: after.url,
+    before: toSummary(before),
+    after: toSummary(after),
+    source: usePageSpeedData ? 'pageSpeedData' : 'analysisData',
+    summary: {
+      overallScore: toFieldChange('overallScore', before.overallScore, after.overallScore),
+      co2PerVisit: toFieldChange('co2PerVisit', co2PerVisit(before), co2PerVisit(after)),
+      ...(totalResourceSize(before) !== undefined && totalResourceSize(after) !== undefined
+        ? { totalResourceSize: toFieldChange('totalResourceSize', totalResourceSize(before), totalResourceSize(after)) }
+        : {}),
+    },
+    changedFields,
+    unchangedFieldCount: fieldNames.length - changedFields.length,
+    co2Breakdown,
+    recommendations: diffRecommendations(before.report.recommendations, after.report.recommendations),
+    warnings,
+  };
+}
+
+/**
+ * Match recommendations by their wording with numbers ignored, so "Remove unused CSS (120KB)"
+ * and "Remove unused CSS (80KB)" count as the same advice that changed rather than one resolved and one new
+ */
+function diffRecommendations(before: string[], after: string[]): RecommendationChanges {
+  // Method notes ("Note: ...", "✓ ...") describe the analysis, not the site
+  const isAdvice = (text: string) => !text.startsWith('Note:') && !text.startsWith('✓');
+  const keyOf = (text: string) => text.replace(/\d+(\.\d+)?/g, '#');
+
+  const beforeByKey = new Map(before.filter(isAdvice).map(text => [keyOf(text), text]));
+  const afterByKey = new Map(after.filter(isAdvice).map(text => [keyOf(text), text]));
+
+  const changes: RecommendationChanges = { appeared: [], resolved: [], changed: [] };
+
+  afterByKey.forEach((text, key) => {
+    const previous = beforeByKey.get(key);
+    if (previous === undefined) {
+      changes.appeared.push(text);
+    } else if (previous !== text) {
+      changes.changed.push({ before: previous, after: text });
+    }
+  });
+  beforeByKey.forEach((text, key) => {
+    if (!afterByKey.has(key)) changes.resolved.push(text);
+  });
+
+  return changes;
+}
+
+// Reports without grid intensity options used the global average for every segment
+function describeGridIntensity(gridIntensity?: GridIntensityOptions): string {
+  const parts = [
+    ...(gridIntensity?.dataCenter ? [`data center ${gridIntensity.dataCenter}`] : []),
+    ...(gridIntensity?.audience ? [`audience ${Object.entries(gridIntensity.audience).map(([country, share]) => `${country}:${share}`).join(',')}`] : []),
+  ];
+  return parts.length > 0 ? parts.join(', ') : 'global average';
+}
+
+// Reports without visitor options used the default visitor behavior
+function describeVisitors(visitors: VisitorBehavior = DEFAULT_VISITOR_BEHAVIOR): string {
+  const percent = (share: number) => `${Math.round(share * 1000) / 10}%`;
+  return `${percent(visitors.returnVisitPercentage)} return visits reloading ${percent(visitors.dataReloadRatio)}`;
+}
+
+function flattenFields(data: object | undefined, prefix = ''): Record<string, FieldValue> {
+  const fields: Record<string, FieldValue> = {};
+
+  Object.entries(data || {}).forEach(([key, value]) => {
+    // Lists such as unavailableMetrics describe the data source, not a measured value
+    if (Array.isArray(value)) return;
+    if (value && typeof value === 'object') {
+      Object.assign(fields, flattenFields(value, `${prefix}${key}.`));
+    } else if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+      fields[`${prefix}${key}`] = value;
+    }
+  });
+
+  return fields;
+}
+
+function toFieldChange(field: string, before?: FieldValue, after?: FieldValue): FieldChange {
+  const change: FieldChange = { field, before, after };
+
+  if (typeof before === 'number' && typeof after === 'number') {
+    change.delta = after - before;
+    if (before !== 0) {
+      change.deltaPercentage = Math.round(((after - before) / before) * 1000) / 10;
+    }
+  }
+
+  return change;
+}
+
+function toSummary({ report, pageSpeedData, ...summary }: StoredReport): StoredReportSummary {
+  return summary;
+}
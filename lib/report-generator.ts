@@ -0,0 +1,544 @@
+import { toPageSpeedData, WebsiteAnalysis, WebsiteAnalyzer } from "./website-analyzer";
+import { PageSpeedAPI, PageSpeedData } from "./pagespeed-api";
+import { CO2Calculator, Co2Model, getConfiguredCo2Model } from "./co2-calculator";
+import { AnalysisError, toAnalysisError } from "./analysis-errors";
+import { AnalysisProvider, getConfiguredProviders, runProviderChain, throwIfCancelled } from "./analysis-providers";
+import { buildProvenance } from "./report-provenance";
+import { getReportRepository } from "./report-history";
+import { evaluateBudget, SustainabilityBudget } from "./budget";
+import { getConfiguredBudget } from "./budget-file";
+import { getGreenHostingService, GreenHostingResult } from "./green-hosting";
+import type { GridIntensityOptions } from "./grid-intensity";
+import type { VisitAssumptions } from "./visitor-behavior";
+import { projectEmissions, TrafficInput } from "./emissions-projection";
+import { summarizePage } from "./site-report";
+import { createLighthouseProvider, parseLighthouseReport } from "./lighthouse-import";
+import { createHarProvider, parseHarImport } from "./har-import";
+import {
+  AnalysisMethod,
+  AnalysisMode,
+  AnalysisStage,
+  AnalysisStageId,
+  DeviceStrategy,
+  REPORT_SCHEMA_VERSION,
+  StrategyOption,
+  StrategyResult,
+  SustainabilityReport,
+} from "./report-types";
+
+export interface ReportOptions {
+  strategy?: StrategyOption; // PageSpeed Insights device strategy (default: mobile)
+  mode?: AnalysisMode; // 'strict' never falls back to simulated data (default: best-effort)
+  persist?: boolean; // Save the report to the report history (default: true)
+  budget?: SustainabilityBudget; // Rules to check the report against (default: the BUDGET_PATH file, if set)
+  providers?: AnalysisProvider[]; // Data sources to try in order (default: the ANALYSIS_PROVIDERS chain)
+  gridIntensity?: GridIntensityOptions; // Data center and audience locations (default: global average grid intensity)
+  model?: Co2Model; // Emissions model (default: CO2_MODEL, or SWD v4)
+  compareModels?: boolean; // Also calculate CO2 with every model, in `co2Models`
+  visitors?: VisitAssumptions; // First and return visit shares (default: 75% first visits, 2% reloaded on return)
+  traffic?: TrafficInput; // Monthly pageviews to project annual emissions from, in `projection`
+  signal?: AbortSignal; // Cancels the analysis, including in-flight PageSpeed requests
+  analyzer?: WebsiteAnalyzer; // Fetches the page for basic analysis; a crawl shares one so robots.txt is read once per origin
+  onLinks?: (links: string[]) => void; // Called with the page's same-origin links when the analysis fetched its HTML
+  onStage?: (stage: AnalysisStage) => void; // Called as each pipeline stage happens
+}
+
+// The options that change how CO2 is calculated, passed through to every page of crawls, sitemaps and comparisons
+export type CO2Options = Pick<ReportOptions, 'gridIntensity' | 'model' | 'compareModels' | 'visitors'>;
+
+/**
+ * Run the full analysis pipeline for a single URL and build its sustainability report.
+ *
+ * Analysis data comes from the first provider in the chain that returns any (see
+ * analysis-providers.ts). By default that's PageSpeed Insights, then simulated PageSpeed data,
+ * basic website scraping and finally fully simulated data. Strict mode skips the simulated providers.
+ *
+ * With strategy 'both', a desktop PageSpeed analysis runs in parallel with the mobile one
+ * and both are reported side by side in `strategies`.
+ */
+export async function generateReport(url: string, options: ReportOptions = {}): Promise<SustainabilityReport> {
+  const { signal, strategy = 'mobile', mode = 'best-effort' } = options;
+  // Resolved up front so a broken budget file or provider list fails before any analysis work
+  const budget = options.budget ?? getConfiguredBudget();
+  const providers = options.providers ?? getConfiguredProviders();
+  const greenHostingService = getGreenHostingService();
+  const model = options.model ?? getConfiguredCo2Model();
+
+  let analysisMethod: AnalysisMethod = providers[0]?.analysisMethod ?? 'pagespeed';
+  const primaryStrategy: DeviceStrategy = strategy === 'both' ? 'mobile' : strategy;
+
+  const pageSpeedAPI = new PageSpeedAPI();
+  const co2Calculator = new CO2Calculator({ model, gridIntensity: options.gridIntensity, visitors: options.visitors });
+
+  const emit = (stage: AnalysisStageId, message: string) => {
+    options.onStage?.({ stage, message, analysisMethod, timestamp: new Date().toISOString() });
+  };
+
+  // Started before the mobile analysis so both run in parallel; it never rejects
+  const desktopAnalysis = strategy === 'both' ? analyzeStrategy(pageSpeedAPI, url, 'desktop', signal) : null;
+
+  const chain = await runProviderChain(providers, {
+    url,
+    strategy: primaryStrategy,
+    mode,
+    signal,
+    analyzer: options.analyzer,
+    emit: (stage, message, method) => {
+      analysisMethod = method;
+      emit(stage, message);
+    },
+  });
+  analysisMethod = chain.provider.analysisMethod;
+  const pageSpeedData = 'pageSpeedData' in chain.data ? chain.data.pageSpeedData : null;
+  const websiteData = 'websiteData' in chain.data ? chain.data.websiteData : null;
+  if (websiteData?.links) {
+    options.onLinks?.(websiteData.links);
+  }
+
+  // Checked on the analyzed URL, which is the final one after redirects
+  const hosting = await greenHostingService.check(pageSpeedData?.url ?? websiteData?.url ?? url);
+
+  let strategies: SustainabilityReport['strategies'];
+  if (desktopAnalysis) {
+    let desktop = await desktopAnalysis;
+    throwIfCancelled(signal);
+
+    // Parallel requests can trip the per-minute quota; retry once now that the mobile request is done
+    if ('error' in desktop && desktop.error.code === 'PAGESPEED_QUOTA_EXCEEDED') {
+      console.log('Desktop analysis hit the PageSpeed quota, retrying after the mobile analysis');
+      desktop = await analyzeStrategy(pageSpeedAPI, url, 'desktop', signal);
+      throwIfCancelled(signal);
+    }
+
+    if ('error' in desktop) {
+      emit('strategy-failed', `Desktop PageSpeed analysis failed: ${desktop.error.message}`);
+    } else {
+      emit('strategy-completed', `Desktop PageSpeed analysis received (${Math.round(desktop.data.totalResourceSize / 1024)} KB transferred)`);
+    }
+
+    const mobile: StrategyOutcome = pageSpeedData
+      ? { data: pageSpeedData }
+      : { error: chain.errors.get('pagespeed') ?? new AnalysisError('PAGESPEED_ERROR', 'Mobile PageSpeed analysis unavailable') };
+
+    strategies = {
+      mobile: buildStrategyResult('mobile', mobile, analysisMethod, co2Calculator, hosting.green),
+      desktop: buildStrategyResult('desktop', desktop, 'pagespeed', co2Calculator, hosting.green),
+    };
+  }
+
+  return finalizeReport({
+    inputs: {
+      url,
+      strategy,
+      mode,
+      model,
+      ...(options.gridIntensity ? { gridIntensity: options.gridIntensity } : {}),
+      ...(options.compareModels ? { compareModels: true } : {}),
+      ...(options.visitors ? { visitors: options.visitors } : {}),
+    },
+    pageSpeedData,
+    websiteData,
+    hosting,
+    analysisMethod,
+    co2Calculator,
+    strategies,
+    budget,
+    traffic: options.traffic,
+    persist: options.persist,
+    emit,
+  });
+}
+
+/**
+ * Build a sustainability report from a Lighthouse JSON report (from the `lighthouse` CLI,
+ * Chrome DevTools or a saved PageSpeed Insights response) without calling Google
+ */
+export async function generateReportFromLighthouse(
+  lighthouseReport: unknown,
+  options: Pick<ReportOptions, 'persist' | 'budget' | 'traffic' | 'onStage'> & CO2Options = {}
+): Promise<SustainabilityReport> {
+  const imported = parseLighthouseReport(lighthouseReport);
+
+  return generateReport(imported.pageSpeedData.url, {
+    ...options,
+    strategy: imported.strategy,
+    // Imports never fall back to simulated data
+    mode: 'strict',
+    providers: [createLighthouseProvider(imported)],
+  });
+}
+
+/**
+ * Build a sustainability report from the requests of the first page in a HAR recording, scored as
+ * one load of that page. A HAR has no page load trace, so the Lighthouse scores are 0.
+ */
+export async function generateReportFromHar(
+  har: unknown,
+  options: Pick<ReportOptions, 'persist' | 'budget' | 'traffic' | 'onStage'> & CO2Options = {}
+): Promise<SustainabilityReport> {
+  const imported = parseHarImport(har);
+
+  return generateReport(imported.url, {
+    ...options,
+    mode: 'strict',
+    providers: [createHarProvider(imported)],
+  });
+}
+
+/**
+ * Score the analysis data, attach request metadata and the budget result, and save the report
+ */
+async function finalizeReport(input: {
+  inputs: SustainabilityReport['inputs'];
+  pageSpeedData: PageSpeedData | null;
+  websiteData: WebsiteAnalysis | null;
+  hosting: GreenHostingResult;
+  analysisMethod: AnalysisMethod;
+  co2Calculator: CO2Calculator;
+  strategies?: SustainabilityReport['strategies'];
+  budget: SustainabilityBudget | null;
+  traffic?: TrafficInput;
+  persist?: boolean;
+  emit: StageEmitter;
+}): Promise<SustainabilityReport> {
+  const { pageSpeedData, websiteData, hosting, analysisMethod, strategies, budget, traffic, emit } = input;
+
+  // Generate sustainability report
+  let result: SustainabilityReport;
+  try {
+    let report: ReportBody;
+    let provenance: SustainabilityReport['provenance'];
+
+    if (pageSpeedData) {
+      // Use PageSpeed data with CO2.js for accurate sustainability analysis
+      console.log('Generating report from PageSpeed data');
+      report = await generateAdvancedSustainabilityReport(pageSpeedData, input.co2Calculator, hosting.green, analysisMethod, emit);
+      provenance = buildProvenance(report, 'pagespeed');
+    } else if (websiteData) {
+      // Use basic website analysis data
+      console.log('Generating report from basic website data');
+      report = await generateSustainabilityReport(websiteData, input.co2Calculator, hosting.green, analysisMethod, emit);
+      provenance = buildProvenance(report, 'website');
+    } else {
+      throw new AnalysisError('REPORT_GENERATION_FAILED', 'No analysis data available');
+    }
+
+    const co2Models = input.inputs.compareModels
+      ? input.co2Calculator.calculateAllModels(pageSpeedData ?? toPageSpeedData(websiteData!), hosting.green)
+      : undefined;
+
+    console.log('Sustainability report generated successfully');
+    emit('report-completed', 'Sustainability report ready');
+
+    result = {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      inputs: input.inputs,
+      ...report,
+      hosting,
+      ...(co2Models ? { co2Models } : {}),
+      ...(strategies ? { strategies } : {}),
+      provenance: {
+        ...provenance,
+        ...(co2Models ? { co2Models: provenance['co2Data.totalCO2'] } : {}),
+        ...strategyProvenance(strategies),
+      },
+    };
+  } catch (reportError) {
+    console.error('Failed to generate sustainability report:', reportError);
+    throw new AnalysisError('REPORT_GENERATION_FAILED', "Analysis completed but failed to generate report. Please try again.", { cause: reportError });
+  }
+
+  const budgetResult = budget ? evaluateBudget(result, budget, pageSpeedData) : null;
+  if (budgetResult) {
+    result.budget = budgetResult;
+  }
+
+  if (traffic) {
+    result.projection = projectEmissions([summarizePage(result.analysisData.url, result)], traffic);
+    result.provenance.projection = result.provenance['co2Data.co2PerVisit'];
+  }
+
+  if (input.persist !== false) {
+    // History is best-effort: a storage failure shouldn't cost the caller its report
+    try {
+      const stored = await getReportRepository().save(result, pageSpeedData);
+      result = { id: stored.id, ...result };
+    } catch (storageError) {
+      console.error('Failed to save report to history:', storageError);
+    }
+  }
+
+  return result;
+}
+
+type StageEmitter = (stage: AnalysisStageId, message: string) => void;
+
+// Report content produced by the scoring functions, before request metadata is attached
+type ReportBody = Omit<SustainabilityReport, 'schemaVersion' | 'generatedAt' | 'inputs' | 'provenance' | 'budget' | 'hosting' | 'co2Models' | 'projection'>;
+
+async function generateSustainabilityReport(
+  websiteData: WebsiteAnalysis,
+  co2Calculator: CO2Calculator,
+  isGreenHosting: boolean,
+  analysisMethod: AnalysisMethod = 'basic',
+  emit: StageEmitter = () => {}
+): Promise<ReportBody> {
+  // Scored with the same CO2.js model as PageSpeed data, so basic and PageSpeed reports are comparable
+  const sustainabilityMetrics = co2Calculator.calculateSustainabilityMetrics(toPageSpeedData(websiteData), isGreenHosting);
+  const { energyEfficiency, carbonFootprint, resourceOptimization, co2Data } = sustainabilityMetrics;
+  const accessibility = websiteData.accessibilityScore;
+  emit('co2-calculated', `CO2.js calculation complete: ${co2Data.co2PerVisit.toFixed(3)}g CO2 per visit`);
+
+  // Generate recommendations based on scores
+  const recommendations = generateRecommendations({ ...websiteData, greenHosting: isGreenHosting }, {
+    energyEfficiency,
+    carbonFootprint,
+    resourceOptimization,
+    accessibility
+  });
+  emit('recommendations-generated', `Generated ${recommendations.length} recommendations`);
+
+  // Add note about analysis method
+  if (analysisMethod === 'simulated') {
+    recommendations.unshift("Note: This analysis uses simulated data due to website access restrictions. For accurate results, ensure the website allows external analysis.");
+  } else if (analysisMethod === 'basic') {
+    recommendations.unshift("Note: This analysis uses basic website scraping. For more accurate results, consider providing a Google PageSpeed Insights API key.");
+  }
+  if (websiteData.unmeasuredResources > 0) {
+    recommendations.splice(1, 0, `Note: ${websiteData.unmeasuredResources} subresources could not be measured, so the page weight is a lower bound.`);
+  }
+
+  return {
+    overallScore: sustainabilityMetrics.overallSustainability,
+    energyEfficiency,
+    carbonFootprint,
+    resourceOptimization,
+    accessibility,
+    recommendations,
+    analysisMethod,
+    co2Data,
+    analysisData: {
+      url: websiteData.url,
+      loadTime: websiteData.loadTime,
+      pageSize: websiteData.pageSize,
+      imageCount: websiteData.imageCount,
+      scriptCount: websiteData.scriptCount,
+      cssCount: websiteData.cssCount,
+      fontCount: websiteData.fontCount,
+      videoCount: websiteData.videoCount,
+      seoScore: websiteData.seoScore,
+      performanceScore: websiteData.performanceScore,
+      actualCarbonFootprint: co2Data.co2PerVisit,
+      greenHosting: isGreenHosting,
+      compressionEnabled: websiteData.compressionEnabled,
+      cdnEnabled: websiteData.cdnEnabled,
+
+      // Resource breakdown
+      totalResourceSize: websiteData.totalResourceSize,
+      imageResourceSize: websiteData.imageResourceSize,
+      scriptResourceSize: websiteData.scriptResourceSize,
+      stylesheetResourceSize: websiteData.stylesheetResourceSize,
+      fontResourceSize: websiteData.fontResourceSize,
+    }
+  };
+}
+
+function generateRecommendations(data: WebsiteAnalysis, scores: any): string[] {
+  const recommendations: string[] = [];
+  
+  // Energy efficiency recommendations
+  if (scores.energyEfficiency < 80) {
+    if (data.loadTime > 2000) {
+      recommendations.push("Optimize page load time by reducing server response time and implementing lazy loading");
+    }
+    if (data.pageSize > 1000) {
+      recommendations.push("Compress and optimize images, minify CSS/JS files to reduce page size");
+    }
+    if (data.videoCount > 1) {
+      recommendations.push("Consider replacing videos with optimized images or implementing video lazy loading");
+    }
+    if (!data.compressionEnabled) {
+      recommendations.push("Enable gzip or Brotli compression on your server to reduce file sizes");
+    }
+    if (!data.cdnEnabled) {
+      recommendations.push("Implement a Content Delivery Network (CDN) to improve loading speeds globally");
+    }
+  }
+  
+  // Carbon footprint recommendations
+  if (scores.carbonFootprint < 80) {
+    if (!data.greenHosting) {
+      recommendations.push("Switch to a green hosting provider that runs on renewable energy");
+    }
+    if (data.pageSize > 1000) {
+      recommendations.push("Reduce page size by optimizing media files and removing unused code");
+    }
+    if (data.videoCount > 0) {
+      recommendations.push("Optimize video content and consider using lower resolution versions for mobile");
+    }
+  }
+  
+  // Resource optimization recommendations
+  if (scores.resourceOptimization < 80) {
+    if (data.scriptCount > 10) {
+      recommendations.push("Consolidate JavaScript files and remove unused scripts to reduce HTTP requests");
+    }
+    if (data.cssCount > 5) {
+      recommendations.push("Combine CSS files and remove unused styles to improve performance");
+    }
+    if (data.fontCount > 3) {
+      recommendations.push("Limit font families and use system fonts when possible to reduce loading time");
+    }
+    if (data.imageCount > 15) {
+      recommendations.push("Implement lazy loading for images and use modern formats like WebP");
+    }
+  }
+  
+  // Accessibility recommendations
+  if (scores.accessibility < 80) {
+    recommendations.push("Improve accessibility by adding proper alt text, semantic HTML, and keyboard navigation");
+    recommendations.push("Ensure sufficient color contrast and readable font sizes for better user experience");
+    recommendations.push("Add ARIA labels and roles where appropriate for screen readers");
+  }
+  
+  // General sustainability recommendations
+  recommendations.push("Implement caching strategies to reduce server load and improve user experience");
+  recommendations.push("Use modern image formats (WebP, AVIF) and responsive images for better performance");
+  recommendations.push("Consider implementing a service worker for offline functionality and reduced server requests");
+  recommendations.push("Regularly audit and remove unused code, images, and third-party scripts");
+  
+  // Remove duplicates and limit to top recommendations
+  const uniqueRecommendations = [...new Set(recommendations)];
+  return uniqueRecommendations.slice(0, 10);
+}
+
+async function generateAdvancedSustainabilityReport(
+  pageSpeedData: PageSpeedData, 
+  co2Calculator: CO2Calculator, 
+  isGreenHosting: boolean,
+  analysisMethod: AnalysisMethod = 'pagespeed',
+  emit: StageEmitter = () => {}
+): Promise<ReportBody> {
+  console.log('Generating advanced sustainability report with CO2.js calculations...');
+  
+  // Calculate comprehensive sustainability metrics using CO2.js
+  const sustainabilityMetrics = co2Calculator.calculateSustainabilityMetrics(pageSpeedData, isGreenHosting);
+  emit('co2-calculated', `CO2.js calculation complete: ${sustainabilityMetrics.co2Data.co2PerVisit.toFixed(3)}g CO2 per visit`);
+  
+  // Generate detailed recommendations
+  const recommendations = co2Calculator.generateRecommendations(sustainabilityMetrics, pageSpeedData);
+  emit('recommendations-generated', `Generated ${recommendations.length} recommendations`);
+  
+  // Add method-specific notes
+  if (analysisMethod === 'simulated') {
+    recommendations.unshift("Note: This analysis uses simulated PageSpeed data due to API limitations. For accurate results, provide a Google PageSpeed Insights API key.");
+  } else if (analysisMethod === 'pagespeed') {
+    recommendations.unshift("✓ Analysis powered by Google PageSpeed Insights and CO2.js for accurate carbon footprint calculations.");
+  } else if (analysisMethod === 'lighthouse') {
+    recommendations.unshift("✓ Analysis based on an imported Lighthouse report and CO2.js carbon footprint calculations.");
+  } else if (analysisMethod === 'har') {
+    recommendations.unshift("Note: This analysis uses the transfer sizes of the first page in a HAR recording. Lighthouse scores and paint timings aren't part of a HAR, so they are reported as 0.");
+  }
+
+  return {
+    overallScore: sustainabilityMetrics.overallSustainability,
+    energyEfficiency: sustainabilityMetrics.energyEfficiency,
+    carbonFootprint: sustainabilityMetrics.carbonFootprint,
+    resourceOptimization: sustainabilityMetrics.resourceOptimization,
+    accessibility: pageSpeedData.accessibilityScore,
+    recommendations,
+    analysisMethod,
+    co2Data: sustainabilityMetrics.co2Data,
+    analysisData: {
+      url: pageSpeedData.url,
+      loadTime: pageSpeedData.largestContentfulPaint, // Use LCP as load time
+      pageSize: Math.round(pageSpeedData.totalResourceSize / 1024), // Convert to KB
+      imageCount: pageSpeedData.resourceCounts.images,
+      scriptCount: pageSpeedData.resourceCounts.scripts,
+      cssCount: pageSpeedData.resourceCounts.stylesheets,
+      fontCount: pageSpeedData.resourceCounts.fonts,
+      videoCount: pageSpeedData.resourceCounts.videos,
+      seoScore: pageSpeedData.seoScore,
+      performanceScore: pageSpeedData.performanceScore,
+      actualCarbonFootprint: sustainabilityMetrics.co2Data.co2PerVisit,
+      greenHosting: isGreenHosting,
+      compressionEnabled: true, // Assume compression for PageSpeed data
+      cdnEnabled: true, // Assume CDN for PageSpeed data
+      
+      // Additional PageSpeed-specific metrics
+      firstContentfulPaint: pageSpeedData.firstContentfulPaint,
+      largestContentfulPaint: pageSpeedData.largestContentfulPaint,
+      firstInputDelay: pageSpeedData.firstInputDelay,
+      cumulativeLayoutShift: pageSpeedData.cumulativeLayoutShift,
+      speedIndex: pageSpeedData.speedIndex,
+      totalBlockingTime: pageSpeedData.totalBlockingTime,
+      
+      // Resource breakdown
+      totalResourceSize: pageSpeedData.totalResourceSize,
+      imageResourceSize: pageSpeedData.imageResourceSize,
+      scriptResourceSize: pageSpeedData.scriptResourceSize,
+      stylesheetResourceSize: pageSpeedData.stylesheetResourceSize,
+      fontResourceSize: pageSpeedData.fontResourceSize,
+      
+      // Optimization opportunities
+      unusedCssBytes: pageSpeedData.unusedCssBytes,
+      unusedJsBytes: pageSpeedData.unusedJsBytes,
+      unoptimizedImageBytes: pageSpeedData.unoptimizedImageBytes,
+      
+      // Additional metrics
+      bestPracticesScore: pageSpeedData.bestPracticesScore,
+      serverResponseTime: pageSpeedData.serverResponseTime,
+      renderBlockingResources: pageSpeedData.renderBlockingResources,
+      domSize: pageSpeedData.domSize,
+    }
+  };
+}
+
+type StrategyOutcome = { data: PageSpeedData } | { error: AnalysisError };
+
+async function analyzeStrategy(
+  pageSpeedAPI: PageSpeedAPI,
+  url: string,
+  strategy: DeviceStrategy,
+  signal?: AbortSignal
+): Promise<StrategyOutcome> {
+  try {
+    return { data: await pageSpeedAPI.analyzeUrl(url, strategy, signal) };
+  } catch (error) {
+    console.warn(`PageSpeed ${strategy} analysis failed:`, error);
+    return { error: toAnalysisError(error, 'PAGESPEED_ERROR') };
+  }
+}
+
+function buildStrategyResult(
+  strategy: DeviceStrategy,
+  outcome: StrategyOutcome,
+  analysisMethod: AnalysisMethod,
+  co2Calculator: CO2Calculator,
+  isGreenHosting: boolean
+): StrategyResult {
+  if ('error' in outcome) {
+    return { strategy, error: { code: outcome.error.code, message: outcome.error.message } };
+  }
+
+  const metrics = co2Calculator.calculateSustainabilityMetrics(outcome.data, isGreenHosting);
+  return {
+    strategy,
+    analysisMethod,
+    overallScore: metrics.overallSustainability,
+    pageSpeedData: outcome.data,
+    co2Data: metrics.co2Data,
+  };
+}
+
+function strategyProvenance(strategies: SustainabilityReport['strategies']): SustainabilityReport['provenance'] {
+  const provenance: SustainabilityReport['provenance'] = {};
+  Object.values(strategies || {}).forEach(result => {
+    if (!result?.pageSpeedData) return;
+    const simulated = result.analysisMethod === 'simulated';
+    provenance[`strategies.${result.strategy}.pageSpeedData`] = simulated ? 'simulated' : 'measured';
+    provenance[`strategies.${result.strategy}.co2Data`] = simulated ? 'simulated' : 'derived';
+  });
+  return provenance;
+}
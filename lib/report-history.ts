@@ -0,0 +1,17 @@
+import type { ReportRepository } from './report-repository';
+import { SqliteReportRepository } from './sqlite-report-repository';
+
+const DEFAULT_DB_PATH = 'data/reports.db';
+
+// Keep a single connection per server process, including across dev-mode module reloads
+const globalForReports = globalThis as unknown as {
+  reportRepository?: ReportRepository;
+};
+
+export function getReportRepository(): ReportRepository {
+  if (!globalForReports.reportRepository) {
+    globalForReports.reportRepository = new SqliteReportRepository(process.env.REPORT_DB_PATH || DEFAULT_DB_PATH);
+  }
+
+  return globalForReports.reportRepository;
+}
@@ -0,0 +1,117 @@
+import type { FieldProvenance, ReportProvenance, SustainabilityReport } from './report-types';
+
+// Which raw data the report was built from: PageSpeed-shaped data or a direct page fetch
+export type ReportSource = 'pagespeed' | 'website';
+
+const SCORE_FIELDS = ['overallScore', 'energyEfficiency', 'carbonFootprint', 'resourceOptimization', 'recommendations'];
+
+const PAGESPEED_FIELDS: Record<string, FieldProvenance> = {
+  url: 'measured',
+  loadTime: 'measured', // Largest Contentful Paint
+  pageSize: 'derived', // Total resource size converted to KB
+  imageCount: 'measured',
+  scriptCount: 'measured',
+  cssCount: 'measured',
+  fontCount: 'measured',
+  videoCount: 'measured',
+  seoScore: 'measured',
+  performanceScore: 'measured',
+  actualCarbonFootprint: 'derived',
+  greenHosting: 'derived', // Looked up in the green hosting dataset or the Green Web Foundation API
+  compressionEnabled: 'assumed',
+  cdnEnabled: 'assumed',
+};
+
+const WEBSITE_FIELDS: Record<string, FieldProvenance> = {
+  url: 'measured',
+  loadTime: 'measured',
+  pageSize: 'measured',
+  imageCount: 'measured',
+  scriptCount: 'measured',
+  cssCount: 'measured',
+  fontCount: 'measured',
+  videoCount: 'measured',
+  seoScore: 'derived', // Heuristics over the page markup
+  performanceScore: 'derived',
+  actualCarbonFootprint: 'derived',
+  greenHosting: 'derived',
+  compressionEnabled: 'measured', // From response headers
+  cdnEnabled: 'measured',
+};
+
+// A HAR has no page load trace, so these PageSpeed fields are fixed at 0 for HAR imports
+const HAR_UNAVAILABLE_FIELDS = [
+  'accessibility',
+  'analysisData.loadTime',
+  'analysisData.seoScore',
+  'analysisData.performanceScore',
+  'analysisData.bestPracticesScore',
+  'analysisData.firstContentfulPaint',
+  'analysisData.largestContentfulPaint',
+  'analysisData.firstInputDelay',
+  'analysisData.cumulativeLayoutShift',
+  'analysisData.speedIndex',
+  'analysisData.totalBlockingTime',
+  'analysisData.unusedCssBytes',
+  'analysisData.unusedJsBytes',
+  'analysisData.unoptimizedImageBytes',
+  'analysisData.renderBlockingResources',
+  'analysisData.domSize',
+];
+
+// A direct fetch has no Lighthouse audits for unused or unoptimized bytes, so their savings are 0
+const WEBSITE_UNAVAILABLE_FIELDS = ['co2Data.optimizationPotential'];
+
+/**
+ * Record for every report field whether it was measured, derived, simulated or assumed.
+ * Fields computed from simulated data are reported as simulated too.
+ */
+export function buildProvenance(
+  report: Pick<SustainabilityReport, 'analysisMethod' | 'analysisData' | 'co2Data'>,
+  source: ReportSource
+): ReportProvenance {
+  const simulated = report.analysisMethod === 'simulated';
+  const provenance: ReportProvenance = {};
+
+  const resolve = (field: string, base: FieldProvenance): FieldProvenance => {
+    if (!simulated || base === 'assumed' || field === 'analysisData.url') return base;
+    // The green host check only looks at the URL, so it stays real when the analysis data is simulated
+    if (field === 'analysisData.greenHosting') return base;
+    // Grid intensities come from the requested locations, not from the page
+    if (field === 'co2Data.gridIntensity') return base;
+    return 'simulated';
+  };
+
+  SCORE_FIELDS.forEach(field => {
+    provenance[field] = resolve(field, 'derived');
+  });
+  provenance.accessibility = resolve('accessibility', source === 'pagespeed' ? 'measured' : 'derived');
+
+  if (report.co2Data) {
+    Object.keys(report.co2Data).forEach(field => {
+      provenance[`co2Data.${field}`] = resolve(`co2Data.${field}`, 'derived');
+    });
+  }
+
+  const fieldSources = source === 'pagespeed' ? PAGESPEED_FIELDS : WEBSITE_FIELDS;
+  Object.entries(report.analysisData).forEach(([field, value]) => {
+    if (value === undefined) return;
+    // Fields without an entry are the extra PageSpeed metrics, taken as-is from the audit
+    const base = fieldSources[field] ?? 'measured';
+    provenance[`analysisData.${field}`] = resolve(`analysisData.${field}`, base);
+  });
+
+  if (source === 'website') {
+    WEBSITE_UNAVAILABLE_FIELDS.forEach(field => {
+      if (field in provenance) provenance[field] = 'assumed';
+    });
+  }
+
+  if (report.analysisMethod === 'har') {
+    HAR_UNAVAILABLE_FIELDS.forEach(field => {
+      if (field in provenance) provenance[field] = 'assumed';
+    });
+  }
+
+  return provenance;
+}
@@ -0,0 +1,30 @@
+import type { PageSpeedData } from './pagespeed-api';
+import type { StoredReport, StoredReportSummary, SustainabilityReport } from './report-types';
+
+export interface ListReportsOptions {
+  limit?: number; // Default 50, max 500
+  offset?: number;
+}
+
+/**
+ * Storage for report history. The default implementation is SQLite; other stores only need these methods.
+ */
+export interface ReportRepository {
+  save(report: SustainabilityReport, pageSpeedData?: PageSpeedData | null): Promise<StoredReportSummary>;
+  list(url: string, options?: ListReportsOptions): Promise<StoredReportSummary[]>;
+  get(id: string): Promise<StoredReport | undefined>;
+}
+
+/**
+ * Key used to group reports of the same page: lowercase host, no fragment and no trailing slash
+ */
+export function toUrlKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    const key = parsed.toString();
+    return key.endsWith('/') ? key.slice(0, -1) : key;
+  } catch {
+    return url.trim();
+  }
+}
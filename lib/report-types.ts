@@ -0,0 +1,193 @@
+import type { CO2CalculationResult, Co2Model, CO2ModelResult } from './co2-calculator';
+import type { GridIntensityOptions } from './grid-intensity';
+import type { VisitAssumptions } from './visitor-behavior';
+import type { PageSpeedData } from './pagespeed-api';
+import type { AnalysisErrorCode } from './analysis-errors';
+import type { BudgetResult } from './budget';
+import type { GreenHostingResult } from './green-hosting';
+import type { EmissionsProjection } from './emissions-projection';
+
+/**
+ * Version of the SustainabilityReport shape. Bump on breaking changes to the fields below.
+ */
+export const REPORT_SCHEMA_VERSION = '1.0';
+
+export type AnalysisMethod = 'pagespeed' | 'lighthouse' | 'har' | 'basic' | 'simulated';
+
+export type DeviceStrategy = 'mobile' | 'desktop';
+
+/**
+ * PageSpeed Insights strategy to run. `both` analyzes mobile and desktop side by side;
+ * the report's main scores then come from the mobile run.
+ */
+export type StrategyOption = DeviceStrategy | 'both';
+
+/**
+ * `best-effort` falls back to simulated data when real measurements fail;
+ * `strict` fails the analysis instead.
+ */
+export type AnalysisMode = 'strict' | 'best-effort';
+
+/**
+ * Where a report value came from:
+ * - measured: read directly from PageSpeed Insights or the fetched page
+ * - derived: calculated from measured values (scores, CO2 estimates, heuristics)
+ * - simulated: generated from a URL seed, not from the site itself
+ * - assumed: a fixed default used because the data source cannot provide it
+ */
+export type FieldProvenance = 'measured' | 'derived' | 'simulated' | 'assumed';
+
+/**
+ * Provenance keyed by field path, e.g. `overallScore`, `co2Data.co2PerVisit`, `analysisData.loadTime`
+ */
+export type ReportProvenance = Record<string, FieldProvenance>;
+
+export interface ReportInputs {
+  url: string; // URL as requested, before any redirects
+  strategy: StrategyOption;
+  mode: AnalysisMode;
+  model: Co2Model; // Emissions model behind co2Data
+  gridIntensity?: GridIntensityOptions;
+  compareModels?: boolean;
+  visitors?: VisitAssumptions; // Only the resolved shares are kept, not the analytics export they came from
+}
+
+export interface SustainabilityReport {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  id?: string; // Report history id, set once the report has been saved
+  generatedAt: string; // ISO 8601 timestamp
+  inputs: ReportInputs;
+  overallScore: number;
+  energyEfficiency: number;
+  carbonFootprint: number;
+  resourceOptimization: number;
+  accessibility: number;
+  recommendations: string[];
+  analysisMethod: AnalysisMethod;
+  provenance: ReportProvenance;
+  co2Data?: CO2CalculationResult;
+  co2Models?: Record<Co2Model, CO2ModelResult>; // Only present when compareModels was requested
+  strategies?: Partial<Record<DeviceStrategy, StrategyResult>>; // Only present when strategy is 'both'
+  budget?: BudgetResult; // Only present when a budget has rules for the page's path
+  projection?: EmissionsProjection; // Only present when traffic was given
+  hosting?: GreenHostingResult; // Green hosting lookup behind analysisData.greenHosting
+  analysisData: {
+    url: string;
+    loadTime: number;
+    pageSize: number; // KB
+    imageCount: number;
+    scriptCount: number;
+    cssCount: number;
+    fontCount: number;
+    videoCount: number;
+    seoScore: number;
+    performanceScore: number;
+    actualCarbonFootprint: number;
+    greenHosting: boolean;
+    compressionEnabled: boolean;
+    cdnEnabled: boolean;
+
+    // Enhanced PageSpeed metrics
+    firstContentfulPaint?: number;
+    largestContentfulPaint?: number;
+    firstInputDelay?: number;
+    cumulativeLayoutShift?: number;
+    speedIndex?: number;
+    totalBlockingTime?: number;
+
+    // Resource breakdown
+    totalResourceSize?: number;
+    imageResourceSize?: number;
+    scriptResourceSize?: number;
+    stylesheetResourceSize?: number;
+    fontResourceSize?: number;
+
+    // Optimization opportunities
+    unusedCssBytes?: number;
+    unusedJsBytes?: number;
+    unoptimizedImageBytes?: number;
+
+    // Additional metrics
+    bestPracticesScore?: number;
+    serverResponseTime?: number;
+    renderBlockingResources?: number;
+    domSize?: number;
+  };
+}
+
+/**
+ * PageSpeed data and CO2 results for one device strategy, or the error that prevented them
+ */
+export interface StrategyResult {
+  strategy: DeviceStrategy;
+  analysisMethod?: AnalysisMethod; // 'pagespeed', or 'simulated' when the PageSpeed fallback was used
+  overallScore?: number;
+  pageSpeedData?: PageSpeedData;
+  co2Data?: CO2CalculationResult;
+  error?: { code: AnalysisErrorCode; message: string };
+}
+
+export type AnalysisStageId =
+  | 'pagespeed-started'
+  | 'pagespeed-completed'
+  | 'pagespeed-timeout'
+  | 'pagespeed-failed'
+  | 'fallback-simulated'
+  | 'basic-analysis-started'
+  | 'basic-analysis-completed'
+  | 'basic-analysis-failed'
+  | 'strategy-completed'
+  | 'strategy-failed'
+  | 'lighthouse-imported'
+  | 'har-imported'
+  | 'provider-started' // Generic stages for custom analysis providers
+  | 'provider-completed'
+  | 'provider-failed'
+  | 'co2-calculated'
+  | 'recommendations-generated'
+  | 'report-completed';
+
+export interface AnalysisStage {
+  stage: AnalysisStageId;
+  message: string;
+  analysisMethod: AnalysisMethod;
+  timestamp: string;
+}
+
+/**
+ * A saved report as listed by GET /api/v1/reports
+ */
+export interface StoredReportSummary {
+  id: string;
+  url: string;
+  createdAt: string; // ISO 8601 timestamp
+  analysisMethod: AnalysisMethod;
+  strategy: StrategyOption;
+  overallScore: number;
+  co2PerVisit?: number; // Grams, only for reports with CO2.js data
+  co2Rating?: string;
+  totalResourceSize?: number; // Bytes, only for reports built from PageSpeed data
+}
+
+/**
+ * A saved report with the raw PageSpeed data it was built from, as returned by GET /api/v1/reports/:id
+ */
+export interface StoredReport extends StoredReportSummary {
+  report: SustainabilityReport;
+  pageSpeedData?: PageSpeedData; // Absent for basic analyses
+}
+
+/**
+ * Error body returned by the report APIs
+ */
+export interface ApiErrorResponse {
+  error: string; // Human-readable message
+  code: AnalysisErrorCode; // Stable machine-readable code
+  retryable: boolean; // Whether the same request may succeed later
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Response body of POST /api/v1/reports
+ */
+export type ReportApiResponse = SustainabilityReport | ApiErrorResponse;
@@ -0,0 +1,129 @@
+import { WebsiteAnalyzer } from './website-analyzer';
+import { CO2Options, generateReport } from './report-generator';
+import { AnalysisError } from './analysis-errors';
+import type { AnalysisMode } from './report-types';
+import { aggregateSiteReport, SitePageResult, SiteReport } from './site-report';
+
+export interface CrawlOptions {
+  maxPages?: number; // Maximum number of pages to analyze
+  maxDepth?: number; // Maximum link depth from the start URL (start URL is depth 0)
+  concurrency?: number; // Pages analyzed in parallel
+  mode?: AnalysisMode; // Passed to every page analysis
+  co2Options?: CO2Options; // Passed to every page analysis
+  signal?: AbortSignal; // Cancels the run between and during page analyses
+  onProgress?: (completed: number, total: number) => void;
+  timeBudget?: number; // Milliseconds after which no new pages are started
+}
+
+const DEFAULT_MAX_PAGES = 10;
+const MAX_PAGES_LIMIT = 100;
+const DEFAULT_MAX_DEPTH = 2;
+const MAX_DEPTH_LIMIT = 5;
+const DEFAULT_CONCURRENCY = 2;
+
+export class SiteCrawler {
+  private maxPages: number;
+  private maxDepth: number;
+  private concurrency: number;
+  private timeBudget: number | null;
+  private mode?: AnalysisMode;
+  private co2Options?: CO2Options;
+  private signal?: AbortSignal;
+  private onProgress?: (completed: number, total: number) => void;
+  private analyzer = new WebsiteAnalyzer();
+
+  constructor(options: CrawlOptions = {}) {
+    this.maxPages = clamp(options.maxPages, 1, MAX_PAGES_LIMIT, DEFAULT_MAX_PAGES);
+    this.maxDepth = clamp(options.maxDepth, 0, MAX_DEPTH_LIMIT, DEFAULT_MAX_DEPTH);
+    this.concurrency = clamp(options.concurrency, 1, 10, DEFAULT_CONCURRENCY);
+    this.timeBudget = options.timeBudget ?? null;
+    this.mode = options.mode;
+    this.co2Options = options.co2Options;
+    this.signal = options.signal;
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Crawl same-origin pages breadth-first from the start URL and build a site-level report
+   */
+  async crawl(startUrl: string): Promise<SiteReport> {
+    const startTime = Date.now();
+    const start = normalizeUrl(startUrl);
+    const queue: Array<{ url: string; depth: number }> = [{ url: start, depth: 0 }];
+    const seen = new Set<string>([start]);
+    const results: SitePageResult[] = [];
+    let outOfTime = false;
+
+    console.log(`Starting site crawl for ${start} (max ${this.maxPages} pages, depth ${this.maxDepth})`);
+
+    while (queue.length > 0 && results.length < this.maxPages) {
+      if (this.signal?.aborted) {
+        throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+      }
+
+      if (this.timeBudget !== null && Date.now() - startTime > this.timeBudget) {
+        console.warn('Crawl time budget exhausted, returning partial site report');
+        outOfTime = true;
+        break;
+      }
+
+      const batch = queue.splice(0, Math.min(this.concurrency, this.maxPages - results.length));
+
+      await Promise.all(batch.map(async ({ url, depth }) => {
+        const result: SitePageResult = { url, depth };
+        let links: string[] | undefined;
+
+        try {
+          // Pages are reported in the site report rather than saved to the history one by one
+          result.report = await generateReport(url, {
+            ...this.co2Options,
+            mode: this.mode,
+            signal: this.signal,
+            persist: false,
+            analyzer: this.analyzer,
+            onLinks: found => { links = found; },
+          });
+        } catch (error) {
+          console.warn('Crawl page analysis failed:', url, error);
+          result.error = error instanceof Error ? error.message : String(error);
+        }
+        results.push(result);
+        this.onProgress?.(results.length, Math.min(this.maxPages, seen.size));
+
+        if (depth >= this.maxDepth) return;
+
+        try {
+          // PageSpeed analyses don't fetch the HTML themselves
+          links ??= await this.analyzer.discoverLinks(url, this.signal);
+          links.map(normalizeUrl).forEach(link => {
+            if (!seen.has(link)) {
+              seen.add(link);
+              queue.push({ url: link, depth: depth + 1 });
+            }
+          });
+        } catch (error) {
+          console.warn('Link discovery failed for:', url, error);
+        }
+      }));
+    }
+
+    if (this.signal?.aborted) {
+      throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+    }
+
+    console.log(`Site crawl complete: ${results.length} pages analyzed, ${queue.length} left in queue`);
+
+    return aggregateSiteReport(start, results, { truncated: outOfTime || queue.length > 0 });
+  }
+}
+
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+function clamp(value: number | undefined, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.max(min, Math.min(max, Math.floor(value)));
+}
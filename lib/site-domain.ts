@@ -0,0 +1,23 @@
+/**
+ * Approximate registrable domain, so `cdn.example.com` and `www.example.com` count as the same site.
+ * Keeps three labels for country-code second-level domains like `example.co.uk`.
+ */
+export function getSiteDomain(hostname: string): string {
+  const labels = hostname.toLowerCase().split('.');
+  if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1])) return hostname.toLowerCase();
+
+  const [secondLevel, topLevel] = labels.slice(-2);
+  const keep = topLevel.length === 2 && ['co', 'com', 'net', 'org', 'gov', 'ac', 'edu'].includes(secondLevel) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+/**
+ * Whether a resource is served by another site than the page. Unparseable URLs count as first-party.
+ */
+export function isThirdPartyUrl(resourceUrl: string, pageUrl: string): boolean {
+  try {
+    return getSiteDomain(new URL(resourceUrl).hostname) !== getSiteDomain(new URL(pageUrl).hostname);
+  } catch {
+    return false;
+  }
+}
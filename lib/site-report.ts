@@ -0,0 +1,136 @@
+import type { AnalysisMethod, SustainabilityReport } from './report-types';
+import type { EmissionsProjection } from './emissions-projection';
+
+export interface SitePageResult {
+  url: string;
+  depth: number;
+  report?: SustainabilityReport;
+  error?: string;
+}
+
+export interface SitePageSummary {
+  url: string;
+  totalResourceSize: number; // bytes
+  co2PerVisit: number; // grams
+  co2Rating: string | null;
+  co2Savings: { // grams per visit that optimizations and green hosting would save
+    optimization: number;
+    greenHosting: number;
+  };
+  overallScore: number;
+  analysisMethod: AnalysisMethod;
+}
+
+export interface SiteReport {
+  startUrl: string;
+  pagesAnalyzed: number;
+  pagesFailed: number;
+  truncated: boolean; // True when the page limit or time budget stopped the run early
+  averages: {
+    overallScore: number;
+    energyEfficiency: number;
+    carbonFootprint: number;
+    resourceOptimization: number;
+    accessibility: number;
+    co2PerVisit: number;
+    totalResourceSize: number;
+  };
+  totals: {
+    co2PerVisit: number; // Sum of CO2 per visit across all pages
+    totalResourceSize: number;
+  };
+  ratingDistribution: Record<string, number>;
+  analysisMethods: Partial<Record<AnalysisMethod, number>>;
+  heaviestPages: SitePageSummary[];
+  pages: SitePageSummary[];
+  failures: Array<{ url: string; error: string }>;
+  projection?: EmissionsProjection; // Only present when traffic was given
+}
+
+/**
+ * Summarize a single page report into the fields used for site-level aggregation
+ */
+export function summarizePage(url: string, report: SustainabilityReport): SitePageSummary {
+  return {
+    url,
+    totalResourceSize: report.analysisData.totalResourceSize ?? Math.round(report.analysisData.pageSize * 1024),
+    co2PerVisit: report.co2Data?.co2PerVisit ?? report.analysisData.actualCarbonFootprint,
+    co2Rating: report.co2Data?.co2Rating ?? null,
+    co2Savings: co2SavingsPerVisit(report),
+    overallScore: report.overallScore,
+    analysisMethod: report.analysisMethod,
+  };
+}
+
+/**
+ * Aggregate per-page sustainability reports into a site-level report
+ */
+export function aggregateSiteReport(
+  startUrl: string,
+  results: SitePageResult[],
+  options: { truncated?: boolean; heaviestPageLimit?: number } = {}
+): SiteReport {
+  const successful = results.filter((result): result is SitePageResult & { report: SustainabilityReport } => !!result.report);
+  const pages = successful.map(result => summarizePage(result.url, result.report));
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const ratingDistribution: Record<string, number> = {};
+  const analysisMethods: Partial<Record<AnalysisMethod, number>> = {};
+  pages.forEach(page => {
+    if (page.co2Rating) {
+      ratingDistribution[page.co2Rating] = (ratingDistribution[page.co2Rating] || 0) + 1;
+    }
+    analysisMethods[page.analysisMethod] = (analysisMethods[page.analysisMethod] || 0) + 1;
+  });
+
+  const totalCO2 = pages.reduce((sum, page) => sum + page.co2PerVisit, 0);
+  const totalBytes = pages.reduce((sum, page) => sum + page.totalResourceSize, 0);
+
+  const heaviestPages = [...pages]
+    .sort((a, b) => b.totalResourceSize - a.totalResourceSize)
+    .slice(0, options.heaviestPageLimit ?? 10);
+
+  return {
+    startUrl,
+    pagesAnalyzed: pages.length,
+    pagesFailed: results.length - successful.length,
+    truncated: options.truncated ?? false,
+    averages: {
+      overallScore: round(average(successful.map(r => r.report.overallScore))),
+      energyEfficiency: round(average(successful.map(r => r.report.energyEfficiency))),
+      carbonFootprint: round(average(successful.map(r => r.report.carbonFootprint))),
+      resourceOptimization: round(average(successful.map(r => r.report.resourceOptimization))),
+      accessibility: round(average(successful.map(r => r.report.accessibility))),
+      co2PerVisit: average(pages.map(page => page.co2PerVisit)),
+      totalResourceSize: Math.round(average(pages.map(page => page.totalResourceSize))),
+    },
+    totals: {
+      co2PerVisit: totalCO2,
+      totalResourceSize: totalBytes,
+    },
+    ratingDistribution,
+    analysisMethods,
+    heaviestPages,
+    pages,
+    failures: results
+      .filter(result => !result.report)
+      .map(result => ({ url: result.url, error: result.error || 'Unknown error' })),
+  };
+}
+
+// optimizationPotential and greenHostingImpact are first-load figures; scale them like co2PerVisit
+function co2SavingsPerVisit(report: SustainabilityReport): SitePageSummary['co2Savings'] {
+  const co2Data = report.co2Data;
+  if (!co2Data || co2Data.totalCO2 <= 0) {
+    return { optimization: 0, greenHosting: 0 };
+  }
+
+  const visitRatio = co2Data.co2PerVisit / co2Data.totalCO2;
+  return {
+    optimization: co2Data.optimizationPotential.totalPotentialSavings * visitRatio,
+    greenHosting: co2Data.greenHostingImpact.potentialSavings * visitRatio,
+  };
+}
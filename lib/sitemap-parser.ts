@@ -0,0 +1,270 @@
+import { JSDOM } from 'jsdom';
+import { gunzipSync } from 'zlib';
+import { AnalysisError } from './analysis-errors';
+
+// Ensure fetch is available in Node.js environment
+const fetch = globalThis.fetch || require('node-fetch');
+
+export type SitemapSampling =
+  | { strategy: 'all' }
+  | { strategy: 'every-nth'; n: number; offset?: number }
+  | { strategy: 'random-per-prefix'; perPrefix: number; prefixDepth?: number };
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex';
+  locations: string[];
+}
+
+export interface SitemapParserOptions {
+  maxUrls?: number; // Page URLs kept across all sitemap files
+  maxSitemaps?: number; // Sitemap files fetched, including the first one
+  maxDepth?: number; // Levels of sitemap indexes followed below the first sitemap
+}
+
+const MAX_SITEMAP_URLS = 50000; // Sitemap protocol limit per file
+const MAX_NESTED_SITEMAPS = 50;
+const MAX_SITEMAP_DEPTH = 3; // Indexes shouldn't nest at all, so deeper chains are almost always loops
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024; // Sitemap protocol limit per uncompressed file
+
+export class SitemapParser {
+  private maxUrls: number;
+  private maxSitemaps: number;
+  private maxDepth: number;
+
+  constructor(options: SitemapParserOptions = {}) {
+    this.maxUrls = options.maxUrls ?? MAX_SITEMAP_URLS;
+    this.maxSitemaps = options.maxSitemaps ?? MAX_NESTED_SITEMAPS;
+    this.maxDepth = options.maxDepth ?? MAX_SITEMAP_DEPTH;
+  }
+
+  /**
+   * Parse sitemap XML into its <loc> entries, detecting whether it is a sitemap index.
+   * Only http(s) locations are kept, so a sitemap can't point the analysis at file: or other URLs.
+   */
+  parse(xml: string): ParsedSitemap {
+    let document: Document;
+    try {
+      document = new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+    } catch (error) {
+      // jsdom throws a SyntaxError for XML that isn't well-formed
+      throw new AnalysisError('SITEMAP_UNREADABLE', `Invalid sitemap XML: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+    const root = document.documentElement;
+
+    if (!root || root.nodeName === 'parsererror' || document.getElementsByTagName('parsererror').length > 0) {
+      throw new AnalysisError('SITEMAP_UNREADABLE', 'Invalid sitemap XML');
+    }
+
+    const type = root.localName === 'sitemapindex' ? 'sitemapindex' : 'urlset';
+    if (root.localName !== 'sitemapindex' && root.localName !== 'urlset') {
+      throw new AnalysisError('SITEMAP_UNREADABLE', `Unsupported sitemap root element: <${root.localName}>`);
+    }
+
+    const entries = Array.from(document.getElementsByTagNameNS('*', 'loc'))
+      .map(loc => loc.textContent?.trim() || '')
+      .filter(loc => loc.length > 0);
+    const locations = entries.filter(isHttpUrl);
+
+    if (locations.length < entries.length) {
+      console.warn(`Ignoring ${entries.length - locations.length} sitemap <loc> entries that are not http(s) URLs`);
+    }
+
+    return { type, locations };
+  }
+
+  /**
+   * Expand a sitemap (fetched from a URL or provided as XML) into a flat list of page URLs.
+   * Sitemap index files are followed recursively, up to the depth, file and URL limits.
+   */
+  async expand(source: { url?: string; xml?: string }, signal?: AbortSignal): Promise<string[]> {
+    const urls = new Set<string>();
+    const visitedSitemaps = new Set<string>();
+    const pending: { url: string; depth: number }[] = [];
+
+    const collect = (sitemap: ParsedSitemap, depth: number) => {
+      if (sitemap.type === 'sitemapindex') {
+        if (depth >= this.maxDepth) {
+          console.warn(`Sitemap index nesting deeper than ${this.maxDepth} levels, ignoring ${sitemap.locations.length} sitemaps`);
+          return;
+        }
+        sitemap.locations.forEach(location => {
+          if (!visitedSitemaps.has(location)) pending.push({ url: location, depth: depth + 1 });
+        });
+      } else {
+        for (const location of sitemap.locations) {
+          if (urls.size >= this.maxUrls) break;
+          urls.add(location);
+        }
+      }
+    };
+
+    if (source.xml) {
+      collect(this.parse(source.xml), 0);
+    } else if (source.url) {
+      pending.push({ url: source.url, depth: 0 });
+    } else {
+      throw new AnalysisError('INVALID_REQUEST', 'A sitemap URL or sitemap XML is required');
+    }
+
+    while (pending.length > 0 && urls.size < this.maxUrls) {
+      if (signal?.aborted) {
+        throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+      }
+
+      const { url: sitemapUrl, depth } = pending.shift()!;
+      if (visitedSitemaps.has(sitemapUrl)) continue;
+      if (visitedSitemaps.size >= this.maxSitemaps) {
+        console.warn(`Sitemap limit of ${this.maxSitemaps} files reached, ignoring remaining sitemaps`);
+        break;
+      }
+      visitedSitemaps.add(sitemapUrl);
+
+      try {
+        collect(this.parse(await this.fetchSitemap(sitemapUrl, signal)), depth);
+      } catch (error) {
+        if (signal?.aborted) throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled', { cause: error });
+        // A broken child sitemap shouldn't discard the rest of the index
+        if (sitemapUrl === source.url) throw error;
+        console.warn('Failed to load nested sitemap:', sitemapUrl, error);
+      }
+    }
+
+    console.log(`Sitemap expanded to ${urls.size} URLs from ${visitedSitemaps.size || 1} sitemap file(s)`);
+    return [...urls];
+  }
+
+  private async fetchSitemap(url: string, signal?: AbortSignal): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
+    // Propagate cancellation from the caller (e.g. a cancelled job) to the request
+    const abortFromCaller = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; WebSustainabilityChecker/1.0)',
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new AnalysisError('SITEMAP_UNREADABLE', `Failed to fetch sitemap ${url}: HTTP ${response.status}`);
+      }
+
+      // Gzipped sitemaps (sitemap.xml.gz) are served as binary files, not content-encoded
+      if (new URL(url).pathname.endsWith('.gz')) {
+        const buffer = Buffer.from(await response.arrayBuffer());
+        try {
+          return gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf-8');
+        } catch (error) {
+          throw new AnalysisError('SITEMAP_UNREADABLE', `Sitemap ${url} is not a gzip file under ${MAX_SITEMAP_BYTES / 1024 / 1024} MB uncompressed`, { cause: error });
+        }
+      }
+
+      const xml = await response.text();
+      if (xml.length > MAX_SITEMAP_BYTES) {
+        throw new AnalysisError('SITEMAP_UNREADABLE', `Sitemap ${url} is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024} MB`);
+      }
+      return xml;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+}
+
+/**
+ * Validate the sampling of a sitemap request: `{ strategy: 'all' }`, `{ strategy: 'every-nth', n, offset? }`
+ * or `{ strategy: 'random-per-prefix', perPrefix, prefixDepth? }`
+ */
+export function parseSitemapSampling(data: unknown): SitemapSampling {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new AnalysisError('INVALID_REQUEST', "sitemap.sampling must be an object with a 'strategy'");
+  }
+
+  const { strategy, n, offset, perPrefix, prefixDepth } = data as Record<string, unknown>;
+  switch (strategy) {
+    case 'all':
+      return { strategy };
+    case 'every-nth':
+      checkInteger(n, 'sitemap.sampling.n', 1);
+      if (offset === undefined) return { strategy, n };
+      checkInteger(offset, 'sitemap.sampling.offset', 0);
+      return { strategy, n, offset };
+    case 'random-per-prefix':
+      checkInteger(perPrefix, 'sitemap.sampling.perPrefix', 1);
+      if (prefixDepth === undefined) return { strategy, perPrefix };
+      checkInteger(prefixDepth, 'sitemap.sampling.prefixDepth', 0);
+      return { strategy, perPrefix, prefixDepth };
+    default:
+      throw new AnalysisError('INVALID_REQUEST', "Invalid sitemap.sampling.strategy. Use 'all', 'every-nth' or 'random-per-prefix'");
+  }
+}
+
+/**
+ * Reduce a URL list using the requested sampling strategy
+ */
+export function sampleUrls(urls: string[], sampling: SitemapSampling = { strategy: 'all' }): string[] {
+  switch (sampling.strategy) {
+    case 'every-nth': {
+      const n = Math.max(1, Math.floor(sampling.n));
+      const offset = Math.max(0, Math.floor(sampling.offset ?? 0)) % n;
+      return urls.filter((_, index) => index % n === offset);
+    }
+    case 'random-per-prefix': {
+      const perPrefix = Math.max(1, Math.floor(sampling.perPrefix));
+      const groups = new Map<string, string[]>();
+
+      urls.forEach(url => {
+        const prefix = getPathPrefix(url, sampling.prefixDepth ?? 1);
+        const group = groups.get(prefix) || [];
+        group.push(url);
+        groups.set(prefix, group);
+      });
+
+      return [...groups.values()].flatMap(group => shuffle(group).slice(0, perPrefix));
+    }
+    default:
+      return urls;
+  }
+}
+
+/**
+ * Get the first `depth` path segments of a URL, e.g. "/blog" for "/blog/2024/post" at depth 1
+ */
+function getPathPrefix(url: string, depth: number): string {
+  try {
+    const { origin, pathname } = new URL(url);
+    const segments = pathname.split('/').filter(Boolean);
+    // The last segment is the page itself, so it never counts as a prefix
+    return origin + '/' + segments.slice(0, Math.min(depth, Math.max(0, segments.length - 1))).join('/');
+  } catch {
+    return '';
+  }
+}
+
+function isHttpUrl(location: string): boolean {
+  try {
+    const { protocol } = new URL(location);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function checkInteger(value: unknown, name: string, min: number): asserts value is number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new AnalysisError('INVALID_REQUEST', `${name} must be an integer of at least ${min}`);
+  }
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
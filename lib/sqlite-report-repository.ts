@@ -0,0 +1,151 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { PageSpeedData } from './pagespeed-api';
+import type { ListReportsOptions, ReportRepository } from './report-repository';
+import { toUrlKey } from './report-repository';
+import type { StoredReport, StoredReportSummary, SustainabilityReport } from './report-types';
+import { AnalysisError } from './analysis-errors';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+interface ReportRow {
+  id: string;
+  url: string;
+  created_at: string;
+  analysis_method: StoredReportSummary['analysisMethod'];
+  strategy: StoredReportSummary['strategy'];
+  overall_score: number;
+  co2_per_visit: number | null;
+  co2_rating: string | null;
+  total_resource_size: number | null;
+  report_json?: string;
+  page_speed_json?: string | null;
+}
+
+const SUMMARY_COLUMNS = 'id, url, created_at, analysis_method, strategy, overall_score, co2_per_visit, co2_rating';
+// Read from the stored report so older rows need no migration
+const TOTAL_RESOURCE_SIZE = "json_extract(report_json, '$.analysisData.totalResourceSize') AS total_resource_size";
+
+/**
+ * Report history stored in a local SQLite file
+ */
+export class SqliteReportRepository implements ReportRepository {
+  private db: Database.Database | null = null;
+
+  constructor(private filename: string) {}
+
+  async save(report: SustainabilityReport, pageSpeedData?: PageSpeedData | null): Promise<StoredReportSummary> {
+    const summary: StoredReportSummary = {
+      id: randomUUID(),
+      url: report.inputs.url,
+      createdAt: report.generatedAt,
+      analysisMethod: report.analysisMethod,
+      strategy: report.inputs.strategy,
+      overallScore: report.overallScore,
+      co2PerVisit: report.co2Data?.co2PerVisit,
+      co2Rating: report.co2Data?.co2Rating,
+      totalResourceSize: report.analysisData.totalResourceSize,
+    };
+
+    this.run(db => db.prepare(`
+      INSERT INTO reports (${SUMMARY_COLUMNS}, url_key, report_json, page_speed_json)
+      VALUES (@id, @url, @createdAt, @analysisMethod, @strategy, @overallScore, @co2PerVisit, @co2Rating, @urlKey, @reportJson, @pageSpeedJson)
+    `).run({
+      ...summary,
+      co2PerVisit: summary.co2PerVisit ?? null,
+      co2Rating: summary.co2Rating ?? null,
+      urlKey: toUrlKey(summary.url),
+      reportJson: JSON.stringify({ ...report, id: summary.id }),
+      pageSpeedJson: pageSpeedData ? JSON.stringify(pageSpeedData) : null,
+    }));
+
+    return summary;
+  }
+
+  async list(url: string, options: ListReportsOptions = {}): Promise<StoredReportSummary[]> {
+    const limit = Math.max(1, Math.min(MAX_LIST_LIMIT, Math.floor(options.limit ?? DEFAULT_LIST_LIMIT)));
+    const offset = Math.max(0, Math.floor(options.offset ?? 0));
+
+    const rows = this.run(db => db.prepare(`
+      SELECT ${SUMMARY_COLUMNS}, ${TOTAL_RESOURCE_SIZE} FROM reports
+      WHERE url_key = ?
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).all(toUrlKey(url), limit, offset) as ReportRow[]);
+
+    return rows.map(toSummary);
+  }
+
+  async get(id: string): Promise<StoredReport | undefined> {
+    const row = this.run(db => db.prepare(`
+      SELECT ${SUMMARY_COLUMNS}, ${TOTAL_RESOURCE_SIZE}, report_json, page_speed_json FROM reports WHERE id = ?
+    `).get(id) as ReportRow | undefined);
+
+    if (!row) return undefined;
+
+    return {
+      ...toSummary(row),
+      report: JSON.parse(row.report_json!),
+      ...(row.page_speed_json ? { pageSpeedData: JSON.parse(row.page_speed_json) } : {}),
+    };
+  }
+
+  /**
+   * Run a query against the database, opening it on first use
+   */
+  private run<T>(query: (db: Database.Database) => T): T {
+    try {
+      return query(this.open());
+    } catch (error) {
+      throw new AnalysisError('STORAGE_ERROR', 'Report history storage failed', { cause: error });
+    }
+  }
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    if (this.filename !== ':memory:') {
+      mkdirSync(dirname(this.filename), { recursive: true });
+    }
+
+    const db = new Database(this.filename);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS reports (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        url_key TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        analysis_method TEXT NOT NULL,
+        strategy TEXT NOT NULL,
+        overall_score INTEGER NOT NULL,
+        co2_per_visit REAL,
+        co2_rating TEXT,
+        report_json TEXT NOT NULL,
+        page_speed_json TEXT
+      );
+      CREATE INDEX IF NOT EXISTS reports_url_key_created_at ON reports (url_key, created_at DESC);
+    `);
+
+    console.log('Report history database opened:', this.filename);
+    this.db = db;
+    return db;
+  }
+}
+
+function toSummary(row: ReportRow): StoredReportSummary {
+  return {
+    id: row.id,
+    url: row.url,
+    createdAt: row.created_at,
+    analysisMethod: row.analysis_method,
+    strategy: row.strategy,
+    overallScore: row.overall_score,
+    ...(row.co2_per_visit !== null ? { co2PerVisit: row.co2_per_visit } : {}),
+    ...(row.co2_rating !== null ? { co2Rating: row.co2_rating } : {}),
+    ...(row.total_resource_size !== null ? { totalResourceSize: row.total_resource_size } : {}),
+  };
+}
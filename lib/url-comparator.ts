@@ -0,0 +1,59 @@
+import { CO2Options, generateReport } from './report-generator';
+import { AnalysisError, toAnalysisError } from './analysis-errors';
+import { compareReports, ComparisonReport, ComparisonResult } from './report-comparison';
+import type { AnalysisMode, StrategyOption } from './report-types';
+
+export interface CompareOptions {
+  strategy?: StrategyOption; // Passed to every URL's analysis
+  mode?: AnalysisMode;
+  co2Options?: CO2Options; // Passed to every URL's analysis
+  signal?: AbortSignal; // Cancels all analyses
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export const MIN_COMPARE_URLS = 2;
+export const MAX_COMPARE_URLS = 5;
+
+export class UrlComparator {
+  constructor(private options: CompareOptions = {}) {}
+
+  /**
+   * Analyze every URL in parallel and compare the results against the first URL
+   */
+  async compare(urls: string[]): Promise<ComparisonReport> {
+    if (urls.length < MIN_COMPARE_URLS || urls.length > MAX_COMPARE_URLS) {
+      throw new AnalysisError('INVALID_REQUEST', `Compare between ${MIN_COMPARE_URLS} and ${MAX_COMPARE_URLS} URLs`);
+    }
+
+    const { strategy, mode, co2Options, signal, onProgress } = this.options;
+    let completed = 0;
+    onProgress?.(0, urls.length);
+
+    console.log(`Comparing ${urls.length} URLs: ${urls.join(', ')}`);
+
+    const results: ComparisonResult[] = await Promise.all(urls.map(async url => {
+      const result: ComparisonResult = { url };
+      try {
+        result.report = await generateReport(url, { ...co2Options, strategy, mode, signal, persist: false });
+      } catch (error) {
+        const analysisError = toAnalysisError(error);
+        console.warn(`Comparison analysis failed for ${url}:`, analysisError.message);
+        result.error = { code: analysisError.code, message: analysisError.message };
+      }
+      onProgress?.(++completed, urls.length);
+      return result;
+    }));
+
+    if (signal?.aborted) {
+      throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+    }
+
+    // Nothing to compare if every site failed, so surface the first site's error
+    if (results.every(result => result.error)) {
+      const first = results[0].error!;
+      throw new AnalysisError(first.code, `None of the URLs could be analyzed: ${first.message}`);
+    }
+
+    return compareReports(results);
+  }
+}
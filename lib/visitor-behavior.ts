@@ -0,0 +1,156 @@
+import { AnalysisError } from './analysis-errors';
+import { parseCsv, parseCsvNumber } from './csv';
+
+/**
+ * How visits split between first-time and returning visitors, in the form CO2.js `perVisit` takes it.
+ * All values are fractions between 0 and 1.
+ */
+export interface VisitorBehavior {
+  firstVisitPercentage: number;
+  returnVisitPercentage: number;
+  dataReloadRatio: number; // Share of the page a return visit downloads again
+}
+
+// The visitor behavior a CO2 figure was calculated with, and where it came from
+export interface VisitAssumptions extends VisitorBehavior {
+  source: 'default' | 'request' | 'analytics';
+  sessions?: number; // Sessions counted in the analytics export
+}
+
+export const DEFAULT_VISITOR_BEHAVIOR: VisitorBehavior = {
+  firstVisitPercentage: 0.75, // 75% first-time visitors
+  returnVisitPercentage: 0.25, // 25% return visitors
+  dataReloadRatio: 0.02, // 2% of data reloaded on return visits
+};
+
+// Session counts for each kind of visitor in an analytics export
+interface AnalyticsSessions {
+  newSessions: number;
+  returningSessions: number;
+}
+
+// Row labels of the new vs returning dimension in GA4 ("new" / "returning" or "established") and Universal Analytics
+const NEW_LABELS = ['new', 'new visitor', 'new users'];
+const RETURNING_LABELS = ['returning', 'returning visitor', 'returning users', 'established'];
+
+/**
+ * Validate `visitors` options from a request body or the CLI: `returnVisitPercentage` and/or
+ * `firstVisitPercentage`, `dataReloadRatio`, or `analytics` with the contents of an analytics
+ * export to take the returning share from. Unset values keep the defaults.
+ */
+export function parseVisitorBehavior(data: unknown): VisitAssumptions {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new AnalysisError('INVALID_REQUEST', "visitors must be an object with 'returnVisitPercentage', 'dataReloadRatio' or 'analytics'");
+  }
+
+  const { firstVisitPercentage, returnVisitPercentage, dataReloadRatio, analytics } = data as Record<string, unknown>;
+  [['firstVisitPercentage', firstVisitPercentage], ['returnVisitPercentage', returnVisitPercentage], ['dataReloadRatio', dataReloadRatio]]
+    .forEach(([name, value]) => {
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1)) {
+        throw new AnalysisError('INVALID_REQUEST', `visitors.${name} must be a fraction between 0 and 1`);
+      }
+    });
+
+  const assumptions: VisitAssumptions = { ...DEFAULT_VISITOR_BEHAVIOR, source: 'request' };
+  if (dataReloadRatio !== undefined) {
+    assumptions.dataReloadRatio = dataReloadRatio as number;
+  }
+
+  if (analytics !== undefined) {
+    if (firstVisitPercentage !== undefined || returnVisitPercentage !== undefined) {
+      throw new AnalysisError('INVALID_REQUEST', "Set either visitors.analytics or the visit percentages, not both");
+    }
+    if (typeof analytics !== 'string') {
+      throw new AnalysisError('INVALID_REQUEST', "visitors.analytics must be the contents of a CSV or JSON analytics export");
+    }
+
+    const { newSessions, returningSessions } = parseAnalyticsExport(analytics);
+    const sessions = newSessions + returningSessions;
+    return {
+      ...assumptions,
+      firstVisitPercentage: roundShare(newSessions / sessions),
+      returnVisitPercentage: roundShare(returningSessions / sessions),
+      source: 'analytics',
+      sessions,
+    };
+  }
+
+  if (firstVisitPercentage !== undefined && returnVisitPercentage !== undefined) {
+    if (Math.abs((firstVisitPercentage as number) + (returnVisitPercentage as number) - 1) > 0.001) {
+      throw new AnalysisError('INVALID_REQUEST', "visitors.firstVisitPercentage and returnVisitPercentage must add up to 1");
+    }
+    return { ...assumptions, firstVisitPercentage: firstVisitPercentage as number, returnVisitPercentage: returnVisitPercentage as number };
+  }
+  if (returnVisitPercentage !== undefined) {
+    return { ...assumptions, firstVisitPercentage: roundShare(1 - (returnVisitPercentage as number)), returnVisitPercentage: returnVisitPercentage as number };
+  }
+  if (firstVisitPercentage !== undefined) {
+    return { ...assumptions, firstVisitPercentage: firstVisitPercentage as number, returnVisitPercentage: roundShare(1 - (firstVisitPercentage as number)) };
+  }
+
+  return assumptions;
+}
+
+/**
+ * Visitor options from query parameters or CLI flags. Returns undefined when none is set.
+ */
+export function parseVisitorParams(returnVisitPercentage?: string | null, dataReloadRatio?: string | null): VisitAssumptions | undefined {
+  if (!returnVisitPercentage && !dataReloadRatio) return undefined;
+
+  return parseVisitorBehavior({
+    ...(returnVisitPercentage ? { returnVisitPercentage: Number(returnVisitPercentage) } : {}),
+    ...(dataReloadRatio ? { dataReloadRatio: Number(dataReloadRatio) } : {}),
+  });
+}
+
+/**
+ * Count new and returning sessions in an analytics export: a JSON object with `newSessions` and
+ * `returningSessions`, or a CSV report by new vs returning visitors (GA4 "New / established",
+ * Universal Analytics "User Type") with a Sessions or Users column
+ */
+function parseAnalyticsExport(content: string): AnalyticsSessions {
+  const text = content.trim();
+
+  if (text.startsWith('{')) {
+    let data: Partial<AnalyticsSessions>;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new AnalysisError('INVALID_REQUEST', `Analytics export is not valid JSON: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+    return checkSessions(Number(data.newSessions), Number(data.returningSessions));
+  }
+
+  // GA4 exports start with `#` comment lines describing the report, which parseCsv skips
+  const [header = [], ...records] = parseCsv(text);
+  const columns = header.map(column => column.trim().toLowerCase());
+  const sessionsColumn = columns.findIndex(column => column.includes('sessions'));
+  const countColumn = sessionsColumn >= 0 ? sessionsColumn : columns.findIndex(column => column.includes('users'));
+  if (countColumn < 0) {
+    throw new AnalysisError('INVALID_REQUEST', "Analytics export needs a Sessions or Users column");
+  }
+
+  let newSessions = 0;
+  let returningSessions = 0;
+  records.forEach(record => {
+    const label = record.find((_, index) => index !== countColumn)?.trim().toLowerCase() ?? '';
+    const count = parseCsvNumber(record[countColumn]);
+    if (!Number.isFinite(count)) return;
+
+    if (NEW_LABELS.includes(label)) newSessions += count;
+    else if (RETURNING_LABELS.includes(label)) returningSessions += count;
+  });
+
+  return checkSessions(newSessions, returningSessions);
+}
+
+function checkSessions(newSessions: number, returningSessions: number): AnalyticsSessions {
+  if (!Number.isFinite(newSessions) || !Number.isFinite(returningSessions) || newSessions < 0 || returningSessions < 0 || newSessions + returningSessions === 0) {
+    throw new AnalysisError('INVALID_REQUEST', "Analytics export has no new and returning session counts");
+  }
+  return { newSessions, returningSessions };
+}
+
+function roundShare(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -1,12 +1,35 @@
 import { JSDOM } from 'jsdom';
+import { AnalysisError } from './analysis-errors';
+import type { PageSpeedData, PageSpeedMetric } from './pagespeed-api';
+import { getGreenHostingService } from './green-hosting';
+import { isThirdPartyUrl } from './site-domain';
 
 // Ensure fetch is available in Node.js environment
 const fetch = globalThis.fetch || require('node-fetch');
 
-export interface WebsiteAnalysis {
+const USER_AGENT_TOKEN = 'WebSustainabilityChecker';
+
+// Subresource fetching: parallel requests, time limit per request and cap on resources per page
+const RESOURCE_CONCURRENCY = 6;
+const RESOURCE_TIMEOUT = 5000;
+const MAX_RESOURCES = 150;
+const MAX_DOWNLOAD_BYTES = 5 * 1024 * 1024; // Subresources without a Content-Length are counted up to this size
+
+type SubresourceType = 'image' | 'script' | 'stylesheet' | 'font' | 'media';
+
+interface Subresource {
+  url: string;
+  type: SubresourceType;
+}
+
+// Byte fields shared with PageSpeedData; totalResourceSize includes the HTML document
+type ResourceSizes = Pick<PageSpeedData, 'totalResourceSize' | 'imageResourceSize' | 'scriptResourceSize' | 'stylesheetResourceSize' | 'fontResourceSize' | 'thirdPartyResourceSize'>;
+
+export interface WebsiteAnalysis extends ResourceSizes {
   url: string;
-  loadTime: number;
-  pageSize: number;
+  loadTime: number; // HTML document only
+  pageSize: number; // KB, the document and every measured subresource
+  unmeasuredResources: number; // Subresources that failed, timed out or were over the cap
   imageCount: number;
   scriptCount: number;
   cssCount: number;
@@ -15,48 +38,65 @@ export interface WebsiteAnalysis {
   accessibilityScore: number;
   seoScore: number;
   performanceScore: number;
-  carbonFootprint: number;
   greenHosting: boolean;
   compressionEnabled: boolean;
   cdnEnabled: boolean;
+  links?: string[]; // Same-origin page links in the fetched HTML
 }
 
 export class WebsiteAnalyzer {
   private dom: JSDOM | null = null;
+  // robots.txt contents by origin, null when missing or unreadable. Shared by every page this analyzer fetches.
+  private robotsTxt = new Map<string, Promise<string | null>>();
 
-  async analyzeWebsite(url: string): Promise<WebsiteAnalysis> {
+  async analyzeWebsite(url: string, signal?: AbortSignal): Promise<WebsiteAnalysis> {
     try {
       const startTime = Date.now();
       
       console.log('Starting website analysis for:', url);
+
+      if (!(await this.isAllowedByRobots(url, signal))) {
+        throw new AnalysisError('BLOCKED_BY_ROBOTS', `robots.txt disallows fetching ${url}`);
+      }
       
       // Fetch the website with timeout and better error handling
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+      const abortFromCaller = () => controller.abort();
+      signal?.addEventListener('abort', abortFromCaller, { once: true });
       
       const response = await fetch(url, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; WebSustainabilityChecker/1.0)',
         },
         signal: controller.signal,
+      }).finally(() => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', abortFromCaller);
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new AnalysisError('TARGET_UNREACHABLE', `Website returned an error: HTTP ${response.status}: ${response.statusText}`, {
+          details: { httpStatus: response.status },
+        });
       }
 
       const html = await response.text();
       const loadTime = Date.now() - startTime;
-      const pageSize = new Blob([html]).size / 1024; // Size in KB
+      // Content-Length is the transfer size; the decoded HTML is larger when the page is compressed
+      const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+      const documentSize = contentLength >= 0 ? contentLength : new Blob([html]).size;
 
-      console.log(`Website fetched successfully: ${pageSize.toFixed(2)}KB, ${loadTime}ms`);
+      console.log(`Website fetched successfully: ${(documentSize / 1024).toFixed(2)}KB, ${loadTime}ms`);
 
       // Parse HTML
-      this.dom = new JSDOM(html);
+      this.dom = new JSDOM(html, { url: response.url || url });
       const document = this.dom.window.document;
 
+      const resources = await this.measureSubresources(document, response.url || url, signal);
+      const pageSize = (documentSize + resources.totalResourceSize) / 1024; // Size in KB
+      console.log(`Subresources measured: ${(resources.totalResourceSize / 1024).toFixed(2)}KB, ${resources.unmeasuredResources} unmeasured`);
+
       // Analyze various components
       const imageCount = this.countImages(document);
       const scriptCount = this.countScripts(document);
@@ -68,10 +108,9 @@ export class WebsiteAnalyzer {
       const accessibilityScore = this.calculateAccessibilityScore(document);
       const seoScore = this.calculateSEOScore(document);
       const performanceScore = this.calculatePerformanceScore(loadTime, pageSize);
-      const carbonFootprint = this.calculateCarbonFootprint(pageSize, imageCount, videoCount);
       
       // Check for optimization features
-      const greenHosting = this.checkGreenHosting(url);
+      const greenHosting = (await getGreenHostingService().check(response.url || url)).green;
       const compressionEnabled = this.checkCompression(response);
       const cdnEnabled = this.checkCDN(url, response);
 
@@ -81,6 +120,13 @@ export class WebsiteAnalyzer {
         url,
         loadTime,
         pageSize: Math.round(pageSize * 100) / 100, // Round to 2 decimal places
+        totalResourceSize: documentSize + resources.totalResourceSize,
+        imageResourceSize: resources.imageResourceSize,
+        scriptResourceSize: resources.scriptResourceSize,
+        stylesheetResourceSize: resources.stylesheetResourceSize,
+        fontResourceSize: resources.fontResourceSize,
+        thirdPartyResourceSize: resources.thirdPartyResourceSize,
+        unmeasuredResources: resources.unmeasuredResources,
         imageCount,
         scriptCount,
         cssCount,
@@ -89,29 +135,379 @@ export class WebsiteAnalyzer {
         accessibilityScore,
         seoScore,
         performanceScore,
-        carbonFootprint,
         greenHosting,
         compressionEnabled,
         cdnEnabled,
+        links: this.extractSameOriginLinks(document, response.url || url),
       };
     } catch (error) {
       console.error('Website analysis error:', error);
       
+      if (signal?.aborted) {
+        throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+      }
+
+      if (error instanceof AnalysisError) {
+        throw error;
+      }
+
       // Provide more specific error messages
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new Error('Website analysis timed out. The website took too long to respond.');
+          throw new AnalysisError('TIMEOUT', 'Website analysis timed out. The website took too long to respond.', { cause: error });
         } else if (error.message.includes('fetch')) {
-          throw new Error('Unable to fetch website. The website may be blocking external requests or unavailable.');
-        } else if (error.message.includes('HTTP')) {
-          throw new Error(`Website returned an error: ${error.message}`);
+          throw new AnalysisError('TARGET_UNREACHABLE', 'Unable to fetch website. The website may be blocking external requests or unavailable.', { cause: error });
         }
       }
       
-      throw new Error(`Failed to analyze website: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new AnalysisError('INTERNAL_ERROR', `Failed to analyze website: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Fetch a page and return the unique same-origin links found in its HTML
+   */
+  async discoverLinks(url: string, signal?: AbortSignal): Promise<string[]> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    try {
+      if (!(await this.isAllowedByRobots(url, signal))) {
+        throw new AnalysisError('BLOCKED_BY_ROBOTS', `robots.txt disallows fetching ${url}`);
+      }
+
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; WebSustainabilityChecker/1.0)',
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new AnalysisError('TARGET_UNREACHABLE', `HTTP ${response.status}: ${response.statusText}`, {
+          details: { httpStatus: response.status },
+        });
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('html')) {
+        return [];
+      }
+
+      const html = await response.text();
+      const document = new JSDOM(html, { url: response.url || url }).window.document;
+
+      return this.extractSameOriginLinks(document, response.url || url);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /**
+   * Check the site's robots.txt for rules that apply to this checker.
+   * A missing or unreadable robots.txt allows everything.
+   */
+  private async isAllowedByRobots(url: string, signal?: AbortSignal): Promise<boolean> {
+    const target = new URL(url);
+    let pending = this.robotsTxt.get(target.origin);
+    if (!pending) {
+      pending = this.fetchRobotsTxt(target.origin, signal);
+      this.robotsTxt.set(target.origin, pending);
+    }
+
+    const robotsTxt = await pending;
+    if (robotsTxt === null) return true;
+
+    // Group rules by user agent; consecutive User-agent lines share one group
+    const groups: Array<{ agents: string[]; rules: Array<{ allow: boolean; path: string }> }> = [];
+    let current: (typeof groups)[number] | null = null;
+
+    robotsTxt.split(/\r?\n/).forEach(rawLine => {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) return;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        if (!current || current.rules.length > 0) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+      } else if ((field === 'allow' || field === 'disallow') && current) {
+        // An empty Disallow means "allow everything"
+        if (value) current.rules.push({ allow: field === 'allow', path: value });
+      }
+    });
+
+    const ownGroups = groups.filter(group => group.agents.some(agent => agent !== '*' && USER_AGENT_TOKEN.toLowerCase().includes(agent)));
+    const applicable = ownGroups.length > 0 ? ownGroups : groups.filter(group => group.agents.includes('*'));
+    const path = target.pathname + target.search;
+
+    // The most specific (longest) matching rule wins; Allow wins ties
+    let verdict: { allow: boolean; length: number } = { allow: true, length: -1 };
+    applicable.flatMap(group => group.rules).forEach(rule => {
+      const pattern = new RegExp('^' + rule.path
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\\\$$/, '$'));
+      if (pattern.test(path) && (rule.path.length > verdict.length || (rule.path.length === verdict.length && rule.allow))) {
+        verdict = { allow: rule.allow, length: rule.path.length };
+      }
+    });
+
+    return verdict.allow;
+  }
+
+  private async fetchRobotsTxt(origin: string, signal?: AbortSignal): Promise<string | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; WebSustainabilityChecker/1.0)',
+        },
+        signal: controller.signal,
+      });
+      return response.ok ? await response.text() : null;
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
     }
   }
 
+  /**
+   * Fetch the page's images, scripts, stylesheets, fonts and media and add up their sizes by type.
+   * Fonts are also discovered in the @font-face rules of inline and fetched stylesheets.
+   */
+  private async measureSubresources(
+    document: Document,
+    pageUrl: string,
+    signal?: AbortSignal
+  ): Promise<ResourceSizes & { unmeasuredResources: number }> {
+    const sizes: Record<SubresourceType, number> = { image: 0, script: 0, stylesheet: 0, font: 0, media: 0 };
+    let thirdPartyBytes = 0;
+    const seen = new Set<string>();
+    let unmeasuredResources = 0;
+
+    const queue: Subresource[] = [];
+    const enqueue = (resources: Subresource[]) => {
+      resources.forEach(resource => {
+        if (seen.has(resource.url)) return;
+        seen.add(resource.url);
+        if (seen.size > MAX_RESOURCES) {
+          unmeasuredResources++;
+        } else {
+          queue.push(resource);
+        }
+      });
+    };
+
+    enqueue(this.discoverSubresources(document, pageUrl));
+
+    while (queue.length > 0) {
+      if (signal?.aborted) {
+        throw new AnalysisError('ANALYSIS_CANCELLED', 'Analysis cancelled');
+      }
+
+      const batch = queue.splice(0, RESOURCE_CONCURRENCY);
+
+      await Promise.all(batch.map(async resource => {
+        const measured = await this.fetchResourceSize(resource, signal);
+        if (!measured) {
+          unmeasuredResources++;
+          return;
+        }
+
+        sizes[resource.type] += measured.bytes;
+        if (isThirdPartyUrl(resource.url, pageUrl)) {
+          thirdPartyBytes += measured.bytes;
+        }
+        if (measured.css) {
+          enqueue(this.extractFontUrls(measured.css, resource.url));
+        }
+      }));
+    }
+
+    return {
+      totalResourceSize: Object.values(sizes).reduce((total, size) => total + size, 0),
+      imageResourceSize: sizes.image,
+      scriptResourceSize: sizes.script,
+      stylesheetResourceSize: sizes.stylesheet,
+      fontResourceSize: sizes.font,
+      thirdPartyResourceSize: thirdPartyBytes,
+      unmeasuredResources,
+    };
+  }
+
+  private discoverSubresources(document: Document, pageUrl: string): Subresource[] {
+    const resources: Subresource[] = [];
+    const add = (value: string | null, type: SubresourceType) => {
+      if (!value) return;
+      try {
+        const resourceUrl = new URL(value, pageUrl);
+        if (resourceUrl.protocol !== 'http:' && resourceUrl.protocol !== 'https:') return;
+        resourceUrl.hash = '';
+        resources.push({ url: resourceUrl.toString(), type });
+      } catch {
+        // Ignore malformed URLs
+      }
+    };
+
+    document.querySelectorAll('img[src]').forEach(img => add(img.getAttribute('src'), 'image'));
+    document.querySelectorAll('video[poster]').forEach(video => add(video.getAttribute('poster'), 'image'));
+    document.querySelectorAll('script[src]').forEach(script => add(script.getAttribute('src'), 'script'));
+    document.querySelectorAll('link[rel~="stylesheet"][href]').forEach(link => add(link.getAttribute('href'), 'stylesheet'));
+    document.querySelectorAll('link[rel="preload"][as="font"][href]').forEach(link => add(link.getAttribute('href'), 'font'));
+    // Browsers load only one of a media element's sources
+    document.querySelectorAll('video, audio').forEach(media => {
+      add(media.getAttribute('src') ?? media.querySelector('source[src]')?.getAttribute('src') ?? null, 'media');
+    });
+    document.querySelectorAll('style').forEach(style => resources.push(...this.extractFontUrls(style.textContent || '', pageUrl)));
+
+    return resources;
+  }
+
+  private extractFontUrls(css: string, stylesheetUrl: string): Subresource[] {
+    const fonts: Subresource[] = [];
+
+    (css.match(/@font-face\s*{[^}]*}/gi) || []).forEach(rule => {
+      // Browsers download only the first format they support; modern ones pick woff2 when offered
+      const sources = [...rule.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/gi)].map(match => match[1]);
+      const source = sources.find(src => /\.woff2(\?|#|$)/i.test(src)) ?? sources[0];
+      if (!source || source.startsWith('data:')) return;
+
+      try {
+        const fontUrl = new URL(source, stylesheetUrl);
+        fontUrl.hash = '';
+        fonts.push({ url: fontUrl.toString(), type: 'font' });
+      } catch {
+        // Ignore malformed URLs
+      }
+    });
+
+    return fonts;
+  }
+
+  /**
+   * Transfer size of a subresource: Content-Length from a HEAD request where the server sends it,
+   * otherwise the downloaded body, counted as it streams in. Stylesheets are always downloaded to find
+   * their fonts. Returns null when the resource can't be measured or is over MAX_DOWNLOAD_BYTES;
+   * media is never downloaded, as it may be very large.
+   */
+  private async fetchResourceSize(resource: Subresource, signal?: AbortSignal): Promise<{ bytes: number; css?: string } | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), RESOURCE_TIMEOUT);
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    const request = (method: 'HEAD' | 'GET') => fetch(resource.url, {
+      method,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; WebSustainabilityChecker/1.0)',
+      },
+      signal: controller.signal,
+    });
+
+    try {
+      if (resource.type !== 'stylesheet') {
+        const head = await request('HEAD');
+        const contentLength = parseInt(head.headers.get('content-length') || '', 10);
+        if (head.ok && contentLength >= 0) return { bytes: contentLength };
+        if (resource.type === 'media') return null;
+      }
+
+      const response = await request('GET');
+      if (!response.ok) {
+        await response.body?.cancel();
+        return null;
+      }
+
+      const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+      if (contentLength >= 0 && resource.type !== 'stylesheet') {
+        await response.body?.cancel();
+        return { bytes: contentLength };
+      }
+
+      const body = await this.readBody(response, resource.type === 'stylesheet');
+      if (!body) {
+        console.warn(`Not measuring ${resource.type} ${resource.url}: larger than ${MAX_DOWNLOAD_BYTES / 1024 / 1024} MB`);
+        return null;
+      }
+      return {
+        bytes: contentLength >= 0 ? contentLength : body.bytes,
+        ...(body.text !== undefined ? { css: body.text } : {}),
+      };
+    } catch (error) {
+      console.warn(`Could not measure ${resource.type} ${resource.url}:`, error instanceof Error ? error.message : error);
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /**
+   * Count a response body's (decoded) bytes without holding on to them, keeping the text only when asked.
+   * Returns null, and cancels the download, for bodies over MAX_DOWNLOAD_BYTES.
+   */
+  private async readBody(response: Response, keepText: boolean): Promise<{ bytes: number; text?: string } | null> {
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    let bytes = 0;
+    let text = '';
+
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytes += value.byteLength;
+      if (bytes > MAX_DOWNLOAD_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      if (keepText) text += decoder.decode(value, { stream: true });
+    }
+
+    return keepText ? { bytes, text: text + decoder.decode() } : { bytes };
+  }
+
+  private extractSameOriginLinks(document: Document, pageUrl: string): string[] {
+    const origin = new URL(pageUrl).origin;
+    const links = new Set<string>();
+
+    document.querySelectorAll('a[href]').forEach(anchor => {
+      const href = anchor.getAttribute('href');
+      if (!href) return;
+
+      try {
+        const link = new URL(href, pageUrl);
+        if (link.origin !== origin) return;
+        if (link.protocol !== 'http:' && link.protocol !== 'https:') return;
+
+        // Skip downloads and media files - they are not pages
+        if (/\.(pdf|zip|gz|jpe?g|png|gif|svg|webp|avif|mp4|webm|mp3|docx?|xlsx?|pptx?)$/i.test(link.pathname)) return;
+
+        link.hash = '';
+        links.add(link.toString());
+      } catch {
+        // Ignore malformed hrefs
+      }
+    });
+
+    return [...links];
+  }
+
   private countImages(document: Document): number {
     const images = document.querySelectorAll('img');
     return images.length;
@@ -218,36 +614,6 @@ export class WebsiteAnalyzer {
     return Math.max(0, Math.round(score));
   }
 
-  private calculateCarbonFootprint(pageSize: number, imageCount: number, videoCount: number): number {
-    // Rough estimation: 1MB = ~0.5g CO2 per page view
-    let carbonImpact = (pageSize / 1000) * 0.5;
-    
-    // Additional impact from media
-    carbonImpact += imageCount * 0.02; // Each image adds ~0.02g
-    carbonImpact += videoCount * 0.5;  // Each video adds ~0.5g
-    
-    return Math.round(carbonImpact * 100) / 100;
-  }
-
-  private checkGreenHosting(url: string): boolean {
-    // This is a simplified check - in a real implementation, you'd query a database
-    // of known green hosting providers
-    const greenHosts = [
-      'greengeeks.com',
-      'hostgator.com',
-      'dreamhost.com',
-      'a2hosting.com',
-      'siteground.com'
-    ];
-    
-    try {
-      const hostname = new URL(url).hostname;
-      return greenHosts.some(host => hostname.includes(host));
-    } catch {
-      return false;
-    }
-  }
-
   private checkCompression(response: Response): boolean {
     const contentEncoding = response.headers.get('content-encoding');
     return contentEncoding === 'gzip' || contentEncoding === 'br' || contentEncoding === 'deflate';
@@ -265,3 +631,72 @@ export class WebsiteAnalyzer {
     return cdnHeaders.some(header => response.headers.has(header));
   }
 }
+
+// A direct fetch has no page load trace or Lighthouse audits, so these are unknown
+const BASIC_UNAVAILABLE_METRICS: PageSpeedMetric[] = [
+  'bestPracticesScore',
+  'firstContentfulPaint',
+  'largestContentfulPaint',
+  'firstInputDelay',
+  'cumulativeLayoutShift',
+  'speedIndex',
+  'totalBlockingTime',
+  'unusedCssBytes',
+  'unusedJsBytes',
+  'unoptimizedImageBytes',
+  'serverResponseTime',
+  'renderBlockingResources',
+  'domSize',
+  'criticalRequestChains',
+];
+
+/**
+ * Express a basic analysis as PageSpeed data, so it runs through the same CO2.js model and scoring.
+ * A direct fetch only measures transfer sizes and element counts; everything else is 0 and listed
+ * in `unavailableMetrics`, so scoring skips it.
+ */
+export function toPageSpeedData(analysis: WebsiteAnalysis): PageSpeedData {
+  const { imageCount, scriptCount, cssCount, fontCount, videoCount } = analysis;
+
+  return {
+    url: analysis.url,
+    performanceScore: analysis.performanceScore,
+    accessibilityScore: analysis.accessibilityScore,
+    bestPracticesScore: 0,
+    seoScore: analysis.seoScore,
+
+    firstContentfulPaint: 0,
+    largestContentfulPaint: 0,
+    firstInputDelay: 0,
+    cumulativeLayoutShift: 0,
+    speedIndex: 0,
+    totalBlockingTime: 0,
+
+    totalResourceSize: analysis.totalResourceSize,
+    imageResourceSize: analysis.imageResourceSize,
+    scriptResourceSize: analysis.scriptResourceSize,
+    stylesheetResourceSize: analysis.stylesheetResourceSize,
+    fontResourceSize: analysis.fontResourceSize,
+    ...(analysis.thirdPartyResourceSize !== undefined ? { thirdPartyResourceSize: analysis.thirdPartyResourceSize } : {}),
+
+    resourceCounts: {
+      images: imageCount,
+      scripts: scriptCount,
+      stylesheets: cssCount,
+      fonts: fontCount,
+      videos: videoCount,
+      total: imageCount + scriptCount + cssCount + fontCount + videoCount,
+    },
+
+    unusedCssBytes: 0,
+    unusedJsBytes: 0,
+    unoptimizedImageBytes: 0,
+
+    serverResponseTime: 0,
+    renderBlockingResources: 0,
+    domSize: 0,
+    criticalRequestChains: 0,
+
+    unavailableMetrics: BASIC_UNAVAILABLE_METRICS,
+  };
+}
@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ['jsdom'],
+  serverExternalPackages: ['jsdom', 'better-sqlite3'],
   webpack: (config, { isServer }) => {
     if (isServer) {
       // Ensure proper handling of server-side dependencies
@@ -0,0 +1,155 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AnalysisProvider,
+  DEFAULT_PROVIDER_CHAIN,
+  getConfiguredProviders,
+  registerAnalysisProvider,
+  runProviderChain,
+} from '../lib/analysis-providers';
+import { AnalysisError } from '../lib/analysis-errors';
+import { PageSpeedAPI } from '../lib/pagespeed-api';
+import type { AnalysisMethod } from '../lib/report-types';
+
+const URL = 'https://example.com/';
+
+function provider(id: string, analysisMethod: AnalysisMethod, analyze: AnalysisProvider['analyze']): AnalysisProvider {
+  return { id, analysisMethod, analyze };
+}
+
+const failing = (id: string, code: AnalysisError['code'], analysisMethod: AnalysisMethod = 'pagespeed') =>
+  provider(id, analysisMethod, async () => {
+    throw new AnalysisError(code, `${id} failed`);
+  });
+
+const succeeding = (id: string, analysisMethod: AnalysisMethod = 'pagespeed') =>
+  provider(id, analysisMethod, async ({ url }) => ({ pageSpeedData: await new PageSpeedAPI().analyzeUrlFallback(url) }));
+
+function run(providers: AnalysisProvider[], mode: 'strict' | 'best-effort' = 'best-effort') {
+  const stages: string[] = [];
+  const result = runProviderChain(providers, {
+    url: URL,
+    strategy: 'mobile',
+    mode,
+    emit: (stage, _message, analysisMethod) => stages.push(`${analysisMethod}:${stage}`),
+  });
+  return { result, stages };
+}
+
+function withProviders<T>(value: string | undefined, body: () => T): T {
+  const previous = process.env.ANALYSIS_PROVIDERS;
+  if (value === undefined) delete process.env.ANALYSIS_PROVIDERS;
+  else process.env.ANALYSIS_PROVIDERS = value;
+  try {
+    return body();
+  } finally {
+    if (previous === undefined) delete process.env.ANALYSIS_PROVIDERS;
+    else process.env.ANALYSIS_PROVIDERS = previous;
+  }
+}
+
+describe('runProviderChain', () => {
+  it('uses the first provider with data and records the failures before it', async () => {
+    const skipped = provider('no-data', 'pagespeed', async () => null);
+    let laterCalled = false;
+    const later = provider('later', 'basic', async () => {
+      laterCalled = true;
+      return null;
+    });
+
+    const { provider: winner, errors } = await run([failing('first', 'PAGESPEED_KEY_MISSING'), skipped, succeeding('second', 'lighthouse'), later]).result;
+
+    assert.equal(winner.id, 'second');
+    assert.deepEqual([...errors.keys()], ['first']);
+    assert.equal(errors.get('first')?.code, 'PAGESPEED_KEY_MISSING');
+    assert.equal(laterCalled, false);
+  });
+
+  it('tags progress events with the method of the provider that sent them', async () => {
+    const emitting = provider('emitting', 'basic', async ({ emit }) => {
+      emit('provider-started', 'Starting');
+      return null;
+    });
+    const { result, stages } = run([emitting, succeeding('fallback', 'simulated')]);
+    await result;
+
+    assert.deepEqual(stages, ['basic:provider-started']);
+  });
+
+  it('skips simulated providers in strict mode and reports target problems first', async () => {
+    const chain = [failing('pagespeed', 'PAGESPEED_KEY_MISSING'), failing('direct-fetch', 'TARGET_UNREACHABLE', 'basic'), succeeding('simulated', 'simulated')];
+
+    assert.equal((await run(chain).result).provider.id, 'simulated');
+    await assert.rejects(run(chain, 'strict').result, (error: AnalysisError) => {
+      assert.equal(error.code, 'TARGET_UNREACHABLE');
+      assert.deepEqual(error.details?.providerErrors, { pagespeed: 'PAGESPEED_KEY_MISSING', 'direct-fetch': 'TARGET_UNREACHABLE' });
+      return true;
+    });
+  });
+
+  it('fails with TARGET_UNREACHABLE when no provider has data', async () => {
+    await assert.rejects(run([failing('pagespeed', 'PAGESPEED_ERROR')]).result, { code: 'TARGET_UNREACHABLE' });
+  });
+});
+
+describe('getConfiguredProviders', () => {
+  it('uses the default chain without ANALYSIS_PROVIDERS', () => {
+    const ids = withProviders(undefined, () => getConfiguredProviders().map(({ id }) => id));
+    assert.deepEqual(ids, DEFAULT_PROVIDER_CHAIN);
+  });
+
+  it('reads a comma-separated list, including registered providers', () => {
+    registerAnalysisProvider(succeeding('custom'));
+    const ids = withProviders(' custom, direct-fetch ,,local-lighthouse', () => getConfiguredProviders().map(({ id }) => id));
+    assert.deepEqual(ids, ['custom', 'direct-fetch', 'local-lighthouse']);
+  });
+
+  it('fails with a configuration error for unknown ids or an empty list', () => {
+    for (const value of ['pagespeed,lighthouse', ' , ']) {
+      withProviders(value, () => {
+        assert.throws(() => getConfiguredProviders(), { code: 'CONFIGURATION_ERROR', status: 500 }, value);
+      });
+    }
+  });
+});
+
+describe('local-lighthouse provider', () => {
+  let dir: string;
+  let localLighthouse: AnalysisProvider;
+  const previousPath = process.env.LIGHTHOUSE_PATH;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lighthouse-'));
+    localLighthouse = withProviders('local-lighthouse', () => getConfiguredProviders()[0]);
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+    if (previousPath === undefined) delete process.env.LIGHTHOUSE_PATH;
+    else process.env.LIGHTHOUSE_PATH = previousPath;
+  });
+
+  it('runs the Lighthouse CLI and reads its JSON report', async () => {
+    // Stands in for the lighthouse binary: prints a saved report
+    const cli = join(dir, 'lighthouse');
+    writeFileSync(cli, `#!/bin/sh\ncat "${join(__dirname, 'fixtures', 'lighthouse-report.json')}"\n`);
+    chmodSync(cli, 0o755);
+    process.env.LIGHTHOUSE_PATH = cli;
+
+    const { provider: winner, data } = await run([localLighthouse]).result;
+
+    assert.equal(winner.analysisMethod, 'lighthouse');
+    assert.ok('pageSpeedData' in data);
+    assert.equal(data.pageSpeedData.totalResourceSize, 1000000);
+  });
+
+  it('fails with a configuration error when the CLI is not installed', async () => {
+    process.env.LIGHTHOUSE_PATH = join(dir, 'missing-lighthouse');
+
+    const { errors } = await run([localLighthouse, succeeding('fallback', 'basic')]).result;
+    assert.equal(errors.get('local-lighthouse')?.code, 'CONFIGURATION_ERROR');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAnalysisParams, parseAnalysisRequest, parseCO2Options } from '../lib/analysis-request';
+import { CO2Calculator } from '../lib/co2-calculator';
+import { PageSpeedAPI } from '../lib/pagespeed-api';
+
+describe('parseAnalysisRequest', () => {
+  it('rejects payloads without a usable URL', () => {
+    for (const [payload, code] of [
+      [undefined, 'INVALID_REQUEST'],
+      ['https://example.com', 'INVALID_REQUEST'],
+      [{ url: 42 }, 'INVALID_URL'],
+      [{ url: 'not a url' }, 'INVALID_URL'],
+      [{ sitemap: { url: ['https://example.com/sitemap.xml'] } }, 'INVALID_URL'],
+      [{ compare: { urls: ['https://example.com', 7] } }, 'INVALID_URL'],
+    ] as const) {
+      const result = parseAnalysisRequest(payload);
+      assert.ok('error' in result, JSON.stringify(payload));
+      assert.equal(result.error.code, code);
+    }
+  });
+
+  it('parses crawl and sitemap limits', () => {
+    const crawl = parseAnalysisRequest({ url: 'https://example.com', crawl: { maxPages: 5, maxDepth: 0 } });
+    assert.ok('request' in crawl);
+    assert.deepEqual(crawl.request.type === 'crawl' && crawl.request.crawl, { maxPages: 5, maxDepth: 0 });
+
+    const sitemap = parseAnalysisRequest({ sitemap: { url: 'https://example.com/sitemap.xml', sampling: { strategy: 'every-nth', n: 10 }, maxPages: 20 } });
+    assert.ok('request' in sitemap);
+    assert.deepEqual(sitemap.request.type === 'sitemap' && sitemap.request.sitemap, {
+      url: 'https://example.com/sitemap.xml',
+      xml: undefined,
+      sampling: { strategy: 'every-nth', n: 10 },
+      maxPages: 20,
+    });
+  });
+
+  it('rejects invalid sampling and limits as INVALID_REQUEST', () => {
+    for (const payload of [
+      { sitemap: { url: 'https://example.com/sitemap.xml', sampling: { strategy: 'every-nth' } } },
+      { sitemap: { url: 'https://example.com/sitemap.xml', maxPages: 'ten' } },
+      { sitemap: { xml: '<urlset/>', maxPages: 0 } },
+      { url: 'https://example.com', crawl: { maxPages: Number.NaN } },
+      { url: 'https://example.com', crawl: { maxDepth: -1 } },
+    ]) {
+      const result = parseAnalysisRequest(payload);
+      assert.ok('error' in result, JSON.stringify(payload));
+      assert.equal(result.error.code, 'INVALID_REQUEST');
+      assert.equal(result.error.status, 400);
+    }
+  });
+});
+
+describe('parseAnalysisParams', () => {
+  it('reads a single-page request and its CO2 options from query parameters', () => {
+    const params = new URLSearchParams('url=https://example.com&strategy=both&mode=strict&dataCenter=FR&model=swd-v3&returnVisitPercentage=0.6');
+    const result = parseAnalysisParams(params);
+
+    assert.ok('request' in result);
+    assert.equal(result.request.type, 'single');
+    assert.equal(result.request.url, 'https://example.com');
+    assert.equal(result.request.strategy, 'both');
+    assert.equal(result.request.mode, 'strict');
+    assert.deepEqual(result.request.co2Options?.gridIntensity, { dataCenter: 'FR' });
+    assert.equal(result.request.co2Options?.model, 'swd-v3');
+    assert.ok(result.request.co2Options?.visitors);
+  });
+
+  it('rejects the same parameters a request body would reject', () => {
+    for (const [query, code] of [
+      ['', 'INVALID_REQUEST'],
+      ['url=not-a-url', 'INVALID_URL'],
+      ['url=https://example.com&strategy=tablet', 'INVALID_REQUEST'],
+      ['url=https://example.com&mode=fast', 'INVALID_REQUEST'],
+      ['url=https://example.com&model=1byte&dataCenter=FR', 'INVALID_REQUEST'],
+      ['url=https://example.com&audience=DE', 'INVALID_REQUEST'],
+    ] as const) {
+      const result = parseAnalysisParams(new URLSearchParams(query));
+      assert.ok('error' in result, query);
+      assert.equal(result.error.code, code, query);
+    }
+  });
+});
+
+describe('parseCO2Options', () => {
+  it('rejects grid intensity with the 1byte model, which ignores it', () => {
+    assert.throws(() => parseCO2Options({ model: '1byte', gridIntensity: { dataCenter: 'FR' } }), { code: 'INVALID_REQUEST' });
+    assert.throws(() => parseCO2Options({ model: '1byte', gridIntensity: { audience: { DE: 60, FR: 40 } } }), { code: 'INVALID_REQUEST' });
+    assert.throws(() => new CO2Calculator({ model: '1byte', gridIntensity: { dataCenter: 'FR' } }), { code: 'INVALID_REQUEST' });
+
+    assert.deepEqual(parseCO2Options({ model: '1byte' }), { model: '1byte' });
+    assert.deepEqual(parseCO2Options({ model: 'swd-v3', gridIntensity: { dataCenter: 'FR' } }), { model: 'swd-v3', gridIntensity: { dataCenter: 'FR' } });
+  });
+
+  it('compares 1byte alongside models that use the grid intensity', async () => {
+    const pageSpeedData = await new PageSpeedAPI().analyzeUrlFallback('https://example.com');
+    const calculator = new CO2Calculator({ model: 'swd-v4', gridIntensity: { dataCenter: 'FR' } });
+    const models = calculator.calculateAllModels(pageSpeedData);
+
+    assert.equal(models['1byte'].totalCO2, new CO2Calculator({ model: '1byte' }).calculateCO2FromPageSpeed(pageSpeedData).totalCO2);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateBudget, matchesPath, parseBudget } from '../lib/budget';
+import { getConfiguredBudget } from '../lib/budget-file';
+import type { PageSpeedData } from '../lib/pagespeed-api';
+import type { SustainabilityReport } from '../lib/report-types';
+
+// Only the fields the budget reads
+function report(url: string): SustainabilityReport {
+  return {
+    overallScore: 72,
+    energyEfficiency: 80,
+    carbonFootprint: 65,
+    resourceOptimization: 70,
+    accessibility: 90,
+    analysisData: { url, pageSize: 900, actualCarbonFootprint: 0.3 },
+    co2Data: { co2PerVisit: 0.25, totalCO2: 0.3, co2Rating: 'C' },
+  } as unknown as SustainabilityReport;
+}
+
+describe('parseBudget', () => {
+  it('accepts budgets with and without a path', () => {
+    const budget = { budgets: [{ limits: { co2Rating: { warn: 'B', fail: 'D' } } }, { path: '/blog/*', limits: { scriptResourceSize: { fail: 300000 } } }] };
+    assert.deepEqual(parseBudget(budget), budget);
+  });
+
+  it('rejects malformed budgets', () => {
+    for (const budget of [
+      null,
+      { budgets: {} },
+      { budgets: [{ path: 'blog', limits: { totalCO2: { fail: 1 } } }] },
+      { budgets: [{ limits: {} }] },
+      { budgets: [{ limits: { pageWeight: { fail: 1 } } }] },
+      { budgets: [{ limits: { totalCO2: {} } }] },
+      { budgets: [{ limits: { totalCO2: { fail: '1g' } } }] },
+      { budgets: [{ limits: { co2Rating: { fail: 'G' } } }] },
+      { budgets: [{ limits: { totalCO2: { warn: 2, fail: 1 } } }] },
+      { budgets: [{ limits: { performanceScore: { warn: 50, fail: 80 } } }] },
+    ]) {
+      assert.throws(() => parseBudget(budget), { code: 'INVALID_REQUEST' }, JSON.stringify(budget));
+    }
+  });
+});
+
+describe('evaluateBudget', () => {
+  it('checks every matching rule, with later entries overriding earlier ones', () => {
+    const budget = parseBudget({
+      budgets: [
+        { limits: { co2Rating: { warn: 'B', fail: 'D' }, overallScore: { warn: 80, fail: 60 } } },
+        { path: '/blog/**', limits: { overallScore: { fail: 75 }, totalCO2: { warn: 0.5 } } },
+      ],
+    });
+
+    const result = evaluateBudget(report('https://example.com/blog/2024/post/'), budget);
+    assert.equal(result?.status, 'fail');
+    assert.deepEqual(result?.rules, [
+      { path: '/**', metric: 'co2Rating', status: 'warn', actual: 'C', warn: 'B', fail: 'D' },
+      { path: '/blog/**', metric: 'overallScore', status: 'fail', actual: 72, fail: 75 },
+      { path: '/blog/**', metric: 'totalCO2', status: 'pass', actual: 0.3, warn: 0.5 },
+    ]);
+  });
+
+  it('reads PageSpeed metrics from the raw data and skips ones the analysis lacks', () => {
+    const budget = parseBudget({ budgets: [{ limits: { 'resourceCounts.scripts': { warn: 10 }, unusedJsBytes: { fail: 1000 } } }] });
+    const pageSpeedData = { resourceCounts: { scripts: 12 } } as unknown as PageSpeedData;
+
+    assert.deepEqual(evaluateBudget(report('https://example.com/'), budget, pageSpeedData)?.rules.map(rule => rule.status), ['warn', 'skipped']);
+    assert.equal(evaluateBudget(report('https://example.com/'), budget)?.status, 'pass');
+  });
+
+  it('returns null when no entry matches the page', () => {
+    const budget = parseBudget({ budgets: [{ path: '/products/*', limits: { totalCO2: { fail: 1 } } }] });
+    assert.equal(evaluateBudget(report('https://example.com/blog/post'), budget), null);
+  });
+});
+
+describe('matchesPath', () => {
+  it('matches * within a segment and ** across segments', () => {
+    assert.ok(matchesPath('/blog/*', '/blog/post'));
+    assert.ok(matchesPath('/blog/*', '/blog/post/'));
+    assert.ok(!matchesPath('/blog/*', '/blog/2024/post'));
+    assert.ok(matchesPath('/blog/**', '/blog/2024/post'));
+  });
+});
+
+describe('getConfiguredBudget', () => {
+  it('fails with a configuration error when BUDGET_PATH is unreadable', () => {
+    process.env.BUDGET_PATH = '/nonexistent/budget.yaml';
+    try {
+      assert.throws(() => getConfiguredBudget(), { code: 'CONFIGURATION_ERROR', status: 500 });
+    } finally {
+      delete process.env.BUDGET_PATH;
+    }
+  });
+});
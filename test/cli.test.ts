@@ -0,0 +1,83 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EXIT_BUDGET_FAILED, EXIT_ERROR, EXIT_OK, main } from '../cli/index';
+import { GreenHostingService, setGreenHostingService } from '../lib/green-hosting';
+
+const LIGHTHOUSE_REPORT = join(__dirname, 'fixtures', 'lighthouse-report.json');
+
+// Run the CLI, capturing what it prints to stdout and stderr
+async function run(argv: string[]) {
+  const output: string[] = [];
+  const errors: string[] = [];
+  const { log, error } = console;
+  console.log = (...args: unknown[]) => output.push(args.join(' '));
+  console.error = (...args: unknown[]) => errors.push(args.join(' '));
+  try {
+    const code = await main(argv);
+    return { code, output: output.join('\n'), errors: errors.join('\n') };
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+}
+
+describe('wsc CLI', () => {
+  let dir: string;
+  const budgetFile = (fail: number) => {
+    const path = join(dir, `budget-${fail}.json`);
+    writeFileSync(path, JSON.stringify({ budgets: [{ limits: { totalResourceSize: { fail } } }] }));
+    return path;
+  };
+
+  before(() => {
+    setGreenHostingService(new GreenHostingService());
+    dir = mkdtempSync(join(tmpdir(), 'wsc-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('imports a Lighthouse report and prints it as JSON', async () => {
+    const { code, output } = await run(['import', LIGHTHOUSE_REPORT, '--format', 'json', '--model', 'swd-v3']);
+
+    assert.equal(code, EXIT_OK);
+    const report = JSON.parse(output);
+    assert.equal(report.inputs.url, 'https://intranet.example.com/');
+    assert.equal(report.inputs.strategy, 'desktop');
+    assert.equal(report.co2Data.model, 'swd-v3');
+  });
+
+  it('exits with 1 when a budget rule fails and 0 when it passes', async () => {
+    const failed = await run(['import', LIGHTHOUSE_REPORT, '--budget', budgetFile(500000)]);
+    assert.equal(failed.code, EXIT_BUDGET_FAILED);
+    assert.match(failed.output, /totalResourceSize/);
+
+    assert.equal((await run(['import', LIGHTHOUSE_REPORT, '--budget', budgetFile(2000000)])).code, EXIT_OK);
+  });
+
+  it('exits with 2 on usage and analysis errors', async () => {
+    for (const argv of [
+      [],
+      ['analyze'],
+      ['scan', 'https://example.com'],
+      ['analyze', 'https://example.com', '--strategy', 'tablet'],
+      ['analyze', 'https://example.com', '--pageviews', '10', '--traffic', 'traffic.csv'],
+    ]) {
+      assert.equal((await run(argv)).code, EXIT_ERROR, argv.join(' '));
+    }
+
+    const missing = await run(['import', join(dir, 'missing.json')]);
+    assert.equal(missing.code, EXIT_ERROR);
+    assert.match(missing.errors, /^Error \(INVALID_REQUEST\)/);
+  });
+
+  it('prints the usage with --help', async () => {
+    const { code, output } = await run(['--help']);
+    assert.equal(code, EXIT_OK);
+    assert.match(output, /^Usage: wsc analyze <url>/);
+  });
+});
@@ -0,0 +1,158 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { generateReport } from '../lib/report-generator';
+import { CO2Calculator, getConfiguredCo2Model } from '../lib/co2-calculator';
+import { parseLighthouseReport } from '../lib/lighthouse-import';
+import { GreenHostingService, setGreenHostingService } from '../lib/green-hosting';
+import type { AnalysisProvider } from '../lib/analysis-providers';
+import type { CO2Options } from '../lib/report-generator';
+import type { WebsiteAnalysis } from '../lib/website-analyzer';
+
+const URL = 'https://example.com/';
+
+function basicPage(overrides: Partial<WebsiteAnalysis>): WebsiteAnalysis {
+  return {
+    url: URL,
+    loadTime: 400,
+    pageSize: 300,
+    unmeasuredResources: 0,
+    totalResourceSize: 300 * 1024,
+    imageResourceSize: 150 * 1024,
+    scriptResourceSize: 80 * 1024,
+    stylesheetResourceSize: 20 * 1024,
+    fontResourceSize: 20 * 1024,
+    imageCount: 5,
+    scriptCount: 3,
+    cssCount: 1,
+    fontCount: 1,
+    videoCount: 0,
+    accessibilityScore: 90,
+    seoScore: 90,
+    performanceScore: 80,
+    greenHosting: false,
+    compressionEnabled: true,
+    cdnEnabled: true,
+    ...overrides,
+  };
+}
+
+function basicReport(websiteData: WebsiteAnalysis, options: CO2Options = {}) {
+  const provider: AnalysisProvider = { id: 'fixture', analysisMethod: 'basic', analyze: async () => ({ websiteData }) };
+  return generateReport(URL, { providers: [provider], persist: false, ...options });
+}
+
+function withCo2Model<T>(value: string | undefined, body: () => T): T {
+  const previous = process.env.CO2_MODEL;
+  if (value === undefined) delete process.env.CO2_MODEL;
+  else process.env.CO2_MODEL = value;
+  try {
+    return body();
+  } finally {
+    if (previous === undefined) delete process.env.CO2_MODEL;
+    else process.env.CO2_MODEL = previous;
+  }
+}
+
+describe('basic analysis scoring', () => {
+  before(() => {
+    setGreenHostingService(new GreenHostingService());
+  });
+
+  it('scores resource optimization by request counts and page weight when there are no Lighthouse audits', async () => {
+    const light = await basicReport(basicPage({}));
+    const heavy = await basicReport(basicPage({
+      pageSize: 3000,
+      totalResourceSize: 3000 * 1024,
+      scriptResourceSize: 1800 * 1024,
+      scriptCount: 25,
+      cssCount: 9,
+      fontCount: 6,
+    }));
+
+    assert.equal(light.resourceOptimization, 100);
+    assert.ok(heavy.resourceOptimization < 50, `resourceOptimization ${heavy.resourceOptimization}`);
+  });
+
+  it('marks the unaudited optimization savings as assumed', async () => {
+    const report = await basicReport(basicPage({}));
+
+    assert.equal(report.provenance['co2Data.optimizationPotential'], 'assumed');
+    assert.equal(report.co2Data?.optimizationPotential.totalPotentialSavings, 0);
+  });
+});
+
+describe('emissions models', () => {
+  before(() => {
+    setGreenHostingService(new GreenHostingService());
+  });
+
+  it('calculates CO2 with the requested model and records it', async () => {
+    const reports = await Promise.all((['swd-v4', 'swd-v3', '1byte'] as const).map(model => basicReport(basicPage({}), { model })));
+
+    reports.forEach((report, index) => {
+      assert.equal(report.inputs.model, ['swd-v4', 'swd-v3', '1byte'][index]);
+      assert.equal(report.co2Data?.model, report.inputs.model);
+    });
+    assert.equal(new Set(reports.map(report => report.co2Data?.totalCO2)).size, 3);
+    assert.ok(Object.values(reports[2].co2Data!.breakdown).every(value => value === 0)); // OneByte has no segment breakdown
+  });
+
+  it('calculates every model side by side with compareModels', async () => {
+    const report = await basicReport(basicPage({}), { model: 'swd-v3', compareModels: true });
+
+    assert.deepEqual(Object.keys(report.co2Models ?? {}).sort(), ['1byte', 'swd-v3', 'swd-v4']);
+    assert.equal(report.co2Models?.['swd-v3'].totalCO2, report.co2Data?.totalCO2);
+    assert.equal(report.provenance.co2Models, report.provenance['co2Data.totalCO2']);
+  });
+
+  it('never reports negative green hosting savings', async () => {
+    // CO2.js's SWD v3 renewables intensity (50 g/kWh) is above France's grid
+    const report = await basicReport(basicPage({}), { model: 'swd-v3', gridIntensity: { dataCenter: 'FR' } });
+
+    assert.equal(report.co2Data?.greenHostingImpact.potentialSavings, 0);
+    assert.equal(report.co2Data?.greenHostingImpact.savingsPercentage, 0);
+    assert.ok(!report.recommendations.some(recommendation => recommendation.includes('green hosting')));
+  });
+
+  it('reads the default model from CO2_MODEL and reports an unknown one as a configuration error', () => {
+    assert.equal(withCo2Model(undefined, getConfiguredCo2Model), 'swd-v4');
+    assert.equal(withCo2Model('swd-v3', getConfiguredCo2Model), 'swd-v3');
+    withCo2Model('swd-v5', () => {
+      assert.throws(() => getConfiguredCo2Model(), { code: 'CONFIGURATION_ERROR', status: 500 });
+    });
+  });
+});
+
+describe('CO2 attribution by resource type', () => {
+  const { pageSpeedData } = parseLighthouseReport(JSON.parse(readFileSync(join(__dirname, 'fixtures', 'lighthouse-report.json'), 'utf8')));
+
+  it('splits CO2 per visit by resource type and origin in proportion to bytes', () => {
+    const { co2PerVisit, co2ByResourceType } = new CO2Calculator({ model: 'swd-v4' }).calculateCO2FromPageSpeed(pageSpeedData);
+    const { byType, byOrigin } = co2ByResourceType;
+
+    assert.deepEqual(
+      Object.fromEntries(Object.entries(byType).map(([type, slice]) => [type, [slice.bytes, slice.percentage]])),
+      { image: [450000, 45], script: [400000, 40], stylesheet: [60000, 6], font: [50000, 5], other: [40000, 4] } // other: the document and the rest
+    );
+    const attributed = Object.values(byType).reduce((total, slice) => total + slice.co2, 0);
+    assert.ok(Math.abs(attributed - co2PerVisit) < 1e-9);
+    assert.ok(Math.abs(byType.image.co2 - co2PerVisit * 0.45) < 1e-9);
+
+    assert.deepEqual([byOrigin?.firstParty.bytes, byOrigin?.thirdParty.bytes], [750000, 250000]);
+    assert.equal(byOrigin?.thirdParty.percentage, 25);
+  });
+
+  it('leaves out the origin split without third-party bytes and never attributes negative bytes', () => {
+    const { co2ByResourceType } = new CO2Calculator().calculateCO2FromPageSpeed({
+      ...pageSpeedData,
+      thirdPartyResourceSize: undefined,
+      totalResourceSize: 500000, // Less than the typed sizes, as simulated data can be
+    });
+
+    assert.equal(co2ByResourceType.byOrigin, undefined);
+    assert.equal(co2ByResourceType.byType.other.bytes, 0);
+    assert.equal(co2ByResourceType.byType.image.percentage, 46.9); // 450000 of the 960000 typed bytes
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTraffic, projectEmissions, ProjectedPage } from '../lib/emissions-projection';
+
+const page = (url: string, co2PerVisit: number): ProjectedPage => ({
+  url,
+  co2PerVisit,
+  co2Savings: { optimization: co2PerVisit / 4, greenHosting: co2PerVisit / 2 },
+});
+
+const pages = [page('https://example.com/', 0.5), page('https://example.com/pricing', 1)];
+
+describe('parseTraffic', () => {
+  it('accepts a site-wide count, per-page counts or a CSV export', () => {
+    assert.deepEqual(parseTraffic({ monthlyPageviews: 1000 }), { monthlyPageviews: 1000 });
+    assert.deepEqual(parseTraffic({ pages: [{ url: ' /pricing ', monthlyPageviews: 10 }] }), { pages: [{ url: '/pricing', monthlyPageviews: 10 }] });
+    assert.deepEqual(
+      parseTraffic({ csv: 'Page path and screen class,Views,Users\n/,"1,200",900\n/pricing,300,250\n,1500,1150\n' }),
+      { pages: [{ url: '/', monthlyPageviews: 1200 }, { url: '/pricing', monthlyPageviews: 300 }] }
+    );
+    assert.deepEqual(parseTraffic({ csv: '/,100\n/about,50' }), { pages: [{ url: '/', monthlyPageviews: 100 }, { url: '/about', monthlyPageviews: 50 }] });
+  });
+
+  it('rejects anything else as INVALID_REQUEST', () => {
+    for (const data of [
+      null,
+      {},
+      { monthlyPageviews: -1 },
+      { monthlyPageviews: 10, csv: '/,1' },
+      { pages: [] },
+      { pages: [{ url: '/', monthlyPageviews: '10' }] },
+      { csv: 'page,notes\n/,none' },
+    ]) {
+      assert.throws(() => parseTraffic(data), { code: 'INVALID_REQUEST' }, JSON.stringify(data));
+    }
+  });
+});
+
+describe('projectEmissions', () => {
+  it('spreads site-wide pageviews evenly over the distinct pages', () => {
+    const projection = projectEmissions([...pages, page('https://example.com/pricing/', 1)], { monthlyPageviews: 10000 });
+
+    assert.deepEqual(projection.pages.map(entry => [entry.url, entry.monthlyPageviews]), [
+      ['https://example.com/', 5000],
+      ['https://example.com/pricing', 5000],
+    ]);
+    assert.equal(projection.total.monthlyPageviews, 10000);
+    assert.equal(projection.total.monthlyKg, 7.5); // (0.5 g × 5000 + 1 g × 5000) / 1000
+    assert.equal(projection.total.annualKg, 90);
+    assert.equal(projection.total.annualTonnes, 0.09);
+    assert.deepEqual(projection.total.annualSavings, { optimizationKg: 22.5, greenHostingKg: 45 });
+  });
+
+  it('matches per-page traffic by URL and projects the rest with the average page', () => {
+    const projection = projectEmissions(pages, {
+      pages: [
+        { url: '/', monthlyPageviews: 4000 },
+        { url: 'https://example.com/pricing/', monthlyPageviews: 1000 },
+        { url: '/blog', monthlyPageviews: 1500 },
+        { url: '/blog#comments', monthlyPageviews: 500 },
+      ],
+    });
+
+    assert.deepEqual(projection.pages.map(entry => entry.monthlyPageviews), [4000, 1000]);
+    assert.deepEqual(projection.unmatched, {
+      pages: 1,
+      monthlyPageviews: 2000,
+      monthlyKg: 1.5, // 0.75 g average × 2000
+      annualKg: 18,
+      annualSavings: { optimizationKg: 4.5, greenHostingKg: 9 },
+    });
+    assert.equal(projection.total.monthlyPageviews, 7000);
+    assert.equal(projection.total.monthlyKg, 4.5);
+  });
+
+  it('needs at least one analyzed page', () => {
+    assert.throws(() => projectEmissions([], { monthlyPageviews: 10 }), { code: 'INVALID_REQUEST' });
+  });
+});
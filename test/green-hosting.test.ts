@@ -0,0 +1,128 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GreenHostingDataset, GreenHostingResult, GreenHostingService, loadGreenHostingDataset } from '../lib/green-hosting';
+
+const dataset: GreenHostingDataset = {
+  providers: [
+    { name: 'Example Host', website: 'https://example-host.com', domains: ['example-host.net'], ipRanges: ['192.0.2.0/24'], asns: [64500] },
+    { name: 'Range Host', ipRanges: [{ start: '2001:db8::', end: '2001:db8::ffff' }] },
+  ],
+  asnPrefixes: { '64500': ['198.51.100.0/24'] },
+};
+
+const addresses: Record<string, string[]> = {
+  'shop.example.com': ['192.0.2.7'],
+  'asn.example.com': ['203.0.113.1', '198.51.100.9'],
+  'v6.example.com': ['2001:db8::1'],
+  'grey.example.com': ['203.0.113.1'],
+};
+
+const resolve = async (hostname: string) => {
+  if (!addresses[hostname]) throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+  return addresses[hostname];
+};
+
+describe('GreenHostingService', () => {
+  it('matches provider domains and their subdomains, but not lookalike hosts', async () => {
+    const service = new GreenHostingService({ dataset, resolve });
+
+    const result = await service.check('https://cdn.example-host.net/app.js');
+    assert.equal(result.green, true);
+    assert.equal(result.provider, 'Example Host');
+    assert.deepEqual(result.evidence, { type: 'domain', detail: 'cdn.example-host.net is served by example-host.net' });
+
+    assert.equal((await service.check('https://notexample-host.net/')).green, false);
+  });
+
+  it('matches resolved addresses against CIDR blocks, address ranges and ASN prefixes', async () => {
+    const service = new GreenHostingService({ dataset, resolve });
+
+    assert.deepEqual((await service.check('https://shop.example.com/')).evidence, { type: 'ip-range', detail: '192.0.2.7 in 192.0.2.0/24' });
+    assert.deepEqual((await service.check('https://asn.example.com/')).evidence, { type: 'asn', detail: '198.51.100.9 in AS64500 (198.51.100.0/24)' });
+    assert.equal((await service.check('https://v6.example.com/')).provider, 'Range Host');
+    assert.equal((await service.check('http://192.0.2.200/')).provider, 'Example Host');
+
+    const grey = await service.check('https://grey.example.com/');
+    assert.deepEqual(grey, { hostname: 'grey.example.com', green: false, source: 'none' });
+  });
+
+  it('falls back to the online lookup for hosts the dataset does not know', async () => {
+    const online: GreenHostingResult = { hostname: 'grey.example.com', green: true, source: 'online', evidence: { type: 'online', detail: 'stub' } };
+    const checked: string[] = [];
+    const service = new GreenHostingService({
+      dataset,
+      resolve,
+      onlineCheck: async hostname => {
+        checked.push(hostname);
+        return hostname === 'grey.example.com' ? online : null;
+      },
+    });
+
+    assert.equal(await service.check('https://grey.example.com/a'), online);
+    assert.equal(await service.check('https://grey.example.com/b'), online);
+    assert.equal((await service.check('https://shop.example.com/')).source, 'dataset');
+    assert.deepEqual(checked, ['grey.example.com']); // Cached, and dataset matches skip the online lookup
+  });
+
+  it('does not cache failed lookups', async () => {
+    let calls = 0;
+    const service = new GreenHostingService({
+      onlineCheck: async hostname => {
+        if (++calls === 1) throw new Error('timed out');
+        return { hostname, green: true, source: 'online' };
+      },
+    });
+
+    const failed = await service.check('https://example.org/');
+    assert.equal(failed.green, false);
+    assert.equal(failed.error, 'Online lookup failed: timed out');
+
+    assert.equal((await service.check('https://example.org/')).green, true);
+    assert.equal(calls, 2);
+  });
+
+  it('reports invalid URLs instead of throwing', async () => {
+    const result = await new GreenHostingService().check('not a url');
+    assert.equal(result.green, false);
+    assert.equal(result.error, 'Invalid URL');
+  });
+});
+
+describe('loadGreenHostingDataset', () => {
+  let dir: string;
+  const write = (data: unknown) => {
+    const path = join(dir, 'dataset.json');
+    writeFileSync(path, JSON.stringify(data));
+    return path;
+  };
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'green-hosting-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads a valid dataset', () => {
+    assert.deepEqual(loadGreenHostingDataset(write(dataset)), dataset);
+  });
+
+  it('rejects malformed IP ranges and ASN prefixes', () => {
+    for (const data of [
+      { providers: [{ name: 'Bad', ipRanges: ['10.0.0.0/abc'] }] },
+      { providers: [{ name: 'Bad', ipRanges: ['10.0.0.0/33'] }] },
+      { providers: [{ name: 'Bad', ipRanges: ['2001:db8::/129'] }] },
+      { providers: [{ name: 'Bad', ipRanges: ['10.0.0.0/8/8'] }] },
+      { providers: [{ name: 'Bad', ipRanges: [{ start: '10.0.0.0', end: '2001:db8::' }] }] },
+      { providers: [], asnPrefixes: { '64500': ['198.51.100.0/-1'] } },
+      { providers: [], asnPrefixes: { '64500': '198.51.100.0/24' } },
+      { providers: [], asnPrefixes: ['198.51.100.0/24'] },
+    ]) {
+      assert.throws(() => loadGreenHostingDataset(write(data)), { code: 'INVALID_REQUEST' }, JSON.stringify(data));
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGridIntensity, parseGridIntensityParams, toCo2GridIntensity } from '../lib/grid-intensity';
+
+describe('parseGridIntensity', () => {
+  it('accepts alpha-2 and alpha-3 countries and CO2.js regions', () => {
+    assert.deepEqual(parseGridIntensity({ dataCenter: 'de' }), { dataCenter: 'de' });
+    assert.deepEqual(parseGridIntensity({ audience: { FRA: 40, US: 60, EU: 1 } }), { audience: { FRA: 40, US: 60, EU: 1 } });
+    assert.deepEqual(parseGridIntensity({}), {});
+  });
+
+  it('rejects anything else as INVALID_REQUEST', () => {
+    for (const data of [
+      null,
+      'DE',
+      ['DE'],
+      { dataCenter: 'Atlantis' },
+      { dataCenter: 49 },
+      { audience: {} },
+      { audience: ['DE'] },
+      { audience: { XX: 10 } },
+      { audience: { DE: 0 } },
+      { audience: { DE: '60' } },
+    ]) {
+      assert.throws(() => parseGridIntensity(data), { code: 'INVALID_REQUEST' }, JSON.stringify(data));
+    }
+  });
+});
+
+describe('parseGridIntensityParams', () => {
+  it('reads COUNTRY:SHARE lists and leaves unset parameters undefined', () => {
+    assert.equal(parseGridIntensityParams(null, null), undefined);
+    assert.equal(parseGridIntensityParams('', undefined), undefined);
+    assert.deepEqual(parseGridIntensityParams('FR', ' DE:60, FR:30,,US:10 '), { dataCenter: 'FR', audience: { DE: 60, FR: 30, US: 10 } });
+  });
+
+  it('rejects malformed audience entries as INVALID_REQUEST', () => {
+    for (const audience of ['DE', 'DE:60:1', ':60', 'DE:sixty', 'DE:-5']) {
+      assert.throws(() => parseGridIntensityParams(null, audience), { code: 'INVALID_REQUEST' }, audience);
+    }
+  });
+});
+
+describe('toCo2GridIntensity', () => {
+  it('weights the device and network segments by audience share', () => {
+    const single = toCo2GridIntensity({ audience: { DE: 1 } }).device!;
+    const weighted = toCo2GridIntensity({ dataCenter: 'FR', audience: { DE: 50, DEU: 50 } });
+
+    assert.deepEqual(weighted, { dataCenter: { country: 'FRA' }, device: single, network: single });
+  });
+});
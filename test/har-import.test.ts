@@ -0,0 +1,92 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateHarReport } from '../lib/har-import';
+import { GreenHostingService, setGreenHostingService } from '../lib/green-hosting';
+import { generateReportFromHar } from '../lib/report-generator';
+
+const entry = (pageref: string, url: string, response: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+  pageref,
+  request: { url },
+  response: { status: 200, headersSize: -1, bodySize: -1, ...response },
+  ...extra,
+});
+
+const har = {
+  log: {
+    creator: { name: 'WebInspector', version: '537.36' },
+    pages: [
+      { id: 'page_1', title: 'https://shop.example.co.uk/login' },
+      { id: 'page_2', title: 'https://shop.example.co.uk/checkout' },
+    ],
+    entries: [
+      entry('page_1', 'https://shop.example.co.uk/login', { headersSize: 400, bodySize: 20000, content: { mimeType: 'text/html' }, _transferSize: 20400 }, { _resourceType: 'document', timings: { wait: 120.6 } }),
+      entry('page_1', 'https://cdn.example.co.uk/app.js', { content: { size: 300000, mimeType: 'application/javascript' } }),
+      entry('page_1', 'https://www.googletagmanager.com/gtm.js', { headersSize: 300, bodySize: 90000, content: { mimeType: 'text/javascript' } }),
+      entry('page_2', 'https://shop.example.co.uk/checkout', { _transferSize: 30400, content: { mimeType: 'text/html' } }, { _resourceType: 'document' }),
+      entry('page_2', 'https://cdn.example.co.uk/app.js', { _transferSize: 0 }, { _resourceType: 'script', _fromCache: 'memory' }),
+      entry('page_2', 'https://shop.example.co.uk/img/a.webp', { headersSize: 300, bodySize: 50000, content: { mimeType: 'image/webp' } }),
+      entry('page_2', 'data:image/png;base64,xx', { content: { size: 10 } }),
+      entry('page_2', 'https://blocked.ads.com/x', { status: 0 }),
+    ],
+  },
+};
+
+describe('generateHarReport', () => {
+  before(() => {
+    setGreenHostingService(new GreenHostingService());
+  });
+
+  it('rejects files that are not HAR recordings', async () => {
+    for (const json of [null, {}, { log: {} }, { log: { entries: [{ request: {} }] } }, { log: { entries: [entry('p', 'https://example.com/', { status: 0 })] } }]) {
+      await assert.rejects(generateHarReport(json), { code: 'INVALID_REQUEST' }, JSON.stringify(json));
+    }
+  });
+
+  it('measures transfer sizes, cached requests and third parties', async () => {
+    const report = await generateHarReport(har);
+
+    assert.equal(report.url, 'https://shop.example.co.uk/login');
+    assert.equal(report.creator, 'WebInspector 537.36');
+    assert.equal(report.requestCount, 6); // Data URLs and blocked requests aren't traffic
+    assert.equal(report.cachedRequestCount, 1);
+    assert.equal(report.pageSpeedData.totalResourceSize, 20400 + 300000 + 90300 + 30400 + 50300);
+    assert.equal(report.pageSpeedData.scriptResourceSize, 300000 + 90300);
+    assert.equal(report.pageSpeedData.imageResourceSize, 50300);
+    assert.equal(report.pageSpeedData.serverResponseTime, 121);
+    assert.deepEqual(report.thirdParty.domains, [{ domain: 'googletagmanager.com', requestCount: 1, transferSize: 90300 }]);
+    assert.match(report.warnings.join('\n'), /1 of 6 requests have no recorded transfer size/);
+  });
+
+  it('reports the CO2 of the recorded bytes for the flow and each page', async () => {
+    const report = await generateHarReport(har);
+    const pageTotal = report.pages.reduce((total, page) => total + page.co2, 0);
+
+    assert.deepEqual(report.pages.map(page => page.transferSize), [20400 + 300000 + 90300, 30400 + 50300]);
+    assert.ok(Math.abs(pageTotal - report.co2Data.totalCO2) < 1e-9);
+    assert.ok(report.co2Data.co2PerVisit < report.co2Data.totalCO2);
+  });
+});
+
+describe('generateReportFromHar', () => {
+  before(() => {
+    setGreenHostingService(new GreenHostingService());
+  });
+
+  it('scores the requests of the first page as one load of it', async () => {
+    const report = await generateReportFromHar(har, { persist: false });
+    const pageOne = (await generateHarReport(har)).pages[0];
+
+    assert.equal(report.inputs.url, 'https://shop.example.co.uk/login');
+    assert.equal(report.analysisMethod, 'har');
+    assert.equal(report.analysisData.totalResourceSize, pageOne.transferSize); // The checkout page is left out
+    assert.equal(report.co2Data?.totalCO2, pageOne.co2);
+    assert.equal(report.provenance['analysisData.performanceScore'], 'assumed');
+  });
+
+  it('uses every request when the recording has no pages', async () => {
+    const entries = har.log.entries.map(({ pageref: _pageref, ...entry }) => entry);
+    const report = await generateReportFromHar({ log: { entries } }, { persist: false });
+
+    assert.equal(report.analysisData.totalResourceSize, (await generateHarReport(har)).pageSpeedData.totalResourceSize);
+  });
+});
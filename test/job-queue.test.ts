@@ -0,0 +1,123 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobContext, JobQueue } from '../lib/job-queue';
+import { BatchAnalyzer } from '../lib/batch-analyzer';
+import { registerAnalysisProvider } from '../lib/analysis-providers';
+import { GreenHostingService, setGreenHostingService } from '../lib/green-hosting';
+import { PageSpeedAPI } from '../lib/pagespeed-api';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+// A runner whose jobs finish when the test says so
+function controlledRunner() {
+  const started: string[] = [];
+  const finishers = new Map<string, (result: string) => void>();
+  const contexts = new Map<string, JobContext>();
+
+  const runner = (input: string, context: JobContext) => new Promise<string>(resolve => {
+    started.push(input);
+    contexts.set(input, context);
+    finishers.set(input, resolve);
+  });
+
+  return { runner, started, contexts, finish: (input: string) => finishers.get(input)!(`${input} done`) };
+}
+
+describe('JobQueue', () => {
+  it('runs at most `concurrency` jobs and starts queued ones as slots free up', async () => {
+    const { runner, started, contexts, finish } = controlledRunner();
+    const queue = new JobQueue(runner, 2);
+
+    const [a, b, c] = ['a', 'b', 'c'].map(input => queue.enqueue(input));
+    assert.deepEqual(started, ['a', 'b']);
+    assert.equal(c.status, 'queued');
+
+    contexts.get('a')!.reportProgress(1, 4);
+    assert.deepEqual(queue.get(a.id)?.progress, { completed: 1, total: 4, percentage: 25 });
+
+    finish('a');
+    await tick();
+    assert.equal(a.status, 'completed');
+    assert.equal(a.result, 'a done');
+    assert.equal(a.progress.percentage, 100);
+    assert.deepEqual(started, ['a', 'b', 'c']);
+    assert.equal(b.status, 'running');
+  });
+
+  it('records the error and its code when the runner fails', async () => {
+    const queue = new JobQueue(async () => {
+      throw Object.assign(new Error('Site unreachable'), { code: 'TARGET_UNREACHABLE' });
+    });
+
+    const job = queue.enqueue('a');
+    await tick();
+    assert.equal(job.status, 'failed');
+    assert.equal(job.error, 'Site unreachable');
+    assert.equal(job.errorCode, 'TARGET_UNREACHABLE');
+  });
+
+  it('cancels a queued job without running it', () => {
+    const { runner, started } = controlledRunner();
+    const queue = new JobQueue(runner, 1);
+
+    queue.enqueue('a');
+    const b = queue.enqueue('b');
+    assert.equal(queue.cancel(b.id)?.status, 'cancelled');
+    assert.ok(b.finishedAt);
+    assert.equal(queue.cancel('unknown'), undefined);
+    assert.deepEqual(started, ['a']);
+  });
+
+  it('aborts a running job and frees its slot before the runner settles', async () => {
+    const { runner, started, contexts, finish } = controlledRunner();
+    const queue = new JobQueue(runner, 1);
+
+    const a = queue.enqueue('a');
+    const b = queue.enqueue('b');
+    queue.cancel(a.id);
+
+    assert.equal(a.status, 'cancelled');
+    assert.equal(contexts.get('a')!.signal.aborted, true);
+    assert.equal(b.status, 'running');
+    assert.deepEqual(started, ['a', 'b']);
+
+    // The cancelled runner finishing late neither overwrites its status nor frees a second slot
+    queue.enqueue('c');
+    finish('a');
+    await tick();
+    assert.equal(a.status, 'cancelled');
+    assert.equal(a.result, undefined);
+    assert.deepEqual(started, ['a', 'b']);
+  });
+});
+
+describe('BatchAnalyzer time budget', () => {
+  const previousProviders = process.env.ANALYSIS_PROVIDERS;
+
+  before(() => {
+    setGreenHostingService(new GreenHostingService());
+    registerAnalysisProvider({
+      id: 'slow-fixture',
+      analysisMethod: 'pagespeed',
+      async analyze({ url }) {
+        await new Promise(resolve => setTimeout(resolve, 30));
+        return { pageSpeedData: await new PageSpeedAPI().analyzeUrlFallback(url) };
+      },
+    });
+    process.env.ANALYSIS_PROVIDERS = 'slow-fixture';
+  });
+
+  after(() => {
+    if (previousProviders === undefined) delete process.env.ANALYSIS_PROVIDERS;
+    else process.env.ANALYSIS_PROVIDERS = previousProviders;
+  });
+
+  it('starts no new URLs once the budget is spent and marks the report truncated', async () => {
+    const urls = ['https://example.com/', 'https://example.com/a', 'https://example.com/b'];
+
+    const report = await new BatchAnalyzer({ concurrency: 1, timeBudget: 10 }).analyze('https://example.com/sitemap.xml', urls);
+
+    assert.equal(report.pages.length, 1);
+    assert.equal(report.truncated, true);
+  });
+});
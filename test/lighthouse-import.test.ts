@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseLighthouseReport } from '../lib/lighthouse-import';
+import { extractPageSpeedData, LighthouseResult } from '../lib/pagespeed-api';
+
+const report: LighthouseResult = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'lighthouse-report.json'), 'utf8'));
+
+describe('extractPageSpeedData', () => {
+  it('sums the per-type resource rows without the total and third-party rows', () => {
+    const data = extractPageSpeedData(report);
+
+    assert.equal(data.url, 'https://intranet.example.com/');
+    assert.equal(data.totalResourceSize, 1000000);
+    assert.equal(data.thirdPartyResourceSize, 250000);
+    assert.equal(data.scriptResourceSize, 400000);
+    assert.equal(data.imageResourceSize, 450000);
+    assert.deepEqual(data.resourceCounts, { images: 9, scripts: 8, stylesheets: 3, fonts: 2, videos: 0, total: 24 });
+    assert.equal(data.unusedJsBytes, 90000);
+    assert.equal(data.performanceScore, 82);
+  });
+
+  it('falls back to the network requests without a resource summary', () => {
+    const { 'resource-summary': _summary, ...audits } = report.audits;
+    const data = extractPageSpeedData({
+      ...report,
+      audits: {
+        ...audits,
+        'network-requests': {
+          details: {
+            items: [
+              { url: 'https://intranet.example.com/', resourceType: 'Document', transferSize: 30000 },
+              { url: 'https://intranet.example.com/app.js', mimeType: 'application/javascript', transferSize: 200000 },
+              { url: 'https://cdn.vendor.com/logo.png', resourceType: 'Image', transferSize: 70000 },
+            ],
+          },
+        } as LighthouseResult['audits'][string],
+      },
+    });
+
+    assert.equal(data.totalResourceSize, 300000);
+    assert.equal(data.scriptResourceSize, 200000);
+    assert.equal(data.thirdPartyResourceSize, 70000);
+    assert.deepEqual(data.resourceCounts, { images: 1, scripts: 1, stylesheets: 0, fonts: 0, videos: 0, total: 3 });
+  });
+});
+
+describe('parseLighthouseReport', () => {
+  it('reads raw Lighthouse JSON and PageSpeed Insights responses', () => {
+    const imported = parseLighthouseReport(report);
+
+    assert.equal(imported.strategy, 'desktop');
+    assert.equal(imported.lighthouseVersion, '12.2.1');
+    assert.equal(imported.pageSpeedData.totalResourceSize, 1000000);
+    assert.deepEqual(parseLighthouseReport({ lighthouseResult: report }), imported);
+  });
+
+  it('rejects malformed or unsupported JSON as INVALID_REQUEST', () => {
+    const { 'resource-summary': _summary, ...audits } = report.audits;
+
+    for (const json of [
+      null,
+      'report',
+      {},
+      { lighthouseResult: null },
+      { ...report, audits: undefined },
+      { ...report, lighthouseVersion: undefined },
+      { ...report, requestedUrl: undefined, finalDisplayedUrl: 'intranet' },
+      { ...report, audits },
+    ]) {
+      assert.throws(() => parseLighthouseReport(json), { code: 'INVALID_REQUEST' }, JSON.stringify(json)?.slice(0, 80));
+    }
+  });
+
+  it('reports a page Lighthouse could not load as TARGET_UNREACHABLE', () => {
+    assert.throws(() => parseLighthouseReport({ ...report, runtimeError: { code: 'NO_FCP', message: 'The page did not paint any content' } }), {
+      code: 'TARGET_UNREACHABLE',
+      details: { lighthouseError: 'NO_FCP' },
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { before as beforeAll, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateReport } from '../lib/report-generator';
+import { diffStoredReports } from '../lib/report-diff';
+import { GreenHostingService, setGreenHostingService } from '../lib/green-hosting';
+import { PageSpeedAPI, PageSpeedData } from '../lib/pagespeed-api';
+import type { AnalysisProvider } from '../lib/analysis-providers';
+import type { CO2Options } from '../lib/report-generator';
+import { parseVisitorBehavior } from '../lib/visitor-behavior';
+import type { StoredReport } from '../lib/report-types';
+
+const URL = 'https://example.com/';
+
+async function storedReport(id: string, createdAt: string, pageSpeedData: PageSpeedData, options: CO2Options = {}): Promise<StoredReport> {
+  const provider: AnalysisProvider = { id: 'fixture', analysisMethod: 'pagespeed', analyze: async () => ({ pageSpeedData }) };
+  const report = await generateReport(URL, { providers: [provider], persist: false, ...options });
+
+  return {
+    id,
+    url: URL,
+    createdAt,
+    analysisMethod: report.analysisMethod,
+    strategy: 'mobile',
+    overallScore: report.overallScore,
+    report,
+    pageSpeedData,
+  };
+}
+
+describe('diffStoredReports', () => {
+  let pageSpeedData: PageSpeedData;
+
+  beforeAll(async () => {
+    // No dataset and no online lookup: every host is not green, without network access
+    setGreenHostingService(new GreenHostingService());
+    pageSpeedData = await new PageSpeedAPI().analyzeUrlFallback(URL);
+  });
+
+  it('reports changed PageSpeed fields and the CO2 breakdown', async () => {
+    const lighter = {
+      ...pageSpeedData,
+      imageResourceSize: pageSpeedData.imageResourceSize - 200000,
+      totalResourceSize: pageSpeedData.totalResourceSize - 200000,
+    };
+    const diff = diffStoredReports(
+      await storedReport('a', '2026-01-01T00:00:00.000Z', pageSpeedData),
+      await storedReport('b', '2026-02-01T00:00:00.000Z', lighter)
+    );
+
+    assert.equal(diff.source, 'pageSpeedData');
+    assert.deepEqual(diff.warnings, []);
+    assert.equal(diff.summary.totalResourceSize?.delta, -200000);
+    assert.ok(diff.summary.co2PerVisit!.delta! < 0);
+    assert.deepEqual(
+      diff.changedFields.map(change => change.field).filter(field => field.endsWith('ResourceSize')).sort(),
+      ['imageResourceSize', 'totalResourceSize']
+    );
+
+    assert.deepEqual(diff.co2Breakdown.map(change => change.component), ['dataCenterCO2', 'networkCO2', 'deviceCO2', 'operationalCO2', 'embodiedCO2']);
+    diff.co2Breakdown.forEach(change => {
+      assert.ok(change.before > 0, `${change.component} before`);
+      assert.ok(change.delta < 0, `${change.component} delta`);
+    });
+  });
+
+  it('reads the SWD v3 segments into the same breakdown', async () => {
+    const diff = diffStoredReports(
+      await storedReport('a', '2026-01-01T00:00:00.000Z', pageSpeedData, { model: 'swd-v3' }),
+      await storedReport('b', '2026-02-01T00:00:00.000Z', pageSpeedData, { model: 'swd-v3' })
+    );
+
+    assert.equal(diff.changedFields.length, 0);
+    diff.co2Breakdown.forEach(change => {
+      assert.ok(change.before > 0, `${change.component} before`);
+      assert.equal(change.delta, 0);
+    });
+  });
+
+  it('falls back to analysisData and warns when raw PageSpeed data is missing', async () => {
+    const before = await storedReport('a', '2026-02-01T00:00:00.000Z', pageSpeedData);
+    const after = { ...(await storedReport('b', '2026-01-01T00:00:00.000Z', pageSpeedData)), pageSpeedData: undefined };
+    const diff = diffStoredReports(before, after);
+
+    assert.equal(diff.source, 'analysisData');
+    assert.equal(diff.warnings.length, 2);
+    assert.match(diff.warnings[0], /newer/);
+    assert.match(diff.warnings[1], /Raw PageSpeed data is missing/);
+  });
+
+  it('warns when the reports use different emissions models or grid intensities', async () => {
+    const diff = diffStoredReports(
+      await storedReport('a', '2026-01-01T00:00:00.000Z', pageSpeedData, { model: 'swd-v3' }),
+      await storedReport('b', '2026-02-01T00:00:00.000Z', pageSpeedData, { gridIntensity: { dataCenter: 'FR' } })
+    );
+
+    assert.deepEqual(diff.warnings, [
+      'The reports use different emissions models (swd-v3 → swd-v4), so CO2 changes come from the methodology rather than the site.',
+      'The reports use different grid intensities (global average → data center FR), so CO2 changes partly come from the assumed locations.',
+    ]);
+  });
+
+  it('warns when the reports assume different visitor behavior', async () => {
+    const diff = diffStoredReports(
+      await storedReport('a', '2026-01-01T00:00:00.000Z', pageSpeedData),
+      await storedReport('b', '2026-02-01T00:00:00.000Z', pageSpeedData, { visitors: parseVisitorBehavior({ returnVisitPercentage: 0.6 }) })
+    );
+
+    assert.deepEqual(diff.warnings, [
+      'The reports assume different visitor behavior (25% return visits reloading 2% → 60% return visits reloading 2%), so CO2 per visit partly changes with the assumptions.',
+    ]);
+  });
+
+  it('matches recommendations that only differ in their numbers', async () => {
+    const before = await storedReport('a', '2026-01-01T00:00:00.000Z', pageSpeedData);
+    const after = await storedReport('b', '2026-02-01T00:00:00.000Z', pageSpeedData);
+    before.report = { ...before.report, recommendations: ['Remove unused CSS (120KB)', 'Enable compression', 'Note: simulated data'] };
+    after.report = { ...after.report, recommendations: ['Remove unused CSS (80KB)', 'Use a CDN'] };
+
+    assert.deepEqual(diffStoredReports(before, after).recommendations, {
+      appeared: ['Use a CDN'],
+      resolved: ['Enable compression'],
+      changed: [{ before: 'Remove unused CSS (120KB)', after: 'Remove unused CSS (80KB)' }],
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+import { parseSitemapSampling, sampleUrls, SitemapParser } from '../lib/sitemap-parser';
+
+const urls = Array.from({ length: 10 }, (_, index) => `https://example.com/page-${index}`);
+
+describe('sampleUrls', () => {
+  it('keeps every URL by default', () => {
+    assert.deepEqual(sampleUrls(urls), urls);
+  });
+
+  it('keeps every nth URL from the offset', () => {
+    assert.deepEqual(sampleUrls(urls, { strategy: 'every-nth', n: 4 }), [urls[0], urls[4], urls[8]]);
+    assert.deepEqual(sampleUrls(urls, { strategy: 'every-nth', n: 4, offset: 1 }), [urls[1], urls[5], urls[9]]);
+  });
+
+  it('keeps up to perPrefix URLs for each path prefix', () => {
+    const sectioned = [
+      'https://example.com/blog/a',
+      'https://example.com/blog/b',
+      'https://example.com/blog/c',
+      'https://example.com/docs/a',
+      'https://example.com/about',
+    ];
+    const sampled = sampleUrls(sectioned, { strategy: 'random-per-prefix', perPrefix: 2 });
+
+    assert.equal(sampled.filter(url => url.includes('/blog/')).length, 2);
+    assert.ok(sampled.includes('https://example.com/docs/a'));
+    assert.ok(sampled.includes('https://example.com/about'));
+    assert.equal(sampled.length, 4);
+  });
+});
+
+describe('parseSitemapSampling', () => {
+  it('accepts each strategy', () => {
+    assert.deepEqual(parseSitemapSampling({ strategy: 'all' }), { strategy: 'all' });
+    assert.deepEqual(parseSitemapSampling({ strategy: 'every-nth', n: 50, offset: 3 }), { strategy: 'every-nth', n: 50, offset: 3 });
+    assert.deepEqual(parseSitemapSampling({ strategy: 'random-per-prefix', perPrefix: 3 }), { strategy: 'random-per-prefix', perPrefix: 3 });
+  });
+
+  it('rejects unknown strategies and missing or invalid counts', () => {
+    for (const sampling of [
+      'all',
+      { strategy: 'first' },
+      { strategy: 'every-nth' },
+      { strategy: 'every-nth', n: 0 },
+      { strategy: 'every-nth', n: '5' },
+      { strategy: 'every-nth', n: 5, offset: -1 },
+      { strategy: 'random-per-prefix', perPrefix: 1.5 },
+      { strategy: 'random-per-prefix', perPrefix: 2, prefixDepth: Number.NaN },
+    ]) {
+      assert.throws(() => parseSitemapSampling(sampling), { code: 'INVALID_REQUEST' }, JSON.stringify(sampling));
+    }
+  });
+});
+
+const urlset = (...locations: string[]) =>
+  `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${locations.map(loc => `<url><loc>${loc}</loc></url>`).join('')}</urlset>`;
+const sitemapindex = (...locations: string[]) =>
+  `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${locations.map(loc => `<sitemap><loc>${loc}</loc></sitemap>`).join('')}</sitemapindex>`;
+
+describe('SitemapParser.parse', () => {
+  it('reads url sets and sitemap indexes', () => {
+    assert.deepEqual(new SitemapParser().parse(urlset('https://example.com/', ' https://example.com/a ')), {
+      type: 'urlset',
+      locations: ['https://example.com/', 'https://example.com/a'],
+    });
+    assert.equal(new SitemapParser().parse(sitemapindex('https://example.com/posts.xml')).type, 'sitemapindex');
+  });
+
+  it('keeps only http(s) locations', () => {
+    const { locations } = new SitemapParser().parse(urlset('file:///etc/passwd', 'javascript:alert(1)', 'ftp://example.com/a', 'not a url', 'http://example.com/b'));
+    assert.deepEqual(locations, ['http://example.com/b']);
+  });
+
+  it('rejects invalid XML and other documents as SITEMAP_UNREADABLE', () => {
+    for (const xml of ['<urlset><url>', 'not xml', '<html><body/></html>']) {
+      assert.throws(() => new SitemapParser().parse(xml), { code: 'SITEMAP_UNREADABLE' }, xml);
+    }
+  });
+});
+
+describe('SitemapParser.expand', () => {
+  let server: Server;
+  let base: string;
+  const files: Record<string, string | Buffer> = {};
+  const requested: string[] = [];
+
+  before(async () => {
+    server = createServer((request, response) => {
+      requested.push(request.url!);
+      const body = files[request.url!];
+      response.writeHead(body === undefined ? 404 : 200).end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    files['/sitemap.xml'] = sitemapindex(`${base}/pages.xml`, `${base}/posts.xml.gz`, `${base}/missing.xml`, `${base}/nested.xml`);
+    files['/pages.xml'] = urlset('https://example.com/', 'https://example.com/about');
+    files['/posts.xml.gz'] = gzipSync(urlset('https://example.com/blog/a', 'https://example.com/'));
+    files['/nested.xml'] = sitemapindex(`${base}/deep.xml`);
+    files['/deep.xml'] = urlset('https://example.com/deep');
+    files['/loop.xml'] = sitemapindex(`${base}/loop-2.xml`);
+    files['/loop-2.xml'] = sitemapindex(`${base}/loop.xml`, `${base}/deep.xml`);
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('follows sitemap indexes, including gzipped sitemaps, and skips broken ones', async () => {
+    const urls = await new SitemapParser().expand({ url: `${base}/sitemap.xml` });
+
+    assert.deepEqual(urls, ['https://example.com/', 'https://example.com/about', 'https://example.com/blog/a', 'https://example.com/deep']);
+  });
+
+  it('expands uploaded XML and stops at the depth, file and URL limits', async () => {
+    const xml = files['/sitemap.xml'] as string;
+
+    assert.deepEqual(await new SitemapParser({ maxDepth: 1 }).expand({ xml }), ['https://example.com/', 'https://example.com/about', 'https://example.com/blog/a']);
+    assert.deepEqual(await new SitemapParser({ maxSitemaps: 1 }).expand({ xml }), ['https://example.com/', 'https://example.com/about']);
+    assert.deepEqual(await new SitemapParser({ maxUrls: 3 }).expand({ xml }), ['https://example.com/', 'https://example.com/about', 'https://example.com/blog/a']);
+    // Indexes that point at each other are fetched once each
+    assert.deepEqual(await new SitemapParser().expand({ url: `${base}/loop.xml` }), ['https://example.com/deep']);
+  });
+
+  it('fails with SITEMAP_UNREADABLE when the first sitemap cannot be fetched', async () => {
+    await assert.rejects(new SitemapParser().expand({ url: `${base}/missing.xml` }), { code: 'SITEMAP_UNREADABLE' });
+    await assert.rejects(new SitemapParser().expand({}), { code: 'INVALID_REQUEST' });
+  });
+
+  it('stops fetching when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    requested.length = 0;
+
+    await assert.rejects(new SitemapParser().expand({ url: `${base}/sitemap.xml` }, controller.signal), { code: 'ANALYSIS_CANCELLED' });
+    assert.deepEqual(requested, []);
+  });
+});
@@ -0,0 +1,65 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteReportRepository } from '../lib/sqlite-report-repository';
+import { toUrlKey } from '../lib/report-repository';
+import { generateReport } from '../lib/report-generator';
+import { GreenHostingService, setGreenHostingService } from '../lib/green-hosting';
+import { PageSpeedAPI, PageSpeedData } from '../lib/pagespeed-api';
+import type { AnalysisProvider } from '../lib/analysis-providers';
+import type { SustainabilityReport } from '../lib/report-types';
+
+describe('toUrlKey', () => {
+  it('groups URLs that differ only by host case, fragment or trailing slash', () => {
+    assert.equal(toUrlKey('https://Example.COM/'), 'https://example.com');
+    assert.equal(toUrlKey('https://example.com/pricing/#plans'), 'https://example.com/pricing');
+    assert.equal(toUrlKey('https://example.com/pricing?plan=pro'), 'https://example.com/pricing?plan=pro');
+    assert.equal(toUrlKey(' not a url '), 'not a url');
+  });
+});
+
+describe('SqliteReportRepository', () => {
+  let pageSpeedData: PageSpeedData;
+  let report: SustainabilityReport;
+
+  const at = (url: string, generatedAt: string): SustainabilityReport => ({ ...report, generatedAt, inputs: { ...report.inputs, url } });
+
+  before(async () => {
+    setGreenHostingService(new GreenHostingService());
+    pageSpeedData = await new PageSpeedAPI().analyzeUrlFallback('https://example.com/');
+    const provider: AnalysisProvider = { id: 'fixture', analysisMethod: 'pagespeed', analyze: async () => ({ pageSpeedData }) };
+    report = await generateReport('https://example.com/', { providers: [provider], persist: false });
+  });
+
+  it('saves reports and reads them back by id', async () => {
+    const repository = new SqliteReportRepository(':memory:');
+    const summary = await repository.save(at('https://example.com/', '2026-01-01T00:00:00.000Z'), pageSpeedData);
+
+    assert.equal(summary.url, 'https://example.com/');
+    assert.equal(summary.co2PerVisit, report.co2Data?.co2PerVisit);
+
+    const stored = await repository.get(summary.id);
+    assert.equal(stored?.createdAt, '2026-01-01T00:00:00.000Z');
+    assert.equal(stored?.report.id, summary.id);
+    assert.equal(stored?.report.overallScore, report.overallScore);
+    assert.deepEqual(stored?.pageSpeedData, pageSpeedData);
+    assert.equal(stored?.totalResourceSize, report.analysisData.totalResourceSize);
+
+    const withoutRawData = await repository.save(at('https://example.com/', '2026-01-02T00:00:00.000Z'));
+    assert.equal((await repository.get(withoutRawData.id))?.pageSpeedData, undefined);
+    assert.equal(await repository.get('unknown'), undefined);
+  });
+
+  it('lists the reports of a page newest first, across URL spellings', async () => {
+    const repository = new SqliteReportRepository(':memory:');
+    await repository.save(at('https://example.com/', '2026-01-01T00:00:00.000Z'));
+    await repository.save(at('https://EXAMPLE.com', '2026-03-01T00:00:00.000Z'));
+    await repository.save(at('https://example.com/#top', '2026-02-01T00:00:00.000Z'));
+    await repository.save(at('https://example.com/pricing', '2026-04-01T00:00:00.000Z'));
+
+    const history = await repository.list('https://example.com');
+    assert.deepEqual(history.map(entry => entry.createdAt), ['2026-03-01T00:00:00.000Z', '2026-02-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z']);
+
+    const page = await repository.list('https://example.com/', { limit: 1, offset: 1 });
+    assert.deepEqual(page.map(entry => entry.createdAt), ['2026-02-01T00:00:00.000Z']);
+  });
+});
@@ -0,0 +1,74 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { UrlComparator } from '../lib/url-comparator';
+import { registerAnalysisProvider } from '../lib/analysis-providers';
+import { AnalysisError } from '../lib/analysis-errors';
+import { GreenHostingService, setGreenHostingService } from '../lib/green-hosting';
+import { PageSpeedAPI } from '../lib/pagespeed-api';
+
+// Page weights served by the fixture provider; other URLs are unreachable
+const weights: Record<string, number> = {
+  'https://a.example/': 2000000,
+  'https://b.example/': 1000000,
+  'https://c.example/': 3000000,
+};
+
+describe('UrlComparator', () => {
+  const previousProviders = process.env.ANALYSIS_PROVIDERS;
+
+  before(() => {
+    setGreenHostingService(new GreenHostingService());
+    registerAnalysisProvider({
+      id: 'comparison-fixture',
+      analysisMethod: 'pagespeed',
+      async analyze({ url }) {
+        if (!weights[url]) throw new AnalysisError('TARGET_UNREACHABLE', `${url} is down`);
+        const pageSpeedData = await new PageSpeedAPI().analyzeUrlFallback('https://a.example/');
+        return { pageSpeedData: { ...pageSpeedData, url, totalResourceSize: weights[url] } };
+      },
+    });
+    process.env.ANALYSIS_PROVIDERS = 'comparison-fixture';
+  });
+
+  after(() => {
+    if (previousProviders === undefined) delete process.env.ANALYSIS_PROVIDERS;
+    else process.env.ANALYSIS_PROVIDERS = previousProviders;
+  });
+
+  it('reports deltas against the first URL and picks a winner per metric', async () => {
+    const progress: number[] = [];
+    const comparison = await new UrlComparator({ onProgress: completed => progress.push(completed) })
+      .compare(['https://a.example/', 'https://b.example/', 'https://c.example/']);
+
+    assert.equal(comparison.baselineUrl, 'https://a.example/');
+    const size = comparison.metrics.find(metric => metric.key === 'totalResourceSize')!;
+    assert.deepEqual(size.values, [
+      { url: 'https://a.example/', value: 2000000, delta: 0, deltaPercentage: 0 },
+      { url: 'https://b.example/', value: 1000000, delta: -1000000, deltaPercentage: -50 },
+      { url: 'https://c.example/', value: 3000000, delta: 1000000, deltaPercentage: 50 },
+    ]);
+    assert.equal(size.winner, 'https://b.example/');
+    assert.equal(comparison.metrics.find(metric => metric.key === 'co2PerVisit')!.winner, 'https://b.example/');
+    assert.deepEqual(comparison.warnings, []);
+    assert.deepEqual(progress, [0, 1, 2, 3]);
+  });
+
+  it('compares the sites that could be analyzed and warns about the others', async () => {
+    const comparison = await new UrlComparator().compare(['https://down.example/', 'https://b.example/', 'https://c.example/']);
+
+    assert.equal(comparison.baselineUrl, 'https://b.example/');
+    assert.deepEqual(comparison.urls, ['https://down.example/', 'https://b.example/', 'https://c.example/']);
+    assert.equal(comparison.results[0].error?.code, 'TARGET_UNREACHABLE');
+    assert.deepEqual(
+      comparison.metrics.find(metric => metric.key === 'totalResourceSize')!.values.map(value => value.deltaPercentage),
+      [0, 200]
+    );
+    assert.equal(comparison.warnings.length, 1);
+    assert.match(comparison.warnings[0], /^https:\/\/down\.example\/ could not be analyzed/);
+  });
+
+  it('fails with the first error when no URL could be analyzed', async () => {
+    await assert.rejects(new UrlComparator().compare(['https://down.example/', 'https://gone.example/']), { code: 'TARGET_UNREACHABLE' });
+    await assert.rejects(new UrlComparator().compare(['https://a.example/']), { code: 'INVALID_REQUEST' });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_VISITOR_BEHAVIOR, parseVisitorBehavior, parseVisitorParams } from '../lib/visitor-behavior';
+
+describe('parseVisitorBehavior', () => {
+  it('fills in the other visit share and keeps unset values at their defaults', () => {
+    assert.deepEqual(parseVisitorBehavior({}), { ...DEFAULT_VISITOR_BEHAVIOR, source: 'request' });
+    assert.deepEqual(parseVisitorBehavior({ returnVisitPercentage: 0.6 }), {
+      firstVisitPercentage: 0.4,
+      returnVisitPercentage: 0.6,
+      dataReloadRatio: 0.02,
+      source: 'request',
+    });
+    assert.equal(parseVisitorBehavior({ firstVisitPercentage: 0.9, dataReloadRatio: 0.1 }).returnVisitPercentage, 0.1);
+  });
+
+  it('takes fractions, not percentages, and rejects shares out of range', () => {
+    for (const visitors of [
+      null,
+      0.5,
+      { returnVisitPercentage: 60 },
+      { returnVisitPercentage: -0.1 },
+      { dataReloadRatio: 1.5 },
+      { firstVisitPercentage: '0.5' },
+      { firstVisitPercentage: 0.5, returnVisitPercentage: 0.6 },
+      { returnVisitPercentage: 0.5, analytics: '{"newSessions":1,"returningSessions":1}' },
+    ]) {
+      assert.throws(() => parseVisitorBehavior(visitors), { code: 'INVALID_REQUEST' }, JSON.stringify(visitors));
+    }
+  });
+
+  it('reads the returning share from a JSON analytics export', () => {
+    assert.deepEqual(parseVisitorBehavior({ analytics: ' {"newSessions": 300, "returningSessions": 900} ', dataReloadRatio: 0.05 }), {
+      firstVisitPercentage: 0.25,
+      returnVisitPercentage: 0.75,
+      dataReloadRatio: 0.05,
+      source: 'analytics',
+      sessions: 1200,
+    });
+  });
+
+  it('finds the label and count columns of CSV analytics exports', () => {
+    // GA4: comment lines, "New / established" labels, and Sessions preferred over Users
+    const ga4 = [
+      '# ----------------------------------------',
+      '# User acquisition: New / established',
+      '# ----------------------------------------',
+      'New / established,Total users,Sessions',
+      'new,"1,000","1,500"',
+      'established,400,500',
+      ',1400,2000',
+    ].join('\n');
+    assert.deepEqual(parseVisitorBehavior({ analytics: ga4 }), {
+      firstVisitPercentage: 0.75,
+      returnVisitPercentage: 0.25,
+      dataReloadRatio: 0.02,
+      source: 'analytics',
+      sessions: 2000,
+    });
+
+    // Universal Analytics, counting users when there is no Sessions column
+    const universal = 'Users,User Type\n600,New Visitor\n200,Returning Visitor\n';
+    const visitors = parseVisitorBehavior({ analytics: universal });
+    assert.equal(visitors.returnVisitPercentage, 0.25);
+    assert.equal(visitors.sessions, 800);
+  });
+
+  it('rejects analytics exports without session counts', () => {
+    for (const analytics of [
+      '{"newSessions": 10',
+      '{"newSessions": -1, "returningSessions": 5}',
+      '{"visits": 10}',
+      'User Type,Bounce rate\nNew Visitor,40%',
+      'User Type,Sessions\nDesktop,100',
+      42,
+    ]) {
+      assert.throws(() => parseVisitorBehavior({ analytics }), { code: 'INVALID_REQUEST' }, String(analytics));
+    }
+  });
+});
+
+describe('parseVisitorParams', () => {
+  it('reads query parameters and leaves unset ones undefined', () => {
+    assert.equal(parseVisitorParams(null, null), undefined);
+    assert.equal(parseVisitorParams('0.4', '0.1')?.firstVisitPercentage, 0.6);
+    assert.throws(() => parseVisitorParams('40', null), { code: 'INVALID_REQUEST' });
+  });
+});
@@ -0,0 +1,84 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+import { WebsiteAnalyzer } from '../lib/website-analyzer';
+import { GreenHostingService, setGreenHostingService } from '../lib/green-hosting';
+
+const html = `<!doctype html><html lang="en"><head><title>Shop</title>
+<link rel="stylesheet" href="/style.css"><script src="/app.js"></script><script src="/stream.js"></script></head>
+<body><img src="/hero.jpg" alt="Hero"><img src="/huge.png" alt="Huge"></body></html>`;
+const compressedHtml = gzipSync(html);
+const css = '@font-face { font-family: Brand; src: url(/brand.woff2) format("woff2"); }';
+// Served with a Content-Length
+const sizes: Record<string, number> = { '/app.js': 40000, '/hero.jpg': 120000, '/brand.woff2': 20000 };
+
+// Streams `size` bytes in chunks, without a Content-Length
+function streamBody(response: ServerResponse, size: number) {
+  const chunk = Buffer.alloc(64 * 1024, 'a');
+  let sent = 0;
+  const write = () => {
+    while (sent < size) {
+      const part = chunk.subarray(0, Math.min(chunk.length, size - sent));
+      sent += part.length;
+      if (!response.write(part)) return response.once('drain', write);
+    }
+    response.end();
+  };
+  write();
+}
+
+function handle(request: IncomingMessage, response: ServerResponse) {
+  const head = request.method === 'HEAD';
+
+  switch (request.url) {
+    case '/':
+      response.writeHead(200, { 'Content-Type': 'text/html', 'Content-Encoding': 'gzip', 'Content-Length': compressedHtml.length });
+      return response.end(compressedHtml);
+    case '/style.css':
+      response.writeHead(200, { 'Content-Type': 'text/css', 'Transfer-Encoding': 'chunked' });
+      return response.end(head ? undefined : css);
+    case '/app.js':
+    case '/hero.jpg':
+    case '/brand.woff2':
+      response.writeHead(200, { 'Content-Length': sizes[request.url] });
+      return response.end(head ? undefined : Buffer.alloc(sizes[request.url]));
+    case '/stream.js':
+      response.writeHead(200, { 'Transfer-Encoding': 'chunked' });
+      return head ? response.end() : streamBody(response, 30000);
+    case '/huge.png':
+      response.writeHead(200, { 'Transfer-Encoding': 'chunked' });
+      return head ? response.end() : streamBody(response, 6 * 1024 * 1024);
+    default:
+      response.writeHead(404).end();
+  }
+}
+
+describe('WebsiteAnalyzer', () => {
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    setGreenHostingService(new GreenHostingService());
+    server = createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('measures the document by its transfer size and subresources by Content-Length or streamed bytes', async () => {
+    const analysis = await new WebsiteAnalyzer().analyzeWebsite(url);
+
+    assert.equal(analysis.compressionEnabled, true);
+    assert.equal(analysis.scriptResourceSize, 40000 + 30000);
+    assert.equal(analysis.imageResourceSize, 120000); // huge.png is over the download cap
+    assert.equal(analysis.stylesheetResourceSize, css.length);
+    assert.equal(analysis.fontResourceSize, 20000);
+    assert.equal(analysis.unmeasuredResources, 1);
+    assert.equal(analysis.totalResourceSize, compressedHtml.length + 40000 + 30000 + 120000 + css.length + 20000);
+  });
+});